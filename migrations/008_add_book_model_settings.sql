@@ -0,0 +1,8 @@
+-- Migration 008: Per-book model settings
+-- Stores which model each AI task (summary, wiki, review) uses for a book.
+-- Values are model specs such as "gpt-4o-mini", "anthropic:claude-3-5-haiku-latest"
+-- or "local:llama3.1:8b". Missing keys fall back to the server's LLM_* defaults.
+
+ALTER TABLE books ADD COLUMN IF NOT EXISTS model_settings JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN books.model_settings IS 'Per-task model overrides, e.g. {"summary": "gpt-4o-mini", "review": "anthropic:claude-3-5-sonnet-latest"}';
@@ -0,0 +1,28 @@
+-- Migration 009: Background AI jobs
+-- Queue for summary, wiki-update and review generation, processed by the job
+-- worker (src/jobs.ts) with retries and exponential backoff.
+
+CREATE TABLE IF NOT EXISTS ai_jobs (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  chapter_id TEXT REFERENCES chapters(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL,               -- 'summary', 'wiki_update', 'review'
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb, -- Job options, e.g. review tone/profile
+  status TEXT NOT NULL DEFAULT 'queued', -- 'queued', 'running', 'succeeded', 'failed'
+  progress JSONB,                       -- {done, total} for multi-step jobs
+  result JSONB,                         -- Output of a succeeded job
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT now(), -- Earliest time the job may run (backoff)
+  locked_at TIMESTAMPTZ,                -- When a worker claimed the job
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_queue ON ai_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_book ON ai_jobs(book_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_chapter ON ai_jobs(chapter_id);
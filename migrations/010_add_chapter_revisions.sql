@@ -0,0 +1,28 @@
+-- Migration 010: Chapter revision history
+-- Every change to chapters.text is snapshotted so it can be diffed and restored.
+-- Summaries and reviews record the revision they were generated against.
+
+CREATE TABLE IF NOT EXISTS chapter_revisions (
+  id SERIAL PRIMARY KEY,
+  chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+  title TEXT,
+  text TEXT NOT NULL,
+  word_count INTEGER,
+  source TEXT NOT NULL,                 -- 'upsert', 'replace', 'restore', 'baseline'
+  restored_from_revision_id INTEGER REFERENCES chapter_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_revisions_chapter ON chapter_revisions(chapter_id, id DESC);
+
+ALTER TABLE chapter_summaries
+  ADD COLUMN IF NOT EXISTS revision_id INTEGER REFERENCES chapter_revisions(id) ON DELETE SET NULL;
+
+ALTER TABLE chapter_reviews
+  ADD COLUMN IF NOT EXISTS revision_id INTEGER REFERENCES chapter_revisions(id) ON DELETE SET NULL;
+
+-- Snapshot the current text of every existing chapter as its first revision
+INSERT INTO chapter_revisions (chapter_id, title, text, word_count, source, created_at)
+SELECT c.id, c.title, c.text, c.word_count, 'baseline', COALESCE(c.updated_at, now())
+FROM chapters c
+WHERE NOT EXISTS (SELECT 1 FROM chapter_revisions r WHERE r.chapter_id = c.id);
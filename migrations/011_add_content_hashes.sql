@@ -0,0 +1,22 @@
+-- Migration 011: Stale summary and review detection
+-- Summaries and reviews store a SHA-256 hash of the chapter text they were
+-- generated from. A hash that no longer matches the chapter marks them stale.
+
+ALTER TABLE chapter_summaries ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE chapter_reviews ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- Backfill items generated after the chapter's last edit; anything older
+-- stays NULL and is reported as stale
+UPDATE chapter_summaries s
+SET content_hash = encode(sha256(convert_to(c.text, 'UTF8')), 'hex')
+FROM chapters c
+WHERE s.chapter_id = c.id
+  AND s.content_hash IS NULL
+  AND s.created_at >= c.updated_at;
+
+UPDATE chapter_reviews r
+SET content_hash = encode(sha256(convert_to(c.text, 'UTF8')), 'hex')
+FROM chapters c
+WHERE r.chapter_id = c.id
+  AND r.content_hash IS NULL
+  AND r.updated_at >= c.updated_at;
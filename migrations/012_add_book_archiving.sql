@@ -0,0 +1,7 @@
+-- Migration 012: Soft-archived books
+-- Archived books are hidden from GET /books (unless ?includeArchived=true) but
+-- keep all of their chapters, summaries, wiki pages and reviews until restored.
+
+ALTER TABLE books ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_books_user_archived ON books(user_id, archived_at);
@@ -0,0 +1,22 @@
+-- Migration 013: Review history
+-- Regenerating a review used to overwrite the previous one for the same chapter
+-- and profile. Every generation is now kept as a numbered version; the newest
+-- version is the current review and one version per chapter/profile can be
+-- pinned as the favorite.
+
+DROP INDEX IF EXISTS chapter_reviews_unique_review;
+ALTER TABLE chapter_reviews DROP CONSTRAINT IF EXISTS chapter_reviews_chapter_id_ai_profile_id_key;
+
+ALTER TABLE chapter_reviews ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE chapter_reviews ADD COLUMN IF NOT EXISTS is_pinned BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS chapter_reviews_one_pinned ON chapter_reviews (
+  chapter_id,
+  COALESCE(ai_profile_id::text, 'custom-' || custom_profile_id::text)
+) WHERE is_pinned;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_chapter_versions ON chapter_reviews (
+  chapter_id,
+  COALESCE(ai_profile_id::text, 'custom-' || custom_profile_id::text),
+  id DESC
+);
@@ -0,0 +1,17 @@
+-- Migration 014: Panel reviews
+-- A panel runs several reviewer profiles on one chapter. Each panelist's review
+-- is a normal chapter_reviews version; the panel row ties them together with
+-- the synthesized consensus report (agreements, disagreements, top issues).
+
+CREATE TABLE IF NOT EXISTS review_panels (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+  review_ids INTEGER[] NOT NULL DEFAULT '{}',  -- chapter_reviews ids, in panel order
+  consensus JSONB NOT NULL,                    -- {summary, agreements[], disagreements[], top_issues[]}
+  revision_id INTEGER REFERENCES chapter_revisions(id) ON DELETE SET NULL,
+  content_hash TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_panels_chapter ON review_panels(chapter_id, created_at DESC);
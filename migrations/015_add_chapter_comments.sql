@@ -0,0 +1,28 @@
+-- Migration 015: Anchored inline comments
+-- Structured line-level review comments. Each comment quotes a span of
+-- chapters.text and stores its character offsets plus a little surrounding
+-- context so it can be re-anchored after the chapter is edited.
+
+CREATE TABLE IF NOT EXISTS chapter_comments (
+  id SERIAL PRIMARY KEY,
+  chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+  review_id INTEGER REFERENCES chapter_reviews(id) ON DELETE SET NULL,
+  quote TEXT NOT NULL,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  prefix_context TEXT,
+  suffix_context TEXT,
+  comment TEXT NOT NULL,
+  suggestion TEXT,
+  severity TEXT NOT NULL DEFAULT 'moderate',    -- 'minor', 'moderate', 'major'
+  category TEXT NOT NULL DEFAULT 'other',       -- 'grammar', 'pacing', 'dialogue', ...
+  status TEXT NOT NULL DEFAULT 'open',          -- 'open', 'resolved', 'dismissed'
+  anchor_status TEXT NOT NULL DEFAULT 'anchored', -- 'anchored' or 'orphaned' (quote no longer in the text)
+  anchored_content_hash TEXT,                   -- chapter content hash the offsets refer to
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_comments_chapter ON chapter_comments(chapter_id, start_offset);
+CREATE INDEX IF NOT EXISTS idx_chapter_comments_review ON chapter_comments(review_id);
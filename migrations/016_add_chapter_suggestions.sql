@@ -0,0 +1,26 @@
+-- Migration 016: AI rewrite suggestions
+-- Concrete replacements for spans of chapters.text proposed by a rewrite run.
+-- Anchored the same way as chapter_comments; accepting one applies it to the
+-- chapter and records the resulting revision.
+
+CREATE TABLE IF NOT EXISTS chapter_suggestions (
+  id SERIAL PRIMARY KEY,
+  chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+  review_id INTEGER REFERENCES chapter_reviews(id) ON DELETE SET NULL,
+  goal TEXT,                                    -- 'tighten', 'dialogue_tags', 'clarity', 'grammar'
+  original_text TEXT NOT NULL,
+  replacement TEXT NOT NULL,
+  reason TEXT,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  prefix_context TEXT,
+  suffix_context TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',       -- 'pending', 'accepted', 'rejected', 'conflict'
+  applied_revision_id INTEGER REFERENCES chapter_revisions(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapter_suggestions_chapter ON chapter_suggestions(chapter_id, start_offset);
+CREATE INDEX IF NOT EXISTS idx_chapter_suggestions_review ON chapter_suggestions(review_id);
@@ -0,0 +1,19 @@
+-- Migration 017: Whole-book developmental reviews
+-- A book-level report (arc structure, act breaks, pacing by part, dangling
+-- threads, stalled character arcs) built from every chapter summary plus the
+-- wiki. Each generation is stored as the next version for the book.
+
+CREATE TABLE IF NOT EXISTS book_reviews (
+  id SERIAL PRIMARY KEY,
+  book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  report JSONB NOT NULL,
+  chapter_ids TEXT[] NOT NULL DEFAULT '{}',          -- chapters whose summaries were used, in reading order
+  missing_summary_ids TEXT[] NOT NULL DEFAULT '{}',  -- chapters skipped for lack of a summary
+  condense_levels INTEGER NOT NULL DEFAULT 0,        -- rounds of hierarchical summarization needed to fit
+  source_hash TEXT,                                  -- hash of the summaries used, for staleness
+  prompt_used TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (book_id, version)
+);
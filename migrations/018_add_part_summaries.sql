@@ -0,0 +1,12 @@
+-- Migration 018: Part summaries
+-- One AI summary per book part, rolled up from its chapters' summaries. Reviews
+-- can use them in place of the chapter summaries of earlier parts.
+
+CREATE TABLE IF NOT EXISTS part_summaries (
+  part_id INTEGER PRIMARY KEY REFERENCES book_parts(id) ON DELETE CASCADE,
+  summary TEXT NOT NULL,
+  characters JSONB,
+  open_threads JSONB,
+  chapter_ids TEXT[] NOT NULL DEFAULT '{}',  -- summarized chapters it was built from, in reading order
+  created_at TIMESTAMPTZ DEFAULT now()
+);
@@ -0,0 +1,24 @@
+-- Migration 019: AI usage metering and quotas
+-- One row per metered model call with its tokens and estimated cost, billed to
+-- the book's owner. Usage outlives the book it was for. The quota columns on
+-- users override the server-wide defaults (NULL = use the default).
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  book_id TEXT REFERENCES books(id) ON DELETE SET NULL,
+  chapter_id TEXT,                 -- no FK: kept after the chapter is deleted
+  task TEXT NOT NULL,              -- 'summary', 'wiki', 'review', 'panel', 'rewrite', 'book'
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6),         -- NULL when the model has no known price
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS monthly_token_quota BIGINT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS monthly_cost_quota_usd NUMERIC(10, 2);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON ai_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_book ON ai_usage(book_id);
@@ -0,0 +1,7 @@
+-- Migration 020: Prompt templates for reviewer profiles
+-- Profile prompts may now use {{variables}} (book_title, chapter_title,
+-- prior_summaries, pov, wiki:Name, ...) filled in when a review is built.
+-- user_prompt_template replaces the built-in user prompt layout; NULL keeps it.
+
+ALTER TABLE ai_profiles ADD COLUMN IF NOT EXISTS user_prompt_template TEXT;
+ALTER TABLE custom_reviewer_profiles ADD COLUMN IF NOT EXISTS user_prompt_template TEXT;
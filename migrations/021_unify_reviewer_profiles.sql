@@ -0,0 +1,109 @@
+-- Migration 021: One reviewer profile model
+-- custom_reviewer_profiles are folded into ai_profiles. A former custom profile
+-- becomes an ai_profiles row without a tone_key whose description fills the
+-- {{profile_description}} of its system prompt. chapter_reviews and queued job
+-- payloads are repointed at the new rows, reviews left without a profile move
+-- to a per-author "Deleted reviewer" profile, then the old table and
+-- chapter_reviews.custom_profile_id are dropped. Profiles also gain their own
+-- model, temperature and output length (NULL = the book's / server default).
+
+ALTER TABLE ai_profiles ALTER COLUMN tone_key DROP NOT NULL;
+ALTER TABLE ai_profiles ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE ai_profiles ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE ai_profiles ADD COLUMN IF NOT EXISTS temperature REAL;
+ALTER TABLE ai_profiles ADD COLUMN IF NOT EXISTS max_output_tokens INTEGER;
+
+-- Older databases may lack the columns the application has been using
+CREATE TABLE IF NOT EXISTS custom_reviewer_profiles (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL
+);
+ALTER TABLE custom_reviewer_profiles ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE custom_reviewer_profiles ADD COLUMN IF NOT EXISTS user_prompt_template TEXT;
+ALTER TABLE custom_reviewer_profiles ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ DEFAULT now();
+ALTER TABLE custom_reviewer_profiles ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_name = 'custom_reviewer_profiles' AND column_name = 'prompt') THEN
+    UPDATE custom_reviewer_profiles SET description = COALESCE(description, prompt);
+  END IF;
+END $$;
+ALTER TABLE chapter_reviews ADD COLUMN IF NOT EXISTS custom_profile_id INTEGER;
+
+-- Copy each custom profile, remembering where it went
+ALTER TABLE ai_profiles ADD COLUMN legacy_custom_profile_id INTEGER;
+
+INSERT INTO ai_profiles (user_id, name, tone_key, system_prompt, description, user_prompt_template,
+                         legacy_custom_profile_id, created_at, updated_at)
+SELECT user_id, name, NULL,
+       'You are a beta reader with this personality and approach: {{profile_description}}. Please review the following chapter providing feedback in this style.',
+       COALESCE(description, ''), user_prompt_template, id, created_at, updated_at
+FROM custom_reviewer_profiles;
+
+-- Databases from archive/migrations/004 require exactly one of ai_profile_id and
+-- custom_profile_id, which repointing a review would break
+ALTER TABLE chapter_reviews DROP CONSTRAINT IF EXISTS check_profile_type;
+
+UPDATE chapter_reviews r
+SET ai_profile_id = p.id, custom_profile_id = NULL
+FROM ai_profiles p
+WHERE r.custom_profile_id IS NOT NULL AND p.legacy_custom_profile_id = r.custom_profile_id;
+
+-- Jobs name profiles by id in their payload (review jobs at the top level,
+-- panel jobs per member)
+UPDATE ai_jobs j
+SET payload = (j.payload - 'customProfileId') || jsonb_build_object('aiProfileId', p.id)
+FROM ai_profiles p
+WHERE j.payload ? 'customProfileId' AND p.legacy_custom_profile_id = (j.payload->>'customProfileId')::int;
+
+UPDATE ai_jobs j
+SET payload = jsonb_set(j.payload, '{members}', (
+  SELECT jsonb_agg(
+    CASE WHEN m ? 'customProfileId'
+      THEN (m - 'customProfileId') || jsonb_build_object('aiProfileId', (
+        SELECT p.id FROM ai_profiles p WHERE p.legacy_custom_profile_id = (m->>'customProfileId')::int))
+      ELSE m
+    END ORDER BY ord)
+  FROM jsonb_array_elements(j.payload->'members') WITH ORDINALITY AS e(m, ord)
+))
+WHERE jsonb_typeof(j.payload->'members') = 'array'
+  AND EXISTS (SELECT 1 FROM jsonb_array_elements(j.payload->'members') m WHERE m ? 'customProfileId');
+
+DROP INDEX IF EXISTS chapter_reviews_one_pinned;
+DROP INDEX IF EXISTS idx_reviews_chapter_versions;
+
+-- Reviews whose custom profile was already gone (or that never had a profile)
+-- are kept under a "Deleted reviewer" profile owned by the book's author,
+-- created only for authors who have such reviews. legacy_custom_profile_id = 0
+-- marks these rows until the column is dropped.
+INSERT INTO ai_profiles (user_id, name, tone_key, system_prompt, legacy_custom_profile_id)
+SELECT DISTINCT b.user_id, 'Deleted reviewer', NULL,
+       'You are a beta reader. Please review the following chapter.', 0
+FROM chapter_reviews r
+JOIN chapters c ON c.id = r.chapter_id
+JOIN books b ON b.id = c.book_id
+WHERE r.ai_profile_id IS NULL;
+
+UPDATE chapter_reviews r
+SET ai_profile_id = p.id
+FROM chapters c, books b, ai_profiles p
+WHERE r.ai_profile_id IS NULL
+  AND c.id = r.chapter_id AND b.id = c.book_id
+  AND p.user_id = b.user_id AND p.legacy_custom_profile_id = 0;
+
+-- Pins from several deleted profiles may now share a profile; keep the newest
+UPDATE chapter_reviews r
+SET is_pinned = FALSE
+WHERE r.is_pinned
+  AND EXISTS (SELECT 1 FROM chapter_reviews n
+              WHERE n.is_pinned AND n.chapter_id = r.chapter_id
+                AND n.ai_profile_id = r.ai_profile_id AND n.id > r.id);
+ALTER TABLE chapter_reviews DROP COLUMN custom_profile_id;
+ALTER TABLE chapter_reviews ALTER COLUMN ai_profile_id SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS chapter_reviews_one_pinned ON chapter_reviews (chapter_id, ai_profile_id) WHERE is_pinned;
+CREATE INDEX IF NOT EXISTS idx_reviews_chapter_versions ON chapter_reviews (chapter_id, ai_profile_id, id DESC);
+
+ALTER TABLE ai_profiles DROP COLUMN legacy_custom_profile_id;
+DROP TABLE custom_reviewer_profiles;
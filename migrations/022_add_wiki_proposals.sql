@@ -0,0 +1,29 @@
+-- Migration 022: Protect manual wiki edits
+-- Pages a person has written or edited (human_edited_at set) are no longer
+-- rewritten by the model. Its changes to them are queued in wiki_proposals for
+-- the author to accept or reject; decisions are logged in wiki_updates.
+
+ALTER TABLE wiki_pages ADD COLUMN IF NOT EXISTS human_edited_at TIMESTAMPTZ;
+
+-- Pages created by hand or edited by hand so far
+UPDATE wiki_pages w
+SET human_edited_at = w.updated_at
+WHERE w.human_edited_at IS NULL
+  AND (w.created_by_ai IS NOT TRUE
+       OR EXISTS (SELECT 1 FROM wiki_updates u WHERE u.wiki_page_id = w.id AND u.update_type = 'manual_edit'));
+
+CREATE TABLE IF NOT EXISTS wiki_proposals (
+  id SERIAL PRIMARY KEY,
+  wiki_page_id INTEGER NOT NULL REFERENCES wiki_pages(id) ON DELETE CASCADE,
+  chapter_id TEXT REFERENCES chapters(id) ON DELETE SET NULL,
+  base_content TEXT,                          -- page content the proposal was written against
+  proposed_content TEXT NOT NULL,
+  proposed_summary TEXT,
+  change_summary TEXT,
+  contradiction_notes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',     -- 'pending', 'accepted', 'rejected', 'superseded'
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wiki_proposals_page ON wiki_proposals(wiki_page_id, status);
@@ -0,0 +1,7 @@
+-- Migration 023: Alias-aware character resolution
+-- Character names from chapter summaries are matched to wiki pages by name,
+-- alias and similar names before a page is created. Names resolved to a page
+-- other than by its own name are added to wiki_pages.aliases.
+
+ALTER TABLE wiki_pages ADD COLUMN IF NOT EXISTS aliases JSONB DEFAULT '[]';
+UPDATE wiki_pages SET aliases = '[]' WHERE aliases IS NULL;
@@ -0,0 +1,7 @@
+-- Migration 024: Typed entity extraction
+-- Chapter summaries list the places, organizations, items and world-building
+-- concepts in a chapter alongside its characters, as
+-- {locations[], organizations[], items[], concepts[]}. Wiki updates create and
+-- maintain pages of the matching page_type for them.
+
+ALTER TABLE chapter_summaries ADD COLUMN IF NOT EXISTS entities JSONB;
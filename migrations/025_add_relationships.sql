@@ -0,0 +1,11 @@
+-- Migration 025: Character relationship graph
+-- Chapter summaries list the relationships between characters that each
+-- chapter shows (family, romance, rivalry or alliance) and whether the chapter
+-- starts, changes or ends them. GET /books/:id/relationships builds the graph
+-- from them in reading order. A per-chapter record keeps the graph right when
+-- chapters are re-summarized, reordered or deleted; book_characters.relationships
+-- holds a copy of each character's relationships, refreshed from the graph.
+
+ALTER TABLE chapter_summaries ADD COLUMN IF NOT EXISTS relationships JSONB;
+
+ALTER TABLE book_characters ADD COLUMN IF NOT EXISTS relationships JSONB;
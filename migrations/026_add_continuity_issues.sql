@@ -0,0 +1,35 @@
+-- Migration 026: Continuity issues
+-- Contradictions between a chapter and what the book established before it
+-- (wiki pages and earlier chapters), found by a continuity check or noted by
+-- the model while updating a wiki page. Authors resolve or dismiss them;
+-- dismissed issues are not raised again when the chapter is re-checked.
+-- Contradictions already noted in the wiki update history are copied over.
+
+CREATE TABLE IF NOT EXISTS continuity_issues (
+  id SERIAL PRIMARY KEY,
+  book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+  wiki_page_id INTEGER REFERENCES wiki_pages(id) ON DELETE SET NULL,
+  source_chapter_id TEXT REFERENCES chapters(id) ON DELETE SET NULL,
+  origin TEXT NOT NULL DEFAULT 'check',
+  category TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'moderate',
+  quote TEXT,
+  description TEXT NOT NULL,
+  established_fact TEXT,
+  status TEXT NOT NULL DEFAULT 'open',
+  resolution_note TEXT,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_continuity_issues_book ON continuity_issues(book_id, status);
+CREATE INDEX IF NOT EXISTS idx_continuity_issues_chapter ON continuity_issues(chapter_id);
+
+INSERT INTO continuity_issues (book_id, chapter_id, wiki_page_id, origin, category, description, created_at)
+SELECT w.book_id, u.chapter_id, u.wiki_page_id, 'wiki_update', 'other', u.contradiction_notes, u.created_at
+FROM wiki_updates u
+JOIN wiki_pages w ON w.id = u.wiki_page_id
+JOIN chapters c ON c.id = u.chapter_id
+WHERE u.contradiction_notes IS NOT NULL AND u.contradiction_notes <> ''
+  AND NOT EXISTS (SELECT 1 FROM continuity_issues);
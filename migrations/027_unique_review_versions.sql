@@ -0,0 +1,24 @@
+-- Migration 027: Unique review versions
+-- Review versions were numbered with MAX(version) + 1 and no constraint, so
+-- two generations for the same chapter and profile could both get the same
+-- number. Saves now take an advisory lock; duplicates written before that are
+-- renumbered in creation order and a unique index keeps versions distinct.
+-- book_reviews already has UNIQUE (book_id, version).
+
+WITH duplicated AS (
+  SELECT DISTINCT chapter_id, ai_profile_id
+  FROM chapter_reviews
+  GROUP BY chapter_id, ai_profile_id, version
+  HAVING COUNT(*) > 1
+),
+renumbered AS (
+  SELECT r.id, ROW_NUMBER() OVER (PARTITION BY r.chapter_id, r.ai_profile_id ORDER BY r.version, r.id) AS version
+  FROM chapter_reviews r
+  JOIN duplicated d ON d.chapter_id = r.chapter_id AND d.ai_profile_id = r.ai_profile_id
+)
+UPDATE chapter_reviews r
+SET version = n.version
+FROM renumbered n
+WHERE r.id = n.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS chapter_reviews_version_key ON chapter_reviews(chapter_id, ai_profile_id, version);
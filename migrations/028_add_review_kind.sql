@@ -0,0 +1,37 @@
+-- Migration 028: Review kinds
+-- Structured comment runs and rewrite runs are stored as chapter_reviews rows
+-- (their comments and suggestions point at them), but they are not reviews:
+-- they must not become a profile's current review or be regenerated as one.
+-- review_kind tells them apart ('review', 'comments' or 'rewrite'), and
+-- versions are numbered per kind.
+
+ALTER TABLE chapter_reviews ADD COLUMN IF NOT EXISTS review_kind TEXT NOT NULL DEFAULT 'review';
+
+-- Runs are recognised by their comments or suggestions, or by the JSON schema
+-- in their prompt when they produced none
+UPDATE chapter_reviews r
+SET review_kind = 'comments'
+WHERE r.review_kind = 'review'
+  AND (EXISTS (SELECT 1 FROM chapter_comments cc WHERE cc.review_id = r.id)
+       OR r.prompt_used LIKE '%{comments[{quote, comment, suggestion, severity, category}]}%');
+
+UPDATE chapter_reviews r
+SET review_kind = 'rewrite'
+WHERE r.review_kind = 'review'
+  AND (EXISTS (SELECT 1 FROM chapter_suggestions cs WHERE cs.review_id = r.id)
+       OR r.prompt_used LIKE '%{suggestions[{original, replacement, reason}]}%');
+
+UPDATE chapter_reviews SET is_pinned = false WHERE review_kind <> 'review' AND is_pinned;
+
+DROP INDEX IF EXISTS chapter_reviews_version_key;
+
+WITH renumbered AS (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY chapter_id, ai_profile_id, review_kind ORDER BY version, id) AS version
+  FROM chapter_reviews
+)
+UPDATE chapter_reviews r
+SET version = n.version
+FROM renumbered n
+WHERE r.id = n.id AND r.version <> n.version;
+
+CREATE UNIQUE INDEX IF NOT EXISTS chapter_reviews_version_key ON chapter_reviews(chapter_id, ai_profile_id, review_kind, version);
@@ -0,0 +1,8 @@
+-- Migration 029: Follow-up jobs
+-- A summary job queues wiki_update and continuity_check jobs. A summary job
+-- released from a dead worker runs again, so its follow-ups are keyed by the
+-- job that queued them and queued once per type.
+
+ALTER TABLE ai_jobs ADD COLUMN IF NOT EXISTS parent_job_id INTEGER REFERENCES ai_jobs(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS ai_jobs_parent_type_key ON ai_jobs(parent_job_id, job_type);
@@ -11,6 +11,8 @@ CREATE TABLE IF NOT EXISTS users (
   username TEXT,
   name TEXT,
   picture TEXT,
+  monthly_token_quota BIGINT,
+  monthly_cost_quota_usd NUMERIC(10, 2),
   created_at TIMESTAMPTZ DEFAULT now(),
   updated_at TIMESTAMPTZ DEFAULT now()
 );
@@ -21,6 +23,8 @@ CREATE TABLE IF NOT EXISTS books (
   title TEXT NOT NULL,
   user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   description TEXT,
+  model_settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  archived_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT now(),
   updated_at TIMESTAMPTZ DEFAULT now()
 );
@@ -48,14 +52,40 @@ CREATE TABLE IF NOT EXISTS chapters (
   updated_at TIMESTAMPTZ DEFAULT now()
 );
 
+-- Snapshots of every chapter text change
+CREATE TABLE IF NOT EXISTS chapter_revisions (
+  id SERIAL PRIMARY KEY,
+  chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+  title TEXT,
+  text TEXT NOT NULL,
+  word_count INTEGER,
+  source TEXT NOT NULL,
+  restored_from_revision_id INTEGER REFERENCES chapter_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
 -- Chapter summaries for AI context
 CREATE TABLE IF NOT EXISTS chapter_summaries (
   chapter_id TEXT PRIMARY KEY REFERENCES chapters(id) ON DELETE CASCADE,
   pov TEXT,
   characters JSONB,
+  entities JSONB,                  -- {locations[], organizations[], items[], concepts[]} for the wiki
+  relationships JSONB,             -- [{a, b, type, change, description}]; NULL if summarized before extraction
   beats JSONB,
   spoilers_ok BOOLEAN,
   summary TEXT NOT NULL,
+  revision_id INTEGER REFERENCES chapter_revisions(id) ON DELETE SET NULL,
+  content_hash TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Part summaries rolled up from chapter summaries
+CREATE TABLE IF NOT EXISTS part_summaries (
+  part_id INTEGER PRIMARY KEY REFERENCES book_parts(id) ON DELETE CASCADE,
+  summary TEXT NOT NULL,
+  characters JSONB,
+  open_threads JSONB,
+  chapter_ids TEXT[] NOT NULL DEFAULT '{}',
   created_at TIMESTAMPTZ DEFAULT now()
 );
 
@@ -64,15 +94,32 @@ CREATE TABLE IF NOT EXISTS wiki_pages (
   id SERIAL PRIMARY KEY,
   book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
   page_name TEXT NOT NULL,
-  page_type TEXT NOT NULL,
+  page_type TEXT NOT NULL,         -- 'character', 'location', 'organization', 'item', 'concept' or 'other'
   content TEXT,
   summary TEXT,
   is_auto_generated BOOLEAN DEFAULT FALSE,
   auto_generated_content TEXT,
+  aliases JSONB DEFAULT '[]',      -- other names the character goes by; used to resolve names from summaries
+  human_edited_at TIMESTAMPTZ,     -- set once a person writes on the page; AI changes then need approval
   created_at TIMESTAMPTZ DEFAULT now(),
   updated_at TIMESTAMPTZ DEFAULT now()
 );
 
+-- AI changes to human-edited wiki pages, waiting for the author's decision
+CREATE TABLE IF NOT EXISTS wiki_proposals (
+  id SERIAL PRIMARY KEY,
+  wiki_page_id INTEGER NOT NULL REFERENCES wiki_pages(id) ON DELETE CASCADE,
+  chapter_id TEXT REFERENCES chapters(id) ON DELETE SET NULL,
+  base_content TEXT,
+  proposed_content TEXT NOT NULL,
+  proposed_summary TEXT,
+  change_summary TEXT,
+  contradiction_notes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',  -- 'pending', 'accepted', 'rejected', 'superseded'
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
 -- Wiki page update history
 CREATE TABLE IF NOT EXISTS wiki_updates (
   id SERIAL PRIMARY KEY,
@@ -99,18 +146,42 @@ CREATE TABLE IF NOT EXISTS book_characters (
   book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
   name TEXT NOT NULL,
   description TEXT,
-  relationships JSONB,
+  relationships JSONB, -- each character's relationships, copied from the relationship graph
   created_at TIMESTAMPTZ DEFAULT now(),
   updated_at TIMESTAMPTZ DEFAULT now()
 );
 
+-- Contradictions between a chapter and the wiki or earlier chapters
+CREATE TABLE IF NOT EXISTS continuity_issues (
+  id SERIAL PRIMARY KEY,
+  book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+  wiki_page_id INTEGER REFERENCES wiki_pages(id) ON DELETE SET NULL,
+  source_chapter_id TEXT REFERENCES chapters(id) ON DELETE SET NULL,  -- earlier chapter the fact comes from
+  origin TEXT NOT NULL DEFAULT 'check',    -- 'check' or 'wiki_update'
+  category TEXT NOT NULL,                  -- 'appearance', 'age', 'timeline', 'death', 'geography', 'object', 'world_rules', 'other'
+  severity TEXT NOT NULL DEFAULT 'moderate',  -- 'minor', 'moderate', 'major'
+  quote TEXT,                              -- exact passage of the chapter, when found
+  description TEXT NOT NULL,
+  established_fact TEXT,
+  status TEXT NOT NULL DEFAULT 'open',     -- 'open', 'resolved', 'dismissed'
+  resolution_note TEXT,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
 -- AI profiles for different reviewer personalities
 CREATE TABLE IF NOT EXISTS ai_profiles (
   id SERIAL PRIMARY KEY,
   user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   name TEXT NOT NULL,
-  tone_key TEXT NOT NULL,
+  tone_key TEXT,                   -- NULL for profiles only picked by id
   system_prompt TEXT NOT NULL,
+  description TEXT,                -- fills {{profile_description}}
+  user_prompt_template TEXT,       -- NULL = built-in user prompt layout
+  model TEXT,                      -- model spec; NULL = the book's model for the task
+  temperature REAL,                -- NULL = default for the kind of review
+  max_output_tokens INTEGER,       -- NULL = provider default
   is_default BOOLEAN DEFAULT FALSE,
   is_system BOOLEAN DEFAULT FALSE,
   created_at TIMESTAMPTZ DEFAULT now(),
@@ -118,50 +189,170 @@ CREATE TABLE IF NOT EXISTS ai_profiles (
   UNIQUE(user_id, tone_key)
 );
 
--- Custom reviewer profiles (legacy table for user-created profiles)
-CREATE TABLE IF NOT EXISTS custom_reviewer_profiles (
+-- Chapter reviews storage
+CREATE TABLE IF NOT EXISTS chapter_reviews (
   id SERIAL PRIMARY KEY,
-  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  name TEXT NOT NULL,
-  prompt TEXT NOT NULL,
+  chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+  ai_profile_id INTEGER NOT NULL REFERENCES ai_profiles(id) ON DELETE CASCADE,
+  review_text TEXT NOT NULL,
+  revision_id INTEGER REFERENCES chapter_revisions(id) ON DELETE SET NULL,
+  content_hash TEXT,
+  review_kind TEXT NOT NULL DEFAULT 'review',  -- 'review', or a structured 'comments' / 'rewrite' run
+  version INTEGER NOT NULL DEFAULT 1,  -- every generation is kept per kind; the highest version is current
+  is_pinned BOOLEAN NOT NULL DEFAULT FALSE,
   created_at TIMESTAMPTZ DEFAULT now(),
   updated_at TIMESTAMPTZ DEFAULT now()
 );
 
--- Chapter reviews storage
-CREATE TABLE IF NOT EXISTS chapter_reviews (
+-- Inline review comments anchored to spans of chapter text
+CREATE TABLE IF NOT EXISTS chapter_comments (
   id SERIAL PRIMARY KEY,
   chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
-  ai_profile_id INTEGER NOT NULL REFERENCES ai_profiles(id) ON DELETE CASCADE,
-  review_text TEXT NOT NULL,
+  review_id INTEGER REFERENCES chapter_reviews(id) ON DELETE SET NULL,
+  quote TEXT NOT NULL,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  prefix_context TEXT,
+  suffix_context TEXT,
+  comment TEXT NOT NULL,
+  suggestion TEXT,
+  severity TEXT NOT NULL DEFAULT 'moderate',
+  category TEXT NOT NULL DEFAULT 'other',
+  status TEXT NOT NULL DEFAULT 'open',
+  anchor_status TEXT NOT NULL DEFAULT 'anchored',
+  anchored_content_hash TEXT,
+  resolved_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT now(),
-  updated_at TIMESTAMPTZ DEFAULT now(),
-  UNIQUE(chapter_id, ai_profile_id)
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- AI rewrite suggestions: proposed replacements for spans of chapter text
+CREATE TABLE IF NOT EXISTS chapter_suggestions (
+  id SERIAL PRIMARY KEY,
+  chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+  review_id INTEGER REFERENCES chapter_reviews(id) ON DELETE SET NULL,
+  goal TEXT,
+  original_text TEXT NOT NULL,
+  replacement TEXT NOT NULL,
+  reason TEXT,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  prefix_context TEXT,
+  suffix_context TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  applied_revision_id INTEGER REFERENCES chapter_revisions(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Panel reviews: several profiles' reviews of one chapter plus a consensus report
+CREATE TABLE IF NOT EXISTS review_panels (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  chapter_id TEXT NOT NULL REFERENCES chapters(id) ON DELETE CASCADE,
+  review_ids INTEGER[] NOT NULL DEFAULT '{}',
+  consensus JSONB NOT NULL,
+  revision_id INTEGER REFERENCES chapter_revisions(id) ON DELETE SET NULL,
+  content_hash TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Whole-book developmental reviews, versioned per book
+CREATE TABLE IF NOT EXISTS book_reviews (
+  id SERIAL PRIMARY KEY,
+  book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  report JSONB NOT NULL,
+  chapter_ids TEXT[] NOT NULL DEFAULT '{}',
+  missing_summary_ids TEXT[] NOT NULL DEFAULT '{}',
+  condense_levels INTEGER NOT NULL DEFAULT 0,
+  source_hash TEXT,
+  prompt_used TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (book_id, version)
+);
+
+-- Metered AI calls with tokens and estimated cost
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  book_id TEXT REFERENCES books(id) ON DELETE SET NULL,
+  chapter_id TEXT,
+  task TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Background AI generation jobs
+CREATE TABLE IF NOT EXISTS ai_jobs (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  book_id TEXT NOT NULL REFERENCES books(id) ON DELETE CASCADE,
+  chapter_id TEXT REFERENCES chapters(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL,
+  parent_job_id INTEGER REFERENCES ai_jobs(id) ON DELETE SET NULL, -- the summary job that queued this follow-up
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'queued',
+  progress JSONB,
+  result JSONB,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
 );
 
 -- Helpful indexes for performance
 CREATE INDEX IF NOT EXISTS idx_users_auth0_sub ON users(auth0_sub);
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_books_user_id ON books(user_id);
+CREATE INDEX IF NOT EXISTS idx_books_user_archived ON books(user_id, archived_at);
 CREATE INDEX IF NOT EXISTS idx_book_parts_book_id ON book_parts(book_id);
 CREATE INDEX IF NOT EXISTS idx_book_parts_position ON book_parts(book_id, position);
 CREATE INDEX IF NOT EXISTS idx_chapters_book ON chapters(book_id);
 CREATE INDEX IF NOT EXISTS idx_chapters_position ON chapters(book_id, position);
 CREATE INDEX IF NOT EXISTS idx_chapters_part_id ON chapters(part_id);
+CREATE INDEX IF NOT EXISTS idx_chapter_revisions_chapter ON chapter_revisions(chapter_id, id DESC);
 CREATE INDEX IF NOT EXISTS idx_summaries_created ON chapter_summaries(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_wiki_pages_book_id ON wiki_pages(book_id);
 CREATE INDEX IF NOT EXISTS idx_wiki_pages_type ON wiki_pages(page_type);
 CREATE INDEX IF NOT EXISTS idx_wiki_pages_name ON wiki_pages(page_name);
 CREATE INDEX IF NOT EXISTS idx_wiki_updates_page_id ON wiki_updates(wiki_page_id);
+CREATE INDEX IF NOT EXISTS idx_wiki_proposals_page ON wiki_proposals(wiki_page_id, status);
 CREATE INDEX IF NOT EXISTS idx_chapter_wiki_mentions_chapter ON chapter_wiki_mentions(chapter_id);
 CREATE INDEX IF NOT EXISTS idx_chapter_wiki_mentions_wiki ON chapter_wiki_mentions(wiki_page_id);
 CREATE INDEX IF NOT EXISTS idx_book_characters_book_id ON book_characters(book_id);
+CREATE INDEX IF NOT EXISTS idx_continuity_issues_book ON continuity_issues(book_id, status);
+CREATE INDEX IF NOT EXISTS idx_continuity_issues_chapter ON continuity_issues(chapter_id);
 CREATE INDEX IF NOT EXISTS idx_ai_profiles_user ON ai_profiles(user_id);
 CREATE INDEX IF NOT EXISTS idx_ai_profiles_tone ON ai_profiles(tone_key);
-CREATE INDEX IF NOT EXISTS idx_custom_profiles_user ON custom_reviewer_profiles(user_id);
 CREATE INDEX IF NOT EXISTS idx_reviews_chapter ON chapter_reviews(chapter_id);
 CREATE INDEX IF NOT EXISTS idx_reviews_profile ON chapter_reviews(ai_profile_id);
 CREATE INDEX IF NOT EXISTS idx_reviews_created ON chapter_reviews(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reviews_chapter_versions ON chapter_reviews(chapter_id, ai_profile_id, id DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS chapter_reviews_one_pinned ON chapter_reviews(chapter_id, ai_profile_id) WHERE is_pinned;
+CREATE UNIQUE INDEX IF NOT EXISTS chapter_reviews_version_key ON chapter_reviews(chapter_id, ai_profile_id, review_kind, version);
+CREATE INDEX IF NOT EXISTS idx_chapter_comments_chapter ON chapter_comments(chapter_id, start_offset);
+CREATE INDEX IF NOT EXISTS idx_chapter_comments_review ON chapter_comments(review_id);
+CREATE INDEX IF NOT EXISTS idx_chapter_suggestions_chapter ON chapter_suggestions(chapter_id, start_offset);
+CREATE INDEX IF NOT EXISTS idx_chapter_suggestions_review ON chapter_suggestions(review_id);
+CREATE INDEX IF NOT EXISTS idx_review_panels_chapter ON review_panels(chapter_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_queue ON ai_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_book ON ai_jobs(book_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_jobs_chapter ON ai_jobs(chapter_id);
+CREATE UNIQUE INDEX IF NOT EXISTS ai_jobs_parent_type_key ON ai_jobs(parent_job_id, job_type);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON ai_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_book ON ai_usage(book_id);
 
 -- Create a system user for default AI profiles
 INSERT INTO users (auth0_sub, email, email_verified, name) VALUES
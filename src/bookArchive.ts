@@ -0,0 +1,418 @@
+import { pool, withTx } from "./db.js";
+import { recordRevision } from "./revisions.js";
+import { DESCRIPTION_SYSTEM_TEMPLATE } from "./promptTemplates.js";
+
+// Portable JSON archive of a whole book, for offline backups and for moving
+// books between environments or accounts. Rows are exported as-is; on restore
+// every id is remapped and only columns that exist in the target database are
+// written, so archives survive small schema differences between environments.
+// Revision history, usage records and AI jobs are not archived.
+
+export const ARCHIVE_FORMAT = "ai-beta-reader/book-archive";
+export const ARCHIVE_VERSION = 1;
+
+type Row = Record<string, any>;
+
+export interface BookArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at?: string;
+  book: Row;
+  book_parts: Row[];
+  chapters: Row[];
+  chapter_summaries: Row[];
+  wiki_pages: Row[];
+  wiki_updates: Row[];
+  chapter_wiki_mentions: Row[];
+  book_characters: Row[];
+  chapter_reviews: Row[];
+  review_panels: Row[];
+  chapter_comments: Row[];
+  chapter_suggestions: Row[];
+  book_reviews: Row[];
+  part_summaries: Row[];
+  wiki_proposals: Row[];
+  continuity_issues: Row[];
+  ai_profiles: Row[];
+  // Only in archives from before custom profiles were merged into ai_profiles
+  custom_reviewer_profiles?: Row[];
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export async function exportBookArchive(bookId: string): Promise<BookArchive> {
+  const query = async (sql: string) => (await pool.query(sql, [bookId])).rows;
+
+  const [book] = await query('SELECT * FROM books WHERE id = $1');
+  const chapterScope = 'SELECT id FROM chapters WHERE book_id = $1';
+  const wikiScope = 'SELECT id FROM wiki_pages WHERE book_id = $1';
+  const partScope = 'SELECT id FROM book_parts WHERE book_id = $1';
+
+  const chapterReviews = await query(`SELECT * FROM chapter_reviews WHERE chapter_id IN (${chapterScope}) ORDER BY id`);
+  const aiProfileIds = [...new Set(chapterReviews.map(r => r.ai_profile_id))];
+
+  const { user_id, ...bookRow } = book;
+  const withoutOwner = ({ user_id, ...row }: Row) => row;
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    book: bookRow,
+    book_parts: await query('SELECT * FROM book_parts WHERE book_id = $1 ORDER BY created_at, id'),
+    chapters: await query('SELECT * FROM chapters WHERE book_id = $1 ORDER BY created_at, id'),
+    chapter_summaries: await query(`SELECT * FROM chapter_summaries WHERE chapter_id IN (${chapterScope})`),
+    wiki_pages: await query('SELECT * FROM wiki_pages WHERE book_id = $1 ORDER BY id'),
+    wiki_updates: await query(`SELECT * FROM wiki_updates WHERE wiki_page_id IN (${wikiScope}) ORDER BY id`),
+    chapter_wiki_mentions: await query(`SELECT * FROM chapter_wiki_mentions WHERE chapter_id IN (${chapterScope}) ORDER BY id`),
+    book_characters: await query('SELECT * FROM book_characters WHERE book_id = $1 ORDER BY id'),
+    chapter_reviews: chapterReviews,
+    review_panels: (await query(`SELECT * FROM review_panels WHERE chapter_id IN (${chapterScope}) ORDER BY id`)).map(withoutOwner),
+    chapter_comments: await query(`SELECT * FROM chapter_comments WHERE chapter_id IN (${chapterScope}) ORDER BY id`),
+    chapter_suggestions: await query(`SELECT * FROM chapter_suggestions WHERE chapter_id IN (${chapterScope}) ORDER BY id`),
+    book_reviews: (await query('SELECT * FROM book_reviews WHERE book_id = $1 ORDER BY version')).map(withoutOwner),
+    part_summaries: await query(`SELECT * FROM part_summaries WHERE part_id IN (${partScope})`),
+    wiki_proposals: await query(`SELECT * FROM wiki_proposals WHERE wiki_page_id IN (${wikiScope}) ORDER BY id`),
+    continuity_issues: await query('SELECT * FROM continuity_issues WHERE book_id = $1 ORDER BY id'),
+    ai_profiles: aiProfileIds.length
+      ? (await pool.query('SELECT * FROM ai_profiles WHERE id = ANY($1::int[]) ORDER BY id', [aiProfileIds])).rows.map(withoutOwner)
+      : []
+  };
+}
+
+// Column names and types of a table in the target database
+async function tableColumns(client: any, table: string): Promise<Map<string, string>> {
+  const { rows } = await client.query(
+    `SELECT column_name, data_type FROM information_schema.columns
+     WHERE table_schema = current_schema() AND table_name = $1`,
+    [table]
+  );
+  return new Map(rows.map((r: any) => [r.column_name, r.data_type]));
+}
+
+// Insert an archived row with overrides applied. Serial ids are always regenerated,
+// unknown columns are dropped and JSON columns are serialized explicitly (pg would
+// otherwise send JS arrays as Postgres arrays).
+async function insertRow(client: any, table: string, columns: Map<string, string>, row: Row, overrides: Row = {}) {
+  const values: Row = { ...row, ...overrides };
+  if (!("id" in overrides)) {
+    delete values.id;
+  }
+
+  const names = Object.keys(values).filter(name => columns.has(name));
+  const params = names.map(name => {
+    const type = columns.get(name);
+    const value = values[name];
+    return (type === "json" || type === "jsonb") && value !== null && value !== undefined
+      ? JSON.stringify(value)
+      : value;
+  });
+
+  const { rows } = await client.query(
+    `INSERT INTO ${table} (${names.join(", ")})
+     VALUES (${names.map((_, i) => `$${i + 1}`).join(", ")})
+     RETURNING *`,
+    params
+  );
+  return rows[0];
+}
+
+// First of base, base-2, base-3, ... for which taken() is false
+async function firstFreeId(base: string, taken: (id: string) => Promise<boolean>) {
+  let candidate = base;
+  for (let n = 2; await taken(candidate); n++) {
+    candidate = `${base}-${n}`;
+  }
+  return candidate;
+}
+
+export interface RestoreOptions {
+  bookId?: string;
+  title?: string;
+}
+
+export async function importBookArchive(archive: BookArchive, userId: number, options: RestoreOptions = {}) {
+  if (archive.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError("Not a book archive");
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(`Archive version ${archive.version} is newer than this server supports (${ARCHIVE_VERSION})`);
+  }
+
+  return withTx(async (client) => {
+    const exists = (sql: string) => async (id: string) => (await client.query(sql, [id])).rows.length > 0;
+    const bookExists = exists('SELECT 1 FROM books WHERE id = $1');
+    const chapterExists = exists('SELECT 1 FROM chapters WHERE id = $1');
+
+    // Book and chapter ids are text and global; keep them when free
+    let bookId: string;
+    if (options.bookId) {
+      if (await bookExists(options.bookId)) {
+        throw new ArchiveError(`A book with id "${options.bookId}" already exists`, 409);
+      }
+      bookId = options.bookId;
+    } else {
+      bookId = await firstFreeId(archive.book.id, bookExists);
+    }
+
+    const chapterIds = new Map<string, string>();
+    for (const chapter of archive.chapters) {
+      const base = await chapterExists(chapter.id) ? `${bookId}-${chapter.id}` : chapter.id;
+      chapterIds.set(chapter.id, await firstFreeId(base, chapterExists));
+    }
+    const mapChapter = (id: string | null) => (id != null ? chapterIds.get(id) ?? null : null);
+    const mapOrder = (order: string[] | null) => (order || []).map(id => chapterIds.get(id)).filter(Boolean);
+
+    const columns = new Map<string, Map<string, string>>();
+    for (const table of [
+      "books", "book_parts", "chapters", "chapter_summaries", "wiki_pages", "wiki_updates",
+      "chapter_wiki_mentions", "book_characters", "chapter_reviews", "ai_profiles",
+      "review_panels", "chapter_comments", "chapter_suggestions", "book_reviews", "part_summaries",
+      "wiki_proposals", "continuity_issues"
+    ]) {
+      columns.set(table, await tableColumns(client, table));
+    }
+    const insert = (table: string, row: Row, overrides: Row = {}) =>
+      insertRow(client, table, columns.get(table)!, row, overrides);
+    // Tables added by later migrations may be missing from the target database
+    const hasTable = (table: string) => columns.get(table)!.size > 0;
+
+    await insert("books", archive.book, {
+      id: bookId,
+      user_id: userId,
+      title: options.title || archive.book.title,
+      chapter_order: mapOrder(archive.book.chapter_order),
+      // Restored and duplicated books always start out active
+      archived_at: null
+    });
+
+    const partIds = new Map<number, number>();
+    for (const part of archive.book_parts) {
+      const inserted = await insert("book_parts", part, {
+        book_id: bookId,
+        chapter_order: mapOrder(part.chapter_order)
+      });
+      partIds.set(part.id, inserted.id);
+    }
+
+    for (const chapter of archive.chapters) {
+      const id = chapterIds.get(chapter.id)!;
+      await insert("chapters", chapter, {
+        id,
+        book_id: bookId,
+        part_id: chapter.part_id != null ? partIds.get(chapter.part_id) ?? null : null
+      });
+      await recordRevision(id, "import", null, client);
+    }
+
+    // Summaries and reviews keep their content hashes, so staleness carries over;
+    // the revisions they pointed at are not archived.
+    let summaries = 0;
+    for (const summary of archive.chapter_summaries) {
+      const chapterId = mapChapter(summary.chapter_id);
+      if (!chapterId) continue;
+      await insert("chapter_summaries", summary, { chapter_id: chapterId, revision_id: null });
+      summaries++;
+    }
+
+    // Reuse the restoring user's matching profiles, otherwise copy them over.
+    // Profiles without a tone_key only match by name too.
+    const restoreProfile = async (profile: Row): Promise<number> => {
+      const { rows } = await client.query(
+        `SELECT id FROM ai_profiles
+         WHERE tone_key IS NOT DISTINCT FROM $1 AND system_prompt = $2 AND (user_id = $3 OR is_system = true)
+           AND user_prompt_template IS NOT DISTINCT FROM $4 AND description IS NOT DISTINCT FROM $5
+           AND (tone_key IS NOT NULL OR name = $6)
+         ORDER BY is_system ASC
+         LIMIT 1`,
+        [profile.tone_key ?? null, profile.system_prompt, userId, profile.user_prompt_template ?? null,
+         profile.description ?? null, profile.name]
+      );
+      if (rows.length) {
+        return rows[0].id;
+      }
+      const toneKey = profile.tone_key == null ? null : await firstFreeId(profile.tone_key, async (key) =>
+        (await client.query('SELECT 1 FROM ai_profiles WHERE user_id = $1 AND tone_key = $2', [userId, key])).rows.length > 0
+      );
+      const inserted = await insert("ai_profiles", profile, {
+        user_id: userId,
+        tone_key: toneKey,
+        is_system: false,
+        is_default: false
+      });
+      return inserted.id;
+    };
+
+    const aiProfileIds = new Map<number, number>();
+    for (const profile of archive.ai_profiles) {
+      aiProfileIds.set(profile.id, await restoreProfile(profile));
+    }
+
+    // Older archives: custom profiles become profiles built from their description
+    const customProfileIds = new Map<number, number>();
+    for (const profile of archive.custom_reviewer_profiles || []) {
+      customProfileIds.set(profile.id, await restoreProfile({
+        ...profile,
+        tone_key: null,
+        system_prompt: DESCRIPTION_SYSTEM_TEMPLATE,
+        description: profile.description ?? profile.prompt ?? null
+      }));
+    }
+
+    const reviewIds = new Map<number, number>();
+    for (const review of archive.chapter_reviews) {
+      const chapterId = mapChapter(review.chapter_id);
+      const aiProfileId = review.ai_profile_id != null
+        ? aiProfileIds.get(review.ai_profile_id)
+        : customProfileIds.get(review.custom_profile_id);
+      if (!chapterId || aiProfileId === undefined) continue;
+      const inserted = await insert("chapter_reviews", review, {
+        chapter_id: chapterId,
+        ai_profile_id: aiProfileId,
+        revision_id: null
+      });
+      reviewIds.set(review.id, inserted.id);
+    }
+    const mapReview = (id: number | null) => (id != null ? reviewIds.get(id) ?? null : null);
+
+    let panels = 0;
+    if (hasTable("review_panels")) {
+      for (const panel of archive.review_panels) {
+        const chapterId = mapChapter(panel.chapter_id);
+        if (!chapterId) continue;
+        await insert("review_panels", panel, {
+          user_id: userId,
+          chapter_id: chapterId,
+          review_ids: (panel.review_ids || []).map(mapReview).filter((id: number | null) => id != null),
+          revision_id: null
+        });
+        panels++;
+      }
+    }
+
+    // Comments and suggestions keep their offsets and context, so they re-anchor
+    // against the restored text as usual
+    let comments = 0;
+    if (hasTable("chapter_comments")) {
+      for (const comment of archive.chapter_comments) {
+        const chapterId = mapChapter(comment.chapter_id);
+        if (!chapterId) continue;
+        await insert("chapter_comments", comment, { chapter_id: chapterId, review_id: mapReview(comment.review_id) });
+        comments++;
+      }
+    }
+
+    let suggestions = 0;
+    if (hasTable("chapter_suggestions")) {
+      for (const suggestion of archive.chapter_suggestions) {
+        const chapterId = mapChapter(suggestion.chapter_id);
+        if (!chapterId) continue;
+        await insert("chapter_suggestions", suggestion, {
+          chapter_id: chapterId,
+          review_id: mapReview(suggestion.review_id),
+          applied_revision_id: null
+        });
+        suggestions++;
+      }
+    }
+
+    let bookReviews = 0;
+    if (hasTable("book_reviews")) {
+      for (const review of archive.book_reviews) {
+        await insert("book_reviews", review, {
+          book_id: bookId,
+          user_id: userId,
+          chapter_ids: mapOrder(review.chapter_ids),
+          missing_summary_ids: mapOrder(review.missing_summary_ids)
+        });
+        bookReviews++;
+      }
+    }
+
+    let partSummaries = 0;
+    if (hasTable("part_summaries")) {
+      for (const summary of archive.part_summaries) {
+        const partId = partIds.get(summary.part_id);
+        if (partId === undefined) continue;
+        await insert("part_summaries", summary, { part_id: partId, chapter_ids: mapOrder(summary.chapter_ids) });
+        partSummaries++;
+      }
+    }
+
+    const wikiPageIds = new Map<number, number>();
+    for (const page of archive.wiki_pages) {
+      const inserted = await insert("wiki_pages", page, { book_id: bookId });
+      wikiPageIds.set(page.id, inserted.id);
+    }
+    const mapWikiPage = (id: number | null) => (id != null ? wikiPageIds.get(id) ?? null : null);
+
+    for (const update of archive.wiki_updates) {
+      const wikiPageId = mapWikiPage(update.wiki_page_id);
+      if (!wikiPageId) continue;
+      await insert("wiki_updates", update, { wiki_page_id: wikiPageId, chapter_id: mapChapter(update.chapter_id) });
+    }
+
+    for (const mention of archive.chapter_wiki_mentions) {
+      const chapterId = mapChapter(mention.chapter_id);
+      const wikiPageId = mapWikiPage(mention.wiki_page_id);
+      if (!chapterId || !wikiPageId) continue;
+      await insert("chapter_wiki_mentions", mention, { chapter_id: chapterId, wiki_page_id: wikiPageId });
+    }
+
+    for (const character of archive.book_characters) {
+      await insert("book_characters", character, {
+        book_id: bookId,
+        first_mentioned_chapter: mapChapter(character.first_mentioned_chapter),
+        wiki_page_id: mapWikiPage(character.wiki_page_id)
+      });
+    }
+
+    let wikiProposals = 0;
+    if (hasTable("wiki_proposals")) {
+      for (const proposal of archive.wiki_proposals) {
+        const wikiPageId = mapWikiPage(proposal.wiki_page_id);
+        if (!wikiPageId) continue;
+        await insert("wiki_proposals", proposal, { wiki_page_id: wikiPageId, chapter_id: mapChapter(proposal.chapter_id) });
+        wikiProposals++;
+      }
+    }
+
+    let continuityIssues = 0;
+    if (hasTable("continuity_issues")) {
+      for (const issue of archive.continuity_issues) {
+        const chapterId = mapChapter(issue.chapter_id);
+        if (!chapterId) continue;
+        await insert("continuity_issues", issue, {
+          book_id: bookId,
+          chapter_id: chapterId,
+          wiki_page_id: mapWikiPage(issue.wiki_page_id),
+          source_chapter_id: mapChapter(issue.source_chapter_id)
+        });
+        continuityIssues++;
+      }
+    }
+
+    return {
+      bookId,
+      chapterIds: Object.fromEntries(chapterIds),
+      counts: {
+        parts: partIds.size,
+        chapters: chapterIds.size,
+        summaries,
+        wikiPages: wikiPageIds.size,
+        reviews: reviewIds.size,
+        panels,
+        comments,
+        suggestions,
+        bookReviews,
+        partSummaries,
+        wikiProposals,
+        continuityIssues
+      }
+    };
+  });
+}
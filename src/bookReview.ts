@@ -0,0 +1,293 @@
+import { pool, withTx } from "./db.js";
+import { generate, ModelSettings } from "./llm.js";
+import { UsageMeter } from "./usage.js";
+import { GenerationError, ProgressCallback } from "./generation.js";
+import { getReadingOrder } from "./readingOrder.js";
+import { contentHash } from "./contentHash.js";
+
+// Whole-book developmental review built from every chapter summary (in reading
+// order, grouped by part) plus the wiki. When the summaries are too long for one
+// prompt they are condensed hierarchically: runs of chapters within a part are
+// summarized together, then those digests again, until the outline fits.
+
+// Character budget for the outline sent to the final call
+const OUTLINE_BUDGET_CHARS = Number(process.env.BOOK_REVIEW_OUTLINE_CHARS) || 60000;
+// Largest run of text condensed in one call
+const CONDENSE_CHUNK_CHARS = Math.floor(OUTLINE_BUDGET_CHARS / 3);
+const WIKI_BUDGET_CHARS = Math.floor(OUTLINE_BUDGET_CHARS / 6);
+const MAX_CONDENSE_LEVELS = 4;
+
+export interface BookReviewReport {
+  overview: string;
+  arc_structure: { assessment: string; acts: { label: string; chapters: string[]; summary: string }[] };
+  act_breaks: { after_chapter: string; assessment: string; suggestion: string }[];
+  pacing_by_part: { part: string; assessment: string; notes: string }[];
+  dangling_threads: { thread: string; introduced_in: string | null; last_seen_in: string | null; suggestion: string }[];
+  stalled_character_arcs: { character: string; last_development_in: string | null; issue: string; suggestion: string }[];
+  recommendations: string[];
+}
+
+// A stretch of the outline: one chapter's summary, or a digest of several
+// consecutive chapters from the same part
+interface OutlineBlock {
+  part: string | null;
+  chapterIds: string[];
+  text: string;
+}
+
+const SYSTEM_PROMPT =
+  "You are a developmental editor reading a complete draft novel through its chapter summaries and story wiki. " +
+  "Assess the book as a whole: arc structure and act-break placement, pacing part by part, plot threads that are " +
+  "set up but never resolved, and character arcs that stall. Refer to chapters by their ids. Be specific and " +
+  "actionable. Return valid JSON only.";
+
+const CONDENSE_SYSTEM_PROMPT =
+  "You are an expert fiction editor condensing consecutive chapter summaries of a novel into one digest for a " +
+  "developmental review. Keep plot turns, which chapter they happen in (by id), character changes and open " +
+  "questions. No speculation. Return valid JSON only.";
+
+const chapterRange = (chapterIds: string[]) =>
+  chapterIds.length === 1 ? chapterIds[0] : `${chapterIds[0]} to ${chapterIds[chapterIds.length - 1]}`;
+
+const outlineLength = (blocks: OutlineBlock[]) => blocks.reduce((sum, b) => sum + b.text.length, 0);
+
+// Chapter summaries in reading order, plus chapters that have none
+export async function loadBookOutline(bookId: string) {
+  const readingOrder = await getReadingOrder(bookId);
+
+  const { rows } = await pool.query(
+    `SELECT c.id, c.title, p.name as part_name, s.summary
+     FROM chapters c
+     LEFT JOIN book_parts p ON c.part_id = p.id
+     LEFT JOIN chapter_summaries s ON s.chapter_id = c.id
+     WHERE c.book_id = $1`,
+    [bookId]
+  );
+  const chaptersById = new Map<string, any>(rows.map((r: any) => [r.id, r]));
+
+  const blocks: OutlineBlock[] = [];
+  const missingSummaryIds: string[] = [];
+  for (const chapterId of readingOrder) {
+    const chapter = chaptersById.get(chapterId);
+    if (!chapter.summary) {
+      missingSummaryIds.push(chapterId);
+      continue;
+    }
+    blocks.push({
+      part: chapter.part_name,
+      chapterIds: [chapterId],
+      text: `# ${chapterId}${chapter.title ? ` — ${chapter.title}` : ""}\n${chapter.summary}`
+    });
+  }
+
+  // Identifies the exact summaries a report was built from, for staleness
+  const sourceHash = contentHash(blocks.map(b => b.text).join("\n\n"));
+
+  return { blocks, missingSummaryIds, sourceHash };
+}
+
+async function condenseBlocks(blocks: OutlineBlock[], settings: ModelSettings | null, meter: UsageMeter): Promise<OutlineBlock> {
+  const chapterIds = blocks.flatMap(b => b.chapterIds);
+  const response = await generate({
+    task: "summary",
+    settings,
+    meter,
+    messages: [
+      { role: "system", content: CONDENSE_SYSTEM_PROMPT },
+      { role: "user", content:
+        `${blocks[0].part ? `Part: ${blocks[0].part}\n` : ""}Chapters ${chapterRange(chapterIds)}\n\n` +
+        "Return JSON only for this schema: {summary, open_threads[], character_changes[]}\n\n" +
+        blocks.map(b => b.text).join("\n\n")
+      }
+    ],
+    json: true,
+    temperature: 0.3
+  });
+
+  if (!response.content) {
+    throw new Error(`No content received from ${response.provider}`);
+  }
+  const out = JSON.parse(response.content);
+
+  const lines = [`# ${chapterRange(chapterIds)}`, out.summary || ""];
+  if (Array.isArray(out.open_threads) && out.open_threads.length) {
+    lines.push(`Open threads: ${out.open_threads.join("; ")}`);
+  }
+  if (Array.isArray(out.character_changes) && out.character_changes.length) {
+    lines.push(`Character changes: ${out.character_changes.join("; ")}`);
+  }
+
+  return { part: blocks[0].part, chapterIds, text: lines.join("\n") };
+}
+
+// Group consecutive blocks of the same part into runs of at most
+// CONDENSE_CHUNK_CHARS (a single oversized block forms its own run)
+function chunkBlocks(blocks: OutlineBlock[]) {
+  const chunks: OutlineBlock[][] = [];
+  let current: OutlineBlock[] = [];
+  for (const block of blocks) {
+    const fits = current.length > 0 &&
+      current[0].part === block.part &&
+      outlineLength(current) + block.text.length <= CONDENSE_CHUNK_CHARS;
+    if (!fits && current.length) {
+      chunks.push(current);
+      current = [];
+    }
+    current.push(block);
+  }
+  if (current.length) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+async function loadWikiDigest(bookId: string) {
+  const { rows } = await pool.query(
+    `SELECT w.page_name, w.page_type, COALESCE(w.summary, left(w.content, 300)) as summary,
+            COUNT(m.id) as mentions
+     FROM wiki_pages w
+     LEFT JOIN chapter_wiki_mentions m ON m.wiki_page_id = w.id
+     WHERE w.book_id = $1
+     GROUP BY w.id
+     ORDER BY COUNT(m.id) DESC, w.page_name`,
+    [bookId]
+  );
+
+  const lines: string[] = [];
+  let length = 0;
+  for (const page of rows) {
+    const line = `- ${page.page_name} (${page.page_type}): ${(page.summary || "").replace(/\s+/g, " ").trim()}`;
+    if (length + line.length > WIKI_BUDGET_CHARS) break;
+    lines.push(line);
+    length += line.length;
+  }
+  return lines.join("\n");
+}
+
+// Render the outline with a heading whenever the reading order enters a part
+function renderOutline(blocks: OutlineBlock[]) {
+  const sections: string[] = [];
+  let currentPart: string | null = null;
+  for (const block of blocks) {
+    if (block.part && block.part !== currentPart) {
+      sections.push(`## Part: ${block.part}`);
+    }
+    currentPart = block.part;
+    sections.push(block.text);
+  }
+  return sections.join("\n\n");
+}
+
+export async function generateBookReview(options: { userId: number; bookId: string }, onProgress?: ProgressCallback) {
+  const { rows: bookRows } = await pool.query(
+    'SELECT id, title, description, model_settings FROM books WHERE id = $1',
+    [options.bookId]
+  );
+  if (!bookRows.length) {
+    throw new GenerationError("Book not found", 404);
+  }
+  const book = bookRows[0];
+
+  const { blocks: chapterBlocks, missingSummaryIds, sourceHash } = await loadBookOutline(options.bookId);
+  if (!chapterBlocks.length) {
+    throw new GenerationError("Summarize the book's chapters before requesting a book review");
+  }
+
+  // Condense level by level until the outline fits. Progress counts the calls
+  // planned so far plus the final report.
+  let blocks = chapterBlocks;
+  let levels = 0;
+  let done = 0;
+  let planned = 1;
+  while (outlineLength(blocks) > OUTLINE_BUDGET_CHARS && levels < MAX_CONDENSE_LEVELS) {
+    const chunks = chunkBlocks(blocks);
+    planned += chunks.length;
+    const condensed: OutlineBlock[] = [];
+    for (const chunk of chunks) {
+      condensed.push(await condenseBlocks(chunk, book.model_settings, { bookId: book.id }));
+      done++;
+      if (onProgress) {
+        await onProgress(done, planned);
+      }
+    }
+    blocks = condensed;
+    levels++;
+  }
+
+  const wiki = await loadWikiDigest(options.bookId);
+  const userPrompt =
+    `BOOK: ${book.title}\n${book.description ? `${book.description}\n` : ""}\n` +
+    `OUTLINE (chapter summaries in reading order${levels ? ", condensed" : ""}):\n\n${renderOutline(blocks)}\n\n` +
+    (missingSummaryIds.length ? `Chapters without summaries (not covered above): ${missingSummaryIds.join(", ")}\n\n` : "") +
+    (wiki ? `WIKI:\n${wiki}\n\n` : "") +
+    "Return JSON only for this schema: {overview, arc_structure{assessment, acts[{label, chapters[], summary}]}, " +
+    "act_breaks[{after_chapter, assessment, suggestion}], pacing_by_part[{part, assessment, notes}], " +
+    "dangling_threads[{thread, introduced_in, last_seen_in, suggestion}], " +
+    "stalled_character_arcs[{character, last_development_in, issue, suggestion}], recommendations[]}";
+
+  const response = await generate({
+    task: "book",
+    settings: book.model_settings,
+    meter: { bookId: book.id },
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: userPrompt }
+    ],
+    json: true,
+    temperature: 0.4
+  });
+
+  if (!response.content) {
+    throw new Error(`No content received from ${response.provider}`);
+  }
+  const out = JSON.parse(response.content);
+
+  const report: BookReviewReport = {
+    overview: out.overview || "",
+    arc_structure: {
+      assessment: out.arc_structure?.assessment || "",
+      acts: out.arc_structure?.acts || []
+    },
+    act_breaks: out.act_breaks || [],
+    pacing_by_part: out.pacing_by_part || [],
+    dangling_threads: out.dangling_threads || [],
+    stalled_character_arcs: out.stalled_character_arcs || [],
+    recommendations: out.recommendations || []
+  };
+
+  // One save per book at a time, so concurrent reviews get distinct versions
+  const rows = await withTx(async (client) => {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [options.bookId]);
+    const { rows } = await client.query(
+      `INSERT INTO book_reviews
+         (book_id, user_id, version, report, chapter_ids, missing_summary_ids, condense_levels, source_hash, prompt_used)
+       SELECT $1, $2, COALESCE(MAX(version), 0) + 1, $3, $4, $5, $6, $7, $8
+       FROM book_reviews
+       WHERE book_id = $1
+       RETURNING id, version`,
+      [
+        options.bookId,
+        options.userId,
+        JSON.stringify(report),
+        chapterBlocks.flatMap(b => b.chapterIds),
+        missingSummaryIds,
+        levels,
+        sourceHash,
+        `SYSTEM PROMPT:\n${SYSTEM_PROMPT}\n\nUSER PROMPT:\n${userPrompt}`
+      ]
+    );
+    return rows;
+  });
+
+  if (onProgress) {
+    await onProgress(planned, planned);
+  }
+
+  return {
+    bookReviewId: rows[0].id as number,
+    version: rows[0].version as number,
+    condenseLevels: levels,
+    missingSummaryIds,
+    report
+  };
+}
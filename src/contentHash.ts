@@ -0,0 +1,10 @@
+import crypto from "crypto";
+
+// Hash of the chapter text a summary or review was generated from. A stored
+// hash that differs from the chapter's current one marks the item as stale.
+export const contentHash = (text: string) =>
+  crypto.createHash("sha256").update(text, "utf8").digest("hex");
+
+// The same hash computed in SQL, for comparing against stored hashes in queries
+export const contentHashSql = (textExpr: string) =>
+  `encode(sha256(convert_to(${textExpr}, 'UTF8')), 'hex')`;
@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ContextChapter, assembleReviewContext, estimateTokens, trimToTokens } from "./contextAssembler.js";
+
+const paragraph = (label: string, words: number) => Array.from({ length: words }, () => label).join(" ");
+
+test("trimToTokens leaves text within the budget alone", () => {
+  assert.equal(trimToTokens("Short text.", 100), "Short text.");
+});
+
+test("trimToTokens keeps whole opening and closing paragraphs around a marker", () => {
+  const text = ["first", "second", "third", "fourth", "fifth"].map(p => paragraph(p, 40)).join("\n\n");
+  const trimmed = trimToTokens(text, 200);
+
+  assert.ok(trimmed.startsWith(paragraph("first", 40)));
+  assert.ok(trimmed.endsWith(paragraph("fifth", 40)));
+  assert.match(trimmed, /\[… about \d+ words omitted to fit the context budget …\]/);
+  assert.ok(!trimmed.includes("third"));
+});
+
+test("trimToTokens cuts a single long paragraph by characters", () => {
+  const text = "x".repeat(4000);
+  const trimmed = trimToTokens(text, 30);
+  assert.ok(trimmed.startsWith("x".repeat(80)));
+  assert.ok(trimmed.endsWith("x".repeat(40)));
+  assert.ok(trimmed.length < text.length);
+});
+
+test("trimToTokens with no budget left returns only the marker", () => {
+  for (const budget of [0, -5]) {
+    const trimmed = trimToTokens(paragraph("word", 600), budget);
+    assert.match(trimmed, /^\[… about \d+ words omitted to fit the context budget …\]$/);
+  }
+});
+
+const target = { id: "ch-5", title: "The End", text: paragraph("target", 50) };
+const prior: ContextChapter[] = [
+  { id: "ch-1", title: null, partId: 1, summary: "Summary one." },
+  { id: "ch-2", title: null, partId: 1, summary: "Summary two." },
+  { id: "ch-3", title: null, partId: null, summary: null },
+  { id: "ch-4", title: "Before", partId: null, summary: "Summary four.", text: paragraph("full", 100) }
+];
+const parts = [{ id: 1, name: "Beginning", summary: "Part one in brief.", chapterIds: ["ch-1", "ch-2"] }];
+
+test("assembleReviewContext includes everything that fits", () => {
+  const { prompt, report } = assembleReviewContext({ budgetTokens: 10000, fixedText: "System.", target, prior, parts });
+
+  assert.ok(prompt.includes("NEW CHAPTER: ch-5 — The End"));
+  assert.ok(prompt.includes("PRECEDING CHAPTERS (FULL TEXT):\n# ch-4 — Before"));
+  assert.deepEqual(report.included.map(e => [e.kind, e.id]), [
+    ["chapter_summary", "ch-1"],
+    ["chapter_summary", "ch-2"],
+    ["full_text", "ch-4"]
+  ]);
+  assert.deepEqual(report.dropped, [{ id: "ch-3", reason: "no_summary" }]);
+  assert.equal(report.target.trimmed, false);
+  assert.ok(report.estimatedTokens <= report.budgetTokens);
+});
+
+test("assembleReviewContext degrades full text, then parts, then old entries", () => {
+  const fixedText = "System.";
+  const full = assembleReviewContext({ budgetTokens: 10000, fixedText, target, prior, parts });
+  const { report } = assembleReviewContext({ budgetTokens: full.report.estimatedTokens - 60, fixedText, target, prior, parts });
+
+  assert.deepEqual(report.downgraded, [
+    { id: "ch-4", from: "full_text", to: "chapter_summary" }
+  ]);
+  assert.equal(report.target.trimmed, false);
+
+  const tight = assembleReviewContext({
+    budgetTokens: estimateTokens(fixedText) + estimateTokens(target.text) + 20,
+    fixedText, target, prior, parts
+  }).report;
+  assert.deepEqual(tight.downgraded.map(d => d.id), ["ch-4", "part-1"]);
+  // The collapsed part is dropped whole
+  assert.deepEqual(tight.dropped, [
+    { id: "ch-3", reason: "no_summary" },
+    { id: "ch-1", reason: "over_budget" },
+    { id: "ch-2", reason: "over_budget" }
+  ]);
+  assert.deepEqual(tight.included.map(e => [e.kind, e.id]), [["chapter_summary", "ch-4"]]);
+  assert.ok(tight.estimatedTokens <= tight.budgetTokens);
+});
+
+test("assembleReviewContext trims the target when the fixed text uses up the budget", () => {
+  const fixedText = paragraph("system", 400);
+  const { report, sections } = assembleReviewContext({ budgetTokens: estimateTokens(fixedText), fixedText, target, prior, parts });
+
+  assert.equal(report.target.trimmed, true);
+  assert.match(sections.targetText, /^\[… about \d+ words omitted to fit the context budget …\]$/);
+  assert.equal(report.included.length, 0);
+});
+
+test("assembleReviewContext starts from part summaries when asked", () => {
+  const { report } = assembleReviewContext({
+    budgetTokens: 10000, fixedText: "", target, prior, parts, preferPartSummaries: true
+  });
+  assert.deepEqual(report.included.map(e => [e.kind, e.id]), [
+    ["part_summary", "part-1"],
+    ["full_text", "ch-4"]
+  ]);
+});
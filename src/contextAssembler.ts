@@ -0,0 +1,244 @@
+// Fits a review prompt into a token budget. The target chapter comes first,
+// then the chapters before it with the most recent kept in the most detail.
+// Over budget, context degrades step by step: preceding full texts fall back to
+// their summaries (oldest first), earlier parts collapse into their part
+// summaries (oldest first), the oldest entries are dropped, and finally the
+// target chapter itself is trimmed from the middle.
+
+// Prompt budget when neither the request nor REVIEW_CONTEXT_TOKENS sets one
+const DEFAULT_BUDGET_TOKENS = 24000;
+// Most of the budget the target chapter may take before context is considered
+const TARGET_SHARE = 0.6;
+
+export const defaultContextBudget = () => Number(process.env.REVIEW_CONTEXT_TOKENS) || DEFAULT_BUDGET_TOKENS;
+
+// Rough token count (about four characters per token for English prose); close
+// enough for budgeting without a tokenizer per provider
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export interface ContextChapter {
+  id: string;
+  title: string | null;
+  partId: number | null;
+  summary: string | null;
+  // Full text, for chapters the caller asked to include in full
+  text?: string | null;
+}
+
+export interface ContextPart {
+  id: number;
+  name: string;
+  summary: string;
+  chapterIds: string[];
+}
+
+export interface AssembleOptions {
+  budgetTokens: number;
+  // System prompt and closing instruction: always sent, counted against the budget
+  fixedText: string;
+  target: { id: string; title: string | null; text: string };
+  // Chapters before the target, in reading order
+  prior: ContextChapter[];
+  // Part summaries available for earlier parts (never the target's own part)
+  parts: ContextPart[];
+  // Start with part summaries for every part that has one
+  preferPartSummaries?: boolean;
+  // The caller lays out the sections with a prompt template; `prompt` is then
+  // only their concatenation, for counting
+  template?: boolean;
+}
+
+export type ContextEntryKind = "full_text" | "chapter_summary" | "part_summary";
+
+export interface ContextReport {
+  budgetTokens: number;
+  estimatedTokens: number;
+  target: { id: string; tokens: number; originalTokens: number; trimmed: boolean };
+  included: { kind: ContextEntryKind; id: string; tokens: number }[];
+  dropped: { id: string; reason: "no_summary" | "over_budget" }[];
+  // Chapters whose full text was swapped for a summary, and parts collapsed into a summary
+  downgraded: { id: string; from: ContextEntryKind; to: ContextEntryKind }[];
+}
+
+type ChapterState = "full_text" | "chapter_summary" | "part_summary" | "dropped";
+
+const heading = (id: string, title: string | null) => `${id}${title ? ` — ${title}` : ""}`;
+
+const omissionMarker = (omittedChars: number) =>
+  `[… about ${Math.max(0, Math.round(omittedChars / 6))} words omitted to fit the context budget …]`;
+
+// Keep the opening and the ending of the chapter, whole paragraphs where
+// possible, with a marker where the middle was cut
+export function trimToTokens(text: string, maxTokens: number) {
+  if (estimateTokens(text) <= maxTokens) return text;
+  // No room at all (the fixed prompt used up the budget): only the marker is left
+  if (maxTokens <= 0) return omissionMarker(text.length);
+
+  const paragraphs = text.split(/\n\s*\n/);
+  const headChars = Math.floor(maxTokens * 4 * 2 / 3);
+  const tailChars = Math.floor(maxTokens * 4 / 3);
+
+  const head: string[] = [];
+  let length = 0;
+  for (const paragraph of paragraphs) {
+    if (length + paragraph.length > headChars) break;
+    head.push(paragraph);
+    length += paragraph.length + 2;
+  }
+  const tail: string[] = [];
+  length = 0;
+  for (const paragraph of [...paragraphs.slice(head.length)].reverse()) {
+    if (length + paragraph.length > tailChars) break;
+    tail.unshift(paragraph);
+    length += paragraph.length + 2;
+  }
+
+  // A single huge paragraph: fall back to a character cut
+  const headText = head.length ? head.join("\n\n") : text.slice(0, headChars);
+  // slice(-0) would be the whole text
+  const tailText = tail.length ? tail.join("\n\n") : tailChars ? text.slice(-tailChars) : "";
+  const omitted = text.length - headText.length - tailText.length;
+
+  return `${headText}\n\n${omissionMarker(omitted)}\n\n${tailText}`;
+}
+
+export function assembleReviewContext(options: AssembleOptions) {
+  const { budgetTokens, fixedText, target, prior, parts, preferPartSummaries = false, template = false } = options;
+
+  const priorIds = new Set(prior.map(c => c.id));
+  const partsById = new Map(parts.map(p => [p.id, p]));
+  const coveringPart = (chapter: ContextChapter) => {
+    const part = chapter.partId !== null ? partsById.get(chapter.partId) : undefined;
+    return part && part.chapterIds.includes(chapter.id) ? part : undefined;
+  };
+
+  const state = new Map<string, ChapterState>();
+  const dropped: ContextReport["dropped"] = [];
+  const downgraded: ContextReport["downgraded"] = [];
+  for (const chapter of prior) {
+    if (preferPartSummaries && coveringPart(chapter)) {
+      state.set(chapter.id, "part_summary");
+    } else if (chapter.text) {
+      state.set(chapter.id, "full_text");
+    } else if (chapter.summary) {
+      state.set(chapter.id, "chapter_summary");
+    } else {
+      state.set(chapter.id, "dropped");
+      dropped.push({ id: chapter.id, reason: "no_summary" });
+    }
+  }
+
+  // Entries in reading order; a collapsed part sits where its first chapter was
+  const entries = () => {
+    const list: { kind: ContextEntryKind; id: string; text: string }[] = [];
+    const emittedParts = new Set<number>();
+    for (const chapter of prior) {
+      const chapterState = state.get(chapter.id);
+      if (chapterState === "part_summary") {
+        const part = coveringPart(chapter)!;
+        if (!emittedParts.has(part.id)) {
+          emittedParts.add(part.id);
+          const covered = part.chapterIds.filter(id => priorIds.has(id)).length;
+          list.push({ kind: "part_summary", id: `part-${part.id}`, text: `# Part: ${part.name} (${covered} chapters)\n${part.summary}` });
+        }
+      } else if (chapterState === "full_text") {
+        list.push({ kind: "full_text", id: chapter.id, text: `# ${heading(chapter.id, chapter.title)}\n${chapter.text}` });
+      } else if (chapterState === "chapter_summary") {
+        list.push({ kind: "chapter_summary", id: chapter.id, text: `# ${heading(chapter.id, chapter.title)}\n${chapter.summary}` });
+      }
+    }
+    return list;
+  };
+
+  const sections = (targetText: string) => {
+    const list = entries();
+    return {
+      priorSummaries: list.filter(e => e.kind !== "full_text").map(e => e.text).join("\n\n"),
+      precedingChapters: list.filter(e => e.kind === "full_text").map(e => e.text).join("\n\n"),
+      targetText
+    };
+  };
+
+  // A prompt template renders the same sections in its own layout; its static
+  // text is part of fixedText
+  const render = (targetText: string) => {
+    const { priorSummaries, precedingChapters } = sections(targetText);
+    if (template) {
+      return priorSummaries + precedingChapters + targetText;
+    }
+    return `PRIOR CHAPTER SUMMARIES:\n${priorSummaries}\n\n` +
+      (precedingChapters ? `PRECEDING CHAPTERS (FULL TEXT):\n${precedingChapters}\n\n` : "") +
+      `NEW CHAPTER: ${heading(target.id, target.title)}\n${targetText}\n\n`;
+  };
+
+  const fixedTokens = estimateTokens(fixedText);
+  const total = (targetText: string) => fixedTokens + estimateTokens(render(targetText));
+
+  // The target may use most of the budget but not crowd out all context
+  const originalTokens = estimateTokens(target.text);
+  let targetText = trimToTokens(target.text, Math.max(0, Math.floor((budgetTokens - fixedTokens) * TARGET_SHARE)));
+
+  const degrade = () => {
+    // 1. Oldest preceding full text falls back to its summary
+    const full = prior.find(c => state.get(c.id) === "full_text");
+    if (full) {
+      const to: ChapterState = full.summary ? "chapter_summary" : "dropped";
+      state.set(full.id, to);
+      if (to === "dropped") {
+        dropped.push({ id: full.id, reason: "over_budget" });
+      } else {
+        downgraded.push({ id: full.id, from: "full_text", to: "chapter_summary" });
+      }
+      return true;
+    }
+
+    // 2. Oldest part with a summary collapses into it
+    const collapsible = prior.find(c => state.get(c.id) === "chapter_summary" && coveringPart(c));
+    if (collapsible) {
+      const part = coveringPart(collapsible)!;
+      for (const chapter of prior) {
+        if (coveringPart(chapter) === part && state.get(chapter.id) === "chapter_summary") {
+          state.set(chapter.id, "part_summary");
+        }
+      }
+      downgraded.push({ id: `part-${part.id}`, from: "chapter_summary", to: "part_summary" });
+      return true;
+    }
+
+    // 3. Oldest remaining entry is dropped (a whole part at once when collapsed)
+    const oldest = prior.find(c => state.get(c.id) !== "dropped");
+    if (oldest) {
+      const part = state.get(oldest.id) === "part_summary" ? coveringPart(oldest) : undefined;
+      for (const chapter of part ? prior.filter(c => coveringPart(c) === part) : [oldest]) {
+        if (state.get(chapter.id) !== "dropped") {
+          state.set(chapter.id, "dropped");
+          dropped.push({ id: chapter.id, reason: "over_budget" });
+        }
+      }
+      return true;
+    }
+    return false;
+  };
+
+  while (total(targetText) > budgetTokens && degrade()) {
+    // keep degrading until it fits or there is nothing left to give up
+  }
+
+  // 4. Still over: the target gives up whatever is left over
+  if (total(targetText) > budgetTokens) {
+    const overhead = total("") - fixedTokens;
+    targetText = trimToTokens(target.text, Math.max(0, budgetTokens - fixedTokens - overhead));
+  }
+
+  const prompt = render(targetText);
+  const report: ContextReport = {
+    budgetTokens,
+    estimatedTokens: fixedTokens + estimateTokens(prompt),
+    target: { id: target.id, tokens: estimateTokens(targetText), originalTokens, trimmed: targetText !== target.text },
+    included: entries().map(e => ({ kind: e.kind, id: e.id, tokens: estimateTokens(e.text) })),
+    dropped,
+    downgraded
+  };
+
+  return { prompt, sections: sections(targetText), report };
+}
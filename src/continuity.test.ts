@@ -0,0 +1,60 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { pool } from "./db.js";
+import { contradictionNotes, recordWikiContradiction } from "./continuity.js";
+
+test("contradictionNotes turns the model's output into text", () => {
+  assert.equal(contradictionNotes("  Eyes were green.  "), "Eyes were green.");
+  assert.equal(contradictionNotes(["Eyes were green.", "", "She was 30."]), "Eyes were green.\nShe was 30.");
+  assert.equal(contradictionNotes({ eyes: "green, now blue", age: ["30", "31"] }), "eyes: green, now blue\nage: 30\n31");
+  assert.equal(contradictionNotes(null), null);
+  assert.equal(contradictionNotes(""), null);
+  assert.equal(contradictionNotes([]), null);
+  assert.equal(contradictionNotes(42), null);
+});
+
+// A transaction client that answers the dismissed-issue query with `dismissed`
+// and records every statement
+function fakeClient(dismissed: { category: string; quote: string | null; description: string }[]) {
+  const queries: { sql: string; params: unknown[] }[] = [];
+  const client = {
+    query: async (sql: string, params: unknown[] = []) => {
+      queries.push({ sql, params });
+      return { rows: sql.includes("status = 'dismissed'") ? dismissed : [], rowCount: 0 };
+    },
+    release: () => {}
+  };
+  mock.method(pool, "connect", async () => client);
+  return queries;
+}
+
+const inserts = (queries: { sql: string; params: unknown[] }[]) =>
+  queries.filter(q => q.sql.includes("INSERT INTO continuity_issues"));
+
+test("recordWikiContradiction skips notes the author dismissed, whatever shape the model gave them", async (t) => {
+  t.after(() => mock.restoreAll());
+  const queries = fakeClient([{ category: "other", quote: null, description: "Eyes were green.\nShe was 30." }]);
+
+  await recordWikiContradiction("b1", "c1", 7, ["Eyes were  green.", "she was 30."]);
+
+  assert.deepEqual(inserts(queries), []);
+  assert.ok(queries.some(q => q.sql === "COMMIT"));
+});
+
+test("recordWikiContradiction stores new non-string notes as text", async (t) => {
+  t.after(() => mock.restoreAll());
+  const queries = fakeClient([{ category: "other", quote: null, description: "Eyes were green." }]);
+
+  await recordWikiContradiction("b1", "c1", 7, { eyes: "blue here, green before" });
+
+  assert.deepEqual(inserts(queries).map(q => q.params), [["b1", "c1", 7, "eyes: blue here, green before"]]);
+});
+
+test("recordWikiContradiction ignores output with no notes", async (t) => {
+  t.after(() => mock.restoreAll());
+  const queries = fakeClient([]);
+
+  await recordWikiContradiction("b1", "c1", 7, [null, ""]);
+
+  assert.deepEqual(queries, []);
+});
@@ -0,0 +1,323 @@
+import { z } from "zod";
+import { pool, withTx } from "./db.js";
+import { ModelSettings, generate } from "./llm.js";
+import { GenerationError } from "./generation.js";
+import { getReadingOrder, chaptersBefore } from "./readingOrder.js";
+import { defaultContextBudget, estimateTokens, trimToTokens } from "./contextAssembler.js";
+import { locateQuote } from "./inlineComments.js";
+import { WikiEntity, matchEntity, normalizeName } from "./entityResolution.js";
+import { entityMentions } from "./wikiEntities.js";
+
+// Continuity checks: a chapter is compared with the book's established facts
+// (wiki pages and the summaries of earlier chapters) and each contradiction is
+// stored as a continuity issue for the author to resolve or dismiss.
+// Contradictions the model notes while updating wiki pages are stored the same
+// way. Re-checking a chapter replaces its open issues; dismissed ones are not
+// raised again.
+
+export const CONTINUITY_CATEGORIES = ["appearance", "age", "timeline", "death", "geography", "object", "world_rules", "other"] as const;
+export const CONTINUITY_SEVERITIES = ["minor", "moderate", "major"] as const;
+export const CONTINUITY_STATUSES = ["open", "resolved", "dismissed"] as const;
+
+export type ContinuityCategory = typeof CONTINUITY_CATEGORIES[number];
+export type ContinuitySeverity = typeof CONTINUITY_SEVERITIES[number];
+export type ContinuityStatus = typeof CONTINUITY_STATUSES[number];
+
+// Shares of the prompt budget for the chapter itself and for the wiki; earlier
+// summaries get the rest
+const CHAPTER_SHARE = 0.5;
+const WIKI_SHARE = 0.25;
+
+const SYSTEM_PROMPT =
+  "You are a continuity editor for a novel. Compare the NEW CHAPTER with the facts established so far: the wiki pages and the summaries of earlier chapters. " +
+  "Report only clear contradictions, such as physical descriptions (eye or hair color, height, scars), ages and birthdays, the timeline (dates, durations, the order of events, travel times), " +
+  "characters who died, left or were imprisoned appearing as if they had not, a location's geography or layout, objects in the wrong hands, and rules of the world being broken. " +
+  "Do not report style problems, deliberate mysteries, unreliable narrators, or new facts that do not conflict with anything. Return valid JSON only.";
+
+// The chapter being checked, with its book and summary
+interface ChapterRow {
+  id: string;
+  title: string | null;
+  text: string;
+  book_id: string;
+  book_title: string;
+  model_settings: ModelSettings | null;
+  characters: unknown;
+  entities: Record<string, unknown> | null;
+}
+
+// A wiki page as loadWikiFacts returns it
+interface WikiFactRow extends WikiEntity {
+  content: string | null;
+  is_major: boolean;
+  mentioned: boolean;
+  mentions: number;
+}
+
+// What issueKey matches dismissed issues on; model output may put anything here
+interface IssueKeyFields {
+  category: string;
+  quote: unknown;
+  description: unknown;
+}
+
+// A contradiction from the model's answer, before it is stored
+interface FoundIssue extends IssueKeyFields {
+  category: ContinuityCategory;
+  quote: string | null;
+  description: string;
+  severity: ContinuitySeverity;
+  establishedFact: string | null;
+  wikiPageId: number | null;
+  sourceChapterId: string | null;
+}
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === "string" && (values as readonly string[]).includes(value);
+
+// The book's wiki pages as they were before this chapter updated them, most
+// relevant first: pages the chapter mentions, then major pages, then the rest
+// by number of mentions. Pages the chapter itself created are left out.
+async function loadWikiFacts(bookId: string, chapterId: string, summary: Pick<ChapterRow, "characters" | "entities">) {
+  const { rows }: { rows: WikiFactRow[] } = await pool.query(
+    `SELECT w.id, w.page_name, w.page_type, w.aliases, w.summary, w.is_major,
+            COALESCE(
+              (SELECT u.previous_content FROM wiki_updates u
+                WHERE u.wiki_page_id = w.id AND u.chapter_id = $2 AND u.previous_content IS NOT NULL
+                ORDER BY u.id LIMIT 1),
+              w.content
+            ) as content,
+            EXISTS (SELECT 1 FROM chapter_wiki_mentions m WHERE m.wiki_page_id = w.id AND m.chapter_id = $2) as mentioned,
+            (SELECT COUNT(*)::int FROM chapter_wiki_mentions m WHERE m.wiki_page_id = w.id) as mentions
+     FROM wiki_pages w
+     WHERE w.book_id = $1
+       AND NOT EXISTS (
+         SELECT 1 FROM wiki_updates u
+         WHERE u.wiki_page_id = w.id AND u.chapter_id = $2 AND u.update_type = 'created'
+       )`,
+    [bookId, chapterId]
+  );
+
+  // Names in the chapter's summary count as mentions before the wiki update has run
+  const named = new Set<number>();
+  for (const mention of entityMentions(summary.characters, summary.entities)) {
+    const page = matchEntity(mention.name, rows, mention.pageType).page;
+    if (page) named.add(page.id);
+  }
+
+  const rank = (page: WikiFactRow) => (page.mentioned || named.has(page.id) ? 2 : page.is_major ? 1 : 0);
+  return rows
+    .filter(page => page.content)
+    .sort((a, b) => rank(b) - rank(a) || b.mentions - a.mentions || a.page_name.localeCompare(b.page_name));
+}
+
+// Keep whole entries, in order, until the budget runs out
+function fitEntries(entries: string[], budgetTokens: number) {
+  const kept: string[] = [];
+  let used = 0;
+  for (const entry of entries) {
+    const tokens = estimateTokens(entry);
+    if (used + tokens > budgetTokens) break;
+    kept.push(entry);
+    used += tokens;
+  }
+  return kept;
+}
+
+// The page an issue's `wiki_page` names, by page name or alias
+const findWikiPage = (name: unknown, pages: WikiEntity[]) => {
+  if (typeof name !== "string" || !name.trim()) return null;
+  const normalized = normalizeName(name.replace(/\s*\([^)]*\)\s*$/, ""));
+  return pages.find(page => [page.page_name, ...(page.aliases || [])].some(n => normalizeName(n) === normalized)) ?? null;
+};
+
+// Model output as plain text: lists become one line per entry and objects
+// "key: value" lines
+const noteText = (value: unknown): string =>
+  typeof value === "string" ? value
+    : Array.isArray(value) ? value.map(noteText).filter(Boolean).join("\n")
+    : value && typeof value === "object" ? Object.entries(value).map(([key, v]) => `${key}: ${noteText(v)}`).join("\n")
+    : value == null ? "" : String(value);
+
+// The contradictions a wiki update noted, as text, or null for none. The
+// model is asked for a string but sometimes returns a list or an object.
+const ContradictionNotes = z.union([z.string(), z.array(z.unknown()), z.record(z.unknown())]).transform(noteText);
+
+export function contradictionNotes(value: unknown): string | null {
+  const parsed = ContradictionNotes.safeParse(value);
+  return parsed.success && parsed.data.trim() ? parsed.data.trim() : null;
+}
+
+// Issues already dismissed for the chapter are matched by category and quote
+// (or description, for issues without a quote)
+const issueKey = (issue: IssueKeyFields) =>
+  `${issue.category}:${noteText(issue.quote || issue.description).replace(/\s+/g, " ").trim().toLowerCase()}`;
+
+// The contradictions the model finds between the chapter and what came before
+async function askForIssues(chapter: ChapterRow, chapterText: string, wikiEntries: string[], summaryEntries: string[]) {
+  const response = await generate({
+    task: "continuity",
+    settings: chapter.model_settings,
+    meter: { bookId: chapter.book_id, chapterId: chapter.id },
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content:
+        `Book: ${chapter.book_title}\n\n` +
+        `WIKI PAGES:\n${wikiEntries.join("\n\n") || "(none)"}\n\n` +
+        `EARLIER CHAPTERS:\n${summaryEntries.join("\n\n") || "(none)"}\n\n` +
+        `NEW CHAPTER: ${chapter.id}${chapter.title ? ` — ${chapter.title}` : ""}\n${chapterText}\n\n` +
+        `Return JSON only for this schema: {issues[{category, severity, quote, description, established_fact, wiki_page, source_chapter}]}. ` +
+        `category is one of ${CONTINUITY_CATEGORIES.join(", ")}; severity is one of ${CONTINUITY_SEVERITIES.join(", ")}. ` +
+        "`quote` is copied exactly from the new chapter; `established_fact` is what the wiki or an earlier chapter says; " +
+        "`wiki_page` is the name of the wiki page it comes from and `source_chapter` the id of the earlier chapter, or null."
+      }
+    ],
+    json: true,
+    temperature: 0.2
+  });
+
+  if (!response.content) {
+    throw new Error(`No content received from ${response.provider}`);
+  }
+  return JSON.parse(response.content) as Record<string, unknown>;
+}
+
+// Check a chapter against the wiki and the chapters before it
+export async function checkChapterContinuity(chapterId: string) {
+  const { rows } = await pool.query(
+    `SELECT c.id, c.title, c.text, c.book_id, b.title as book_title, b.model_settings,
+            s.characters, s.entities
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       LEFT JOIN chapter_summaries s ON s.chapter_id = c.id
+      WHERE c.id = $1`,
+    [chapterId]
+  );
+
+  if (!rows.length) {
+    throw new GenerationError("Chapter not found", 404);
+  }
+  const chapter: ChapterRow = rows[0];
+
+  const priorIds = chaptersBefore(await getReadingOrder(chapter.book_id), chapterId);
+  const { rows: priorRows }: { rows: { id: string; title: string | null; summary: string }[] } = await pool.query(
+    `SELECT c.id, c.title, s.summary
+       FROM chapters c
+       JOIN chapter_summaries s ON s.chapter_id = c.id
+      WHERE c.id = ANY($1::text[])`,
+    [priorIds]
+  );
+  const priorById = new Map(priorRows.map(r => [r.id, r]));
+  const prior = priorIds.flatMap(id => priorById.get(id) ?? []);
+
+  const pages = await loadWikiFacts(chapter.book_id, chapterId, chapter);
+
+  const budget = defaultContextBudget();
+  const chapterText = trimToTokens(chapter.text, Math.floor(budget * CHAPTER_SHARE));
+  const wikiEntries = fitEntries(
+    pages.map(page => `## ${page.page_name} (${page.page_type})\n${page.content}`),
+    Math.floor(budget * WIKI_SHARE)
+  );
+  const summaryBudget = budget - estimateTokens(SYSTEM_PROMPT + chapterText + wikiEntries.join("\n\n"));
+  // The most recent summaries are kept when they don't all fit
+  const summaryEntries = fitEntries(
+    [...prior].reverse().map(c => `# ${c.id}${c.title ? ` — ${c.title}` : ""}\n${c.summary}`),
+    Math.max(0, summaryBudget)
+  ).reverse();
+
+  // Nothing established yet (an opening chapter with an empty wiki): no issues
+  const out: Record<string, unknown> = wikiEntries.length || summaryEntries.length
+    ? await askForIssues(chapter, chapterText, wikiEntries, summaryEntries)
+    : { issues: [] };
+
+  const priorIdSet = new Set(prior.map(c => c.id));
+  const found: FoundIssue[] = [];
+  for (const raw of Array.isArray(out.issues) ? out.issues : []) {
+    const description = typeof raw?.description === "string" ? raw.description.trim() : "";
+    if (!description) {
+      continue;
+    }
+    const anchor = typeof raw.quote === "string" ? locateQuote(chapter.text, raw.quote) : null;
+    found.push({
+      category: isOneOf(CONTINUITY_CATEGORIES, raw.category) ? raw.category : "other",
+      severity: isOneOf(CONTINUITY_SEVERITIES, raw.severity) ? raw.severity : "moderate",
+      quote: anchor ? chapter.text.slice(anchor.start, anchor.end) : null,
+      description,
+      establishedFact: typeof raw.established_fact === "string" ? raw.established_fact : null,
+      wikiPageId: findWikiPage(raw.wiki_page, pages)?.id ?? null,
+      sourceChapterId: typeof raw.source_chapter === "string" && priorIdSet.has(raw.source_chapter) ? raw.source_chapter : null
+    });
+  }
+
+  return withTx(async (client) => {
+    const { rows: dismissed }: { rows: IssueKeyFields[] } = await client.query(
+      `SELECT category, quote, description FROM continuity_issues
+       WHERE chapter_id = $1 AND status = 'dismissed'`,
+      [chapterId]
+    );
+    const dismissedKeys = new Set(dismissed.map(issueKey));
+
+    await client.query(
+      `DELETE FROM continuity_issues WHERE chapter_id = $1 AND origin = 'check' AND status = 'open'`,
+      [chapterId]
+    );
+
+    const issues = [];
+    let skipped = 0;
+    for (const issue of found) {
+      if (dismissedKeys.has(issueKey(issue))) {
+        skipped++;
+        continue;
+      }
+      const { rows: inserted } = await client.query(
+        `INSERT INTO continuity_issues
+           (book_id, chapter_id, wiki_page_id, source_chapter_id, origin, category, severity, quote, description, established_fact)
+         VALUES ($1, $2, $3, $4, 'check', $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [chapter.book_id, chapterId, issue.wikiPageId, issue.sourceChapterId, issue.category, issue.severity,
+         issue.quote, issue.description, issue.establishedFact]
+      );
+      issues.push(inserted[0]);
+    }
+
+    return {
+      bookId: chapter.book_id,
+      issues,
+      // Issues the author dismissed before, not raised again
+      skipped,
+      checkedAgainst: { wikiPages: wikiEntries.length, chapters: summaryEntries.length }
+    };
+  });
+}
+
+// Store the contradictions a wiki update noted for a page, replacing the open
+// ones an earlier update of the page from the same chapter noted. Notes the
+// author already dismissed for the page and chapter are not stored again.
+// `contradictions` is the model's output, checked with contradictionNotes.
+export async function recordWikiContradiction(bookId: string, chapterId: string, wikiPageId: number, contradictions: unknown) {
+  const notes = contradictionNotes(contradictions);
+  if (!notes) {
+    return;
+  }
+  const issue: IssueKeyFields = { category: "other", quote: null, description: notes };
+  await withTx(async (client) => {
+    await client.query(
+      `DELETE FROM continuity_issues
+       WHERE chapter_id = $1 AND wiki_page_id = $2 AND origin = 'wiki_update' AND status = 'open'`,
+      [chapterId, wikiPageId]
+    );
+    const { rows: dismissed }: { rows: IssueKeyFields[] } = await client.query(
+      `SELECT category, quote, description FROM continuity_issues
+       WHERE chapter_id = $1 AND wiki_page_id = $2 AND origin = 'wiki_update' AND status = 'dismissed'`,
+      [chapterId, wikiPageId]
+    );
+    if (dismissed.some(row => issueKey(row) === issueKey(issue))) {
+      return;
+    }
+    await client.query(
+      `INSERT INTO continuity_issues (book_id, chapter_id, wiki_page_id, origin, category, severity, description)
+       VALUES ($1, $2, $3, 'wiki_update', 'other', 'moderate', $4)`,
+      [bookId, chapterId, wikiPageId, notes]
+    );
+  });
+}
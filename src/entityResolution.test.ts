@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { WikiEntity, askModelToResolve, compareNames, matchEntity, normalizeName, resolveEntity } from "./entityResolution.js";
+
+const page = (id: number, page_name: string, aliases: string[] = [], page_type: string | null = "character"): WikiEntity =>
+  ({ id, page_name, page_type, aliases, summary: null });
+
+const pages = [
+  page(1, "Elizabeth Bennet", ["Lizzy"]),
+  page(2, "Jane Bennet"),
+  page(3, "Netherfield", [], "location"),
+  page(4, "Mr. Darcy")
+];
+
+test("normalizeName drops case, accents, punctuation and titles", () => {
+  assert.equal(normalizeName("  Dr. Émile  O'Brien "), "emile o brien");
+  assert.equal(normalizeName("The Captain"), "");
+});
+
+test("compareNames tells exact, contained and similar names apart", () => {
+  assert.deepEqual(compareNames("mr darcy", "Darcy"), { match: "exact", confident: true });
+  assert.deepEqual(compareNames("Elizabeth", "Elizabeth Bennet"), { match: "contained", confident: true });
+  assert.deepEqual(compareNames("Bennet", "Elizabeth Bennet"), { match: "contained", confident: false });
+  assert.deepEqual(compareNames("Liz", "Elizabeth"), { match: "similar", confident: false });
+  assert.deepEqual(compareNames("Elisabeth", "Elizabeth"), { match: "similar", confident: false });
+  assert.equal(compareNames("Jane Bennet", "Elizabeth Bennet"), null);
+  assert.equal(compareNames("Mr.", "Darcy"), null);
+});
+
+test("matchEntity matches names and aliases exactly", () => {
+  assert.deepEqual(matchEntity("lizzy", pages), { page: pages[0], method: "exact", candidates: [] });
+  assert.equal(matchEntity("Darcy", pages).page, pages[3]);
+});
+
+test("matchEntity takes a single confident fuller or shorter form", () => {
+  const result = matchEntity("Elizabeth", pages);
+  assert.equal(result.page, pages[0]);
+  assert.equal(result.method, "contained");
+});
+
+test("matchEntity leaves ambiguous names to the caller with candidates", () => {
+  const result = matchEntity("Miss Bennet", pages);
+  assert.equal(result.page, null);
+  assert.deepEqual(result.candidates.map(c => c.id).sort(), [1, 2]);
+});
+
+test("matchEntity only considers pages of the entity's type", () => {
+  assert.equal(matchEntity("Netherfield", pages).page, null);
+  assert.equal(matchEntity("Netherfield", pages, "location").page, pages[2]);
+});
+
+test("resolveEntity asks the fake model to pick among candidates", async () => {
+  const ask = (candidates: WikiEntity[]) =>
+    askModelToResolve("Eliza", candidates, "Eliza walks to Netherfield.", { wiki: "fake:fake-1" });
+
+  const result = await resolveEntity("Eliza", pages, ask);
+  assert.equal(result.page, pages[0]);
+  assert.equal(result.method, "model");
+
+  const unknown = await resolveEntity("Lydia", pages, ask);
+  assert.deepEqual(unknown, { page: null, method: null, candidates: [] });
+});
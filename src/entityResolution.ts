@@ -0,0 +1,352 @@
+import { pool, withTx } from "./db.js";
+import { generate, ModelSettings } from "./llm.js";
+import { QuotaExceededError, UsageMeter } from "./usage.js";
+import { getReadingOrder } from "./readingOrder.js";
+import { EntityType } from "./wikiEntities.js";
+
+// Names from chapter summaries are resolved to existing wiki pages of their
+// type before a new page is created: "Liz", "Elizabeth" and "Elizabeth Bennet"
+// should all land on one character page. A name matching a page's name or one of its
+// aliases is the same character; a name that is clearly a longer or shorter
+// form of one page's name is too. Looser matches (nicknames, typos, a shared
+// surname) are put to the model along with the chapter summary. Names resolved
+// to a page other than by its exact name are added to the page's aliases.
+
+export interface WikiEntity {
+  id: number;
+  page_name: string;
+  page_type: string | null;
+  aliases: string[] | null;
+  summary: string | null;
+}
+
+export type ResolutionMethod = "exact" | "contained" | "model";
+
+export interface Resolution {
+  page: WikiEntity | null;
+  method: ResolutionMethod | null;
+  // Pages the name could have referred to, when it was not an exact match
+  candidates: WikiEntity[];
+}
+
+// Honorifics and articles that don't tell characters apart
+const IGNORED_TOKENS = new Set([
+  "the", "mr", "mrs", "ms", "miss", "mx", "dr", "sir", "dame", "lady", "lord",
+  "captain", "capt", "professor", "prof", "aunt", "uncle", "king", "queen", "prince", "princess"
+]);
+// Most candidates shown to the model for one name
+const MAX_CANDIDATES = 8;
+
+export function nameTokens(name: string) {
+  return name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token && !IGNORED_TOKENS.has(token));
+}
+
+export const normalizeName = (name: string) => nameTokens(name).join(" ");
+
+const entityNames = (page: WikiEntity) => [page.page_name, ...(page.aliases || [])];
+
+// Untyped pages and pages of type "other" can stand for any entity
+const hasType = (page: WikiEntity, pageType: EntityType) =>
+  !page.page_type || page.page_type === pageType || page.page_type === "other";
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Tokens that may be the same name: one inside the other ("liz" in
+// "elizabeth") or a one-letter slip in a longer name ("elisabeth")
+const similarTokens = (a: string, b: string) =>
+  (Math.min(a.length, b.length) >= 3 && (a.includes(b) || b.includes(a))) ||
+  (Math.min(a.length, b.length) >= 5 && editDistance(a, b) <= 1);
+
+// How two names relate: the same once normalized, one a fuller form of the
+// other ("confident" when they also start with the same name, so "Elizabeth"
+// and "Elizabeth Bennet" but not "Bennet" and "Elizabeth Bennet"), or only
+// similar
+export function compareNames(a: string, b: string) {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (!tokensA.length || !tokensB.length) return null;
+  if (tokensA.join(" ") === tokensB.join(" ")) {
+    return { match: "exact" as const, confident: true };
+  }
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  if (shorter.every(token => longer.includes(token))) {
+    return { match: "contained" as const, confident: shorter[0] === longer[0] };
+  }
+  // A shared surname alone is not a similar name
+  if (tokensA.some(x => tokensB.some(y => x !== y && similarTokens(x, y)))) {
+    return { match: "similar" as const, confident: false };
+  }
+  return null;
+}
+
+const MATCH_RANK = { exact: 3, contained: 2, similar: 1 };
+
+// The closest any of the page's names comes to `name`
+function bestMatch(name: string, page: WikiEntity) {
+  let best: ReturnType<typeof compareNames> = null;
+  for (const pageName of entityNames(page)) {
+    const result = compareNames(name, pageName);
+    if (result && (!best || MATCH_RANK[result.match] > MATCH_RANK[best.match] ||
+        (result.match === best.match && result.confident && !best.confident))) {
+      best = result;
+    }
+  }
+  return best;
+}
+
+// Match a name to the book's pages of its type without asking the model: a
+// page whose name or one of its aliases is the name (ignoring case,
+// punctuation and titles), else the one page it is confidently a longer or
+// shorter form of. Otherwise `candidates` lists the pages it might be.
+export function matchEntity(name: string, pages: WikiEntity[], pageType: EntityType = "character"): Resolution {
+  const typed = pages.filter(page => hasType(page, pageType));
+  const exact = typed.find(page => bestMatch(name, page)?.match === "exact");
+  if (exact) {
+    return { page: exact, method: "exact", candidates: [] };
+  }
+
+  const scored = typed
+    .map(page => ({ page, result: bestMatch(name, page) }))
+    .filter((s): s is { page: WikiEntity; result: NonNullable<ReturnType<typeof compareNames>> } => s.result !== null)
+    .sort((a, b) => MATCH_RANK[b.result.match] - MATCH_RANK[a.result.match]);
+  const candidates = scored.map(s => s.page).slice(0, MAX_CANDIDATES);
+
+  const contained = scored.filter(s => s.result.match === "contained");
+  if (contained.length === 1 && contained[0].result.confident) {
+    return { page: contained[0].page, method: "contained", candidates };
+  }
+  return { page: null, method: null, candidates };
+}
+
+// Resolve a name against the book's pages of its type. `ask` picks among
+// candidates when no single page is a confident match; it returns a page id or
+// null (a new entity).
+export async function resolveEntity(
+  name: string,
+  pages: WikiEntity[],
+  ask: (candidates: WikiEntity[]) => Promise<number | null>,
+  pageType: EntityType = "character"
+): Promise<Resolution> {
+  const match = matchEntity(name, pages, pageType);
+  if (match.page || !match.candidates.length) {
+    return match;
+  }
+
+  const id = await ask(match.candidates);
+  const page = match.candidates.find(c => c.id === id);
+  return page ? { page, method: "model", candidates: match.candidates } : match;
+}
+
+// Ask the model whether a name refers to one of the candidate pages. Errors
+// other than an exhausted quota count as "no match".
+export async function askModelToResolve(
+  name: string,
+  candidates: WikiEntity[],
+  chapterSummary: string,
+  modelSettings?: ModelSettings | null,
+  meter?: UsageMeter,
+  pageType: EntityType = "character"
+): Promise<number | null> {
+  const listing = candidates.map(c =>
+    `- id ${c.id}: ${c.page_name}${c.aliases?.length ? ` (also called: ${c.aliases.join(", ")})` : ""}` +
+    (c.summary ? `\n  ${c.summary}` : "")
+  ).join("\n");
+
+  try {
+    const response = await generate({
+      task: "wiki",
+      settings: modelSettings,
+      meter,
+      messages: [
+        {
+          role: "system",
+          content: pageType === "character"
+            ? "You match character names in a novel to existing wiki pages. A name matches a page only if it clearly refers to the same character, e.g. a nickname, a shortened or a fuller form of their name. Different characters may share a surname or a title. Return valid JSON only."
+            : `You match ${pageType} names in a novel to existing wiki pages. A name matches a page only if it clearly refers to the same ${pageType}, e.g. a shortened, fuller or informal form of its name. Different ${pageType}s may share part of a name. Return valid JSON only.`
+        },
+        {
+          role: "user",
+          content: `NAME TO RESOLVE: ${name}
+
+CHAPTER SUMMARY:
+${chapterSummary}
+
+CANDIDATE PAGES:
+${listing}
+
+Return JSON only: {"match": <id of the candidate page, or null if this is a different ${pageType}>, "reason": "one sentence"}`
+        }
+      ],
+      json: true,
+      temperature: 0
+    });
+
+    if (!response.content) {
+      return null;
+    }
+    const out = JSON.parse(response.content);
+    return typeof out.match === "number" ? out.match : null;
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      throw error;
+    }
+    console.error('Error resolving character name:', error);
+    return null;
+  }
+}
+
+// Record another name for a page unless it already has it
+export async function addAlias(page: WikiEntity, alias: string) {
+  const normalized = normalizeName(alias);
+  if (entityNames(page).some(name => normalizeName(name) === normalized)) {
+    return;
+  }
+  page.aliases = [...(page.aliases || []), alias];
+  await pool.query(
+    `UPDATE wiki_pages SET aliases = COALESCE(aliases, '[]'::jsonb) || to_jsonb($2::text), updated_at = now()
+     WHERE id = $1`,
+    [page.id, alias]
+  );
+}
+
+// Pages of the same type in the book that look like the same entity, for
+// review before merging
+export function findDuplicateCandidates(pages: WikiEntity[]) {
+  const pairs: { pageIds: [number, number]; names: [string, string]; pageType: string | null; match: "exact" | "contained" | "similar" }[] = [];
+  for (const [i, a] of pages.entries()) {
+    for (const b of pages.slice(i + 1).filter(p => p.page_type === a.page_type)) {
+      let best: ReturnType<typeof compareNames> = null;
+      for (const name of entityNames(a)) {
+        const result = bestMatch(name, b);
+        if (result && (!best || MATCH_RANK[result.match] > MATCH_RANK[best.match])) {
+          best = result;
+        }
+      }
+      if (best) {
+        pairs.push({ pageIds: [a.id, b.id], names: [a.page_name, b.page_name], pageType: a.page_type, match: best.match });
+      }
+    }
+  }
+  return pairs.sort((x, y) => MATCH_RANK[y.match] - MATCH_RANK[x.match]);
+}
+
+// Merge the source page into the target: the source's names become aliases,
+// its content is appended (unless replacement content is given) and its
+// mentions, history, proposals and character stats move to the target before
+// the source page is deleted. Returns null if either page is gone.
+export async function mergeWikiPages(
+  targetId: number,
+  sourceId: number,
+  options: { content?: string; summary?: string } = {}
+) {
+  return withTx(async (client) => {
+    const { rows } = await client.query(
+      'SELECT * FROM wiki_pages WHERE id = ANY($1::int[]) FOR UPDATE',
+      [[targetId, sourceId]]
+    );
+    const target = rows.find((r: any) => r.id === targetId);
+    const source = rows.find((r: any) => r.id === sourceId);
+    if (!target || !source) {
+      return null;
+    }
+
+    const aliases: string[] = [];
+    for (const name of [...(target.aliases || []), source.page_name, ...(source.aliases || [])]) {
+      const normalized = normalizeName(name);
+      if (normalized !== normalizeName(target.page_name) && !aliases.some(a => normalizeName(a) === normalized)) {
+        aliases.push(name);
+      }
+    }
+    const tags = [...new Set([...(target.tags || []), ...(source.tags || [])])];
+    const content = options.content ??
+      [target.content, source.content ? `## Merged from ${source.page_name}\n\n${source.content}` : null]
+        .filter(Boolean).join("\n\n");
+
+    const { rows: pageRows } = await client.query(
+      `UPDATE wiki_pages
+       SET content = $1, summary = $2, aliases = $3, tags = $4, is_major = $5,
+           human_edited_at = now(), updated_at = now()
+       WHERE id = $6
+       RETURNING *`,
+      [content, options.summary ?? target.summary ?? source.summary, JSON.stringify(aliases),
+       JSON.stringify(tags), Boolean(target.is_major || source.is_major), targetId]
+    );
+
+    // Mentions: a chapter mentioning both keeps the target's row
+    await client.query(
+      `INSERT INTO chapter_wiki_mentions (chapter_id, wiki_page_id, mention_context)
+       SELECT chapter_id, $1, mention_context FROM chapter_wiki_mentions WHERE wiki_page_id = $2
+       ON CONFLICT (chapter_id, wiki_page_id) DO NOTHING`,
+      [targetId, sourceId]
+    );
+
+    // History and proposals follow the page; the source's pending changes no longer apply
+    await client.query('UPDATE wiki_updates SET wiki_page_id = $1 WHERE wiki_page_id = $2', [targetId, sourceId]);
+    await client.query(
+      `UPDATE wiki_proposals SET status = 'superseded', decided_at = now()
+       WHERE wiki_page_id = $1 AND status = 'pending'`,
+      [sourceId]
+    );
+    await client.query('UPDATE wiki_proposals SET wiki_page_id = $1 WHERE wiki_page_id = $2', [targetId, sourceId]);
+    await client.query(
+      `INSERT INTO wiki_updates (wiki_page_id, update_type, previous_content, new_content, change_summary)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [targetId, 'merged', target.content, content, `Merged "${source.page_name}" into this page`]
+    );
+
+    // Character stats: one row for the merged page. Its count is the number of
+    // chapters mentioning the merged page, but never less than either row had.
+    const { rows: characterRows } = await client.query(
+      `SELECT * FROM book_characters
+       WHERE book_id = $1 AND (wiki_page_id = ANY($2::int[]) OR character_name = ANY($3::text[]))
+       ORDER BY (wiki_page_id = $4 OR character_name = $5) DESC NULLS LAST, id`,
+      [target.book_id, [targetId, sourceId], [target.page_name, source.page_name], targetId, target.page_name]
+    );
+    if (characterRows.length) {
+      const { rows: mentionRows } = await client.query(
+        'SELECT chapter_id FROM chapter_wiki_mentions WHERE wiki_page_id = $1',
+        [targetId]
+      );
+      const chapters = new Set<string>([
+        ...mentionRows.map((m: any) => m.chapter_id),
+        ...characterRows.map((c: any) => c.first_mentioned_chapter).filter(Boolean)
+      ]);
+      const order = await getReadingOrder(target.book_id, client);
+      const firstMention = order.find(id => chapters.has(id)) ?? null;
+      const mentionCount = Math.max(mentionRows.length, ...characterRows.map((c: any) => c.mention_count || 0));
+
+      const [kept, ...merged] = characterRows;
+      await client.query(
+        'DELETE FROM book_characters WHERE id = ANY($1::int[])',
+        [merged.map((c: any) => c.id)]
+      );
+      await client.query(
+        `UPDATE book_characters
+         SET character_name = $1, first_mentioned_chapter = $2, mention_count = $3,
+             has_wiki_page = true, wiki_page_id = $4, updated_at = now()
+         WHERE id = $5`,
+        [target.page_name, firstMention, mentionCount, targetId, kept.id]
+      );
+    }
+
+    // Cascades to the source's remaining mentions
+    await client.query('DELETE FROM wiki_pages WHERE id = $1', [sourceId]);
+
+    return pageRows[0];
+  });
+}
@@ -0,0 +1,673 @@
+import { pool, withTx } from "./db.js";
+import { generate, ModelSettings } from "./llm.js";
+import { QuotaExceededError, UsageMeter } from "./usage.js";
+import { getReadingOrder, chaptersBefore } from "./readingOrder.js";
+import { currentRevisionSql } from "./revisions.js";
+import { contentHash } from "./contentHash.js";
+import { assembleReviewContext, defaultContextBudget } from "./contextAssembler.js";
+import { renderPromptTemplate, wikiPagesIn } from "./promptTemplates.js";
+import { currentProposal, needsApproval, proposeWikiUpdate } from "./wikiProposals.js";
+import { addAlias, askModelToResolve, resolveEntity } from "./entityResolution.js";
+import { ENTITY_SCHEMA_FIELDS, ENTITY_TYPES, EntityMention, EntityType, entityMentions, summaryEntities, summaryEntityInstruction } from "./wikiEntities.js";
+import { RELATIONSHIP_INSTRUCTION, RELATIONSHIP_SCHEMA_FIELD, refreshCharacterRelationships, summaryRelationships } from "./relationships.js";
+import { contradictionNotes, recordWikiContradiction } from "./continuity.js";
+
+// AI generation shared by the HTTP routes and the background job worker
+
+// Raised for caller mistakes (missing chapter, unknown profile) so routes can
+// answer with a 4xx and the job worker can fail without retrying
+export class GenerationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "GenerationError";
+  }
+}
+
+export type ProgressCallback = (done: number, total: number) => Promise<void>;
+
+// ---- Chapter summaries
+export async function summarizeChapter(chapterId: string) {
+  const { rows } = await pool.query(
+    `SELECT c.id, c.title, c.text, c.book_id, b.title as book_title, b.model_settings,
+            ${currentRevisionSql("c")} as revision_id
+       FROM chapters c
+       JOIN books b ON c.book_id=b.id
+      WHERE c.id=$1`, [chapterId]
+  );
+
+  if (!rows.length) {
+    throw new GenerationError("Chapter not found", 404);
+  }
+
+  const chapter = rows[0];
+
+  // Check if this is the first chapter in reading order
+  const readingOrder = await getReadingOrder(chapter.book_id);
+  const isFirstChapter = chaptersBefore(readingOrder, chapterId).length === 0;
+
+  // Call the configured provider in JSON mode
+  const response = await generate({
+    task: "summary",
+    settings: chapter.model_settings,
+    meter: { bookId: chapter.book_id, chapterId },
+    messages: [
+      { role: "system", content:
+        `You are an expert fiction editor. Produce a tight factual summary (150–250 words), include POV, the chapter's entities for the book's wiki (${summaryEntityInstruction()}), the character relationships it shows (${RELATIONSHIP_INSTRUCTION}), and 4–8 bullet beats. No speculation. Return valid JSON only.${isFirstChapter ? ' IMPORTANT: This is the FIRST chapter of the book - there are no previous chapters to reference. Focus only on what happens in this opening chapter.' : ''}`},
+      { role: "user", content:
+        `Book: ${chapter.book_title} (${chapter.book_id})\n` +
+        `Chapter: ${chapter.id}${chapter.title ? ` — ${chapter.title}` : ""}${isFirstChapter ? ' (FIRST CHAPTER)' : ''}\n\n` +
+        `${isFirstChapter ? 'This is the opening chapter of the book. Summarize only what happens in this first chapter. Do not reference any previous events or chapters.\n\n' : ''}` +
+        `Return JSON only for this schema: {pov, ${ENTITY_SCHEMA_FIELDS}, ${RELATIONSHIP_SCHEMA_FIELD}, beats[], spoilers_ok, summary}\n\n` +
+        chapter.text
+      }
+    ],
+    json: true,
+    temperature: 0.3
+  });
+
+  if (!response.content) {
+    throw new Error(`No content received from ${response.provider}`);
+  }
+  const out = JSON.parse(response.content);
+
+  await pool.query(
+    `INSERT INTO chapter_summaries (chapter_id, pov, characters, entities, relationships, beats, spoilers_ok, summary, revision_id, content_hash)
+     VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+     ON CONFLICT (chapter_id) DO UPDATE SET
+       pov=EXCLUDED.pov,
+       characters=EXCLUDED.characters,
+       entities=EXCLUDED.entities,
+       relationships=EXCLUDED.relationships,
+       beats=EXCLUDED.beats,
+       spoilers_ok=EXCLUDED.spoilers_ok,
+       summary=EXCLUDED.summary,
+       revision_id=EXCLUDED.revision_id,
+       content_hash=EXCLUDED.content_hash,
+       created_at=now()`,
+    [chapterId, out.pov || null, JSON.stringify(out.characters||[]), JSON.stringify(summaryEntities(out)),
+     JSON.stringify(summaryRelationships(out)),
+     JSON.stringify(out.beats||[]), !!out.spoilers_ok, out.summary, chapter.revision_id, contentHash(chapter.text)]
+  );
+
+  return { bookId: chapter.book_id as string, summary: out };
+}
+
+// ---- Part summaries
+// Roll a part's chapter summaries (in reading order) up into one summary of the
+// part, so reviews late in a long book can stand in for whole earlier parts
+export async function summarizePart(partId: number) {
+  const { rows: partRows } = await pool.query(
+    `SELECT p.id, p.name, p.book_id, b.title as book_title, b.model_settings
+       FROM book_parts p
+       JOIN books b ON p.book_id = b.id
+      WHERE p.id = $1`,
+    [partId]
+  );
+
+  if (!partRows.length) {
+    throw new GenerationError("Part not found", 404);
+  }
+  const part = partRows[0];
+
+  const { rows: chapterRows } = await pool.query(
+    `SELECT c.id, c.title, s.summary
+       FROM chapters c
+       LEFT JOIN chapter_summaries s ON s.chapter_id = c.id
+      WHERE c.part_id = $1`,
+    [partId]
+  );
+  const chaptersById = new Map<string, any>(chapterRows.map((r: any) => [r.id, r]));
+  const chapters = (await getReadingOrder(part.book_id))
+    .map(id => chaptersById.get(id))
+    .filter(Boolean);
+
+  const summarized = chapters.filter(c => c.summary);
+  if (!summarized.length) {
+    throw new GenerationError("Summarize the part's chapters before summarizing the part");
+  }
+
+  const response = await generate({
+    task: "summary",
+    settings: part.model_settings,
+    meter: { bookId: part.book_id },
+    messages: [
+      { role: "system", content:
+        "You are an expert fiction editor. Condense the chapter summaries of one part of a book into a single factual summary of the part (200–400 words): the main plot turns in order, which characters change and how, and the questions left open at the end of the part. No speculation. Return valid JSON only."},
+      { role: "user", content:
+        `Book: ${part.book_title} (${part.book_id})\n` +
+        `Part: ${part.name}\n\n` +
+        "Return JSON only for this schema: {summary, characters[], open_threads[]}\n\n" +
+        summarized.map(c => `# ${c.id}${c.title ? ` — ${c.title}` : ""}\n${c.summary}`).join("\n\n")
+      }
+    ],
+    json: true,
+    temperature: 0.3
+  });
+
+  if (!response.content) {
+    throw new Error(`No content received from ${response.provider}`);
+  }
+  const out = JSON.parse(response.content);
+
+  const { rows } = await pool.query(
+    `INSERT INTO part_summaries (part_id, summary, characters, open_threads, chapter_ids)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (part_id) DO UPDATE SET
+       summary = EXCLUDED.summary,
+       characters = EXCLUDED.characters,
+       open_threads = EXCLUDED.open_threads,
+       chapter_ids = EXCLUDED.chapter_ids,
+       created_at = now()
+     RETURNING *`,
+    [partId, out.summary, JSON.stringify(out.characters || []), JSON.stringify(out.open_threads || []),
+     summarized.map(c => c.id)]
+  );
+
+  return {
+    bookId: part.book_id as string,
+    partSummary: rows[0],
+    missingSummaryIds: chapters.filter(c => !c.summary).map(c => c.id as string)
+  };
+}
+
+// A part summary is stale when a chapter summary in the part is newer than it,
+// or the part's summarized chapters are not the ones it was built from
+export const partSummaryIsStaleSql = (partAlias: string, summaryAlias: string) => `(
+  EXISTS (
+    SELECT 1 FROM chapters pc
+    JOIN chapter_summaries pcs ON pcs.chapter_id = pc.id
+    WHERE pc.part_id = ${partAlias}.id
+      AND (pcs.created_at > ${summaryAlias}.created_at OR NOT pc.id = ANY(${summaryAlias}.chapter_ids))
+  )
+  OR cardinality(${summaryAlias}.chapter_ids) <> (
+    SELECT COUNT(*) FROM chapters pc
+    JOIN chapter_summaries pcs ON pcs.chapter_id = pc.id
+    WHERE pc.part_id = ${partAlias}.id
+  )
+)`;
+
+// ---- Wiki maintenance
+// Update wiki pages for the characters, places, organizations, items and
+// concepts in a chapter's stored summary
+export async function updateWikiForChapter(chapterId: string, onProgress?: ProgressCallback) {
+  const { rows } = await pool.query(
+    `SELECT c.id, c.text, c.book_id, b.model_settings, s.characters, s.entities, s.summary
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       JOIN chapter_summaries s ON s.chapter_id = c.id
+      WHERE c.id = $1`,
+    [chapterId]
+  );
+
+  if (!rows.length) {
+    throw new GenerationError("Chapter summary not found", 404);
+  }
+
+  const chapter = rows[0];
+  const mentions = entityMentions(chapter.characters, chapter.entities);
+  const { failed } = mentions.length > 0
+    ? await updateWikiPagesFromChapter(chapter.book_id, chapterId, mentions, chapter.text, chapter.summary, chapter.model_settings, onProgress)
+    : { failed: [] };
+  // After the pages so new characters have their book_characters rows
+  await refreshCharacterRelationships(chapter.book_id);
+
+  const characters = mentions.filter(m => m.pageType === "character").length;
+  // Mentions whose page could not be created or updated, with the error
+  return { characters, entities: mentions.length - characters, failed };
+}
+
+// Helper function to update wiki pages from chapter summaries. Each mention is
+// handled on its own: one that fails is reported in `failed` and the rest are
+// still updated. An exhausted quota stops the whole update.
+export async function updateWikiPagesFromChapter(
+  bookId: string,
+  chapterId: string,
+  mentions: EntityMention[],
+  chapterText: string,
+  chapterSummary: string,
+  modelSettings?: ModelSettings | null,
+  onProgress?: ProgressCallback
+) {
+  // The book's pages, kept current as this chapter adds pages and aliases
+  const { rows: pages } = await pool.query(
+    'SELECT id, page_name, page_type, aliases, summary FROM wiki_pages WHERE book_id = $1 ORDER BY id',
+    [bookId]
+  );
+  const updatedPages = new Set<number>();
+  const failed: { name: string; pageType: EntityType; error: string }[] = [];
+
+  for (const [index, { name: mentionedName, pageType }] of mentions.entries()) {
+    try {
+      // Match the name to an existing page through its aliases and similar names
+      const { page: resolvedPage, method } = await resolveEntity(mentionedName, pages, candidates =>
+        askModelToResolve(mentionedName, candidates, chapterSummary, modelSettings, { bookId, chapterId }, pageType),
+        pageType
+      );
+      if (resolvedPage && method !== "exact") {
+        await addAlias(resolvedPage, mentionedName);
+      }
+
+      // Several names in one summary for the same page count once
+      if (resolvedPage && updatedPages.has(resolvedPage.id)) {
+        continue;
+      }
+      const pageName: string = resolvedPage?.page_name ?? mentionedName;
+
+      // Update or create book character entry first
+      if (pageType === "character") {
+        await pool.query(
+          `INSERT INTO book_characters (book_id, character_name, first_mentioned_chapter, mention_count, has_wiki_page, wiki_page_id)
+           VALUES ($1, $2, $3, 1, $4, $5)
+           ON CONFLICT (book_id, character_name)
+           DO UPDATE SET
+             mention_count = book_characters.mention_count + 1,
+             has_wiki_page = book_characters.has_wiki_page OR EXCLUDED.has_wiki_page,
+             wiki_page_id = COALESCE(book_characters.wiki_page_id, EXCLUDED.wiki_page_id),
+             updated_at = now()`,
+          [bookId, pageName, chapterId, Boolean(resolvedPage), resolvedPage?.id ?? null]
+        );
+      }
+      const { rows: existingPages } = resolvedPage
+        ? await pool.query('SELECT * FROM wiki_pages WHERE id = $1', [resolvedPage.id])
+        : { rows: [] };
+
+      let wikiPageId: number;
+
+      if (existingPages.length === 0) {
+        // Page names are unique within a book whatever the type, so a name a
+        // page of another type already has gets the type added: "Ash (location)"
+        const newPageName = pages.some(page => page.page_name.toLowerCase() === pageName.toLowerCase())
+          ? `${pageName} (${pageType})`
+          : pageName;
+
+        // Create a new page of the entity's type
+        const newPageContent = await generateWikiContent(newPageName, chapterText, chapterSummary, null, modelSettings, { bookId, chapterId }, pageType);
+
+        const { rows: newPageRows } = await pool.query(
+          `INSERT INTO wiki_pages (book_id, page_name, page_type, content, summary, created_by_ai)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING id`,
+          [bookId, newPageName, pageType, newPageContent.content, newPageContent.summary, true]
+        );
+
+        wikiPageId = newPageRows[0].id;
+        pages.push({ id: wikiPageId, page_name: newPageName, page_type: pageType, aliases: [], summary: newPageContent.summary });
+
+        // Update book_characters to link to this wiki page
+        if (pageType === "character") {
+          await pool.query(
+            `UPDATE book_characters SET has_wiki_page = true, wiki_page_id = $1
+             WHERE book_id = $2 AND character_name = $3`,
+            [wikiPageId, bookId, pageName]
+          );
+        }
+
+        // Log the creation
+        await pool.query(
+          `INSERT INTO wiki_updates (wiki_page_id, chapter_id, update_type, new_content, change_summary)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [wikiPageId, chapterId, 'created', newPageContent.content, `Created from chapter summary - first mention of ${pageName}`]
+        );
+      } else {
+        // Update existing wiki page
+        const existingPage = existingPages[0];
+        wikiPageId = existingPage.id;
+        // Contradictions between the chapter and the page become continuity issues
+        let contradictions: string | null = null;
+
+        if (needsApproval(existingPage)) {
+          // A person has written on this page: queue the change for approval,
+          // building on any proposal still waiting for review
+          const pending = await currentProposal(wikiPageId);
+          const proposed = await generateWikiContent(pageName, chapterText, chapterSummary, pending?.proposed_content ?? existingPage.content, modelSettings, { bookId, chapterId }, pageType);
+          if (proposed.hasChanges) {
+            await proposeWikiUpdate(existingPage, chapterId, proposed);
+          }
+          contradictions = proposed.hasContradictions ? proposed.contradictions : null;
+        } else {
+          const updatedContent = await generateWikiContent(pageName, chapterText, chapterSummary, existingPage.content, modelSettings, { bookId, chapterId }, pageType);
+
+          if (updatedContent.hasChanges) {
+            // Only if nobody edited the page while the model was writing
+            const { rowCount } = await pool.query(
+              `UPDATE wiki_pages SET content = $1, summary = $2, updated_at = now()
+               WHERE id = $3 AND human_edited_at IS NULL AND content IS NOT DISTINCT FROM $4`,
+              [updatedContent.content, updatedContent.summary, wikiPageId, existingPage.content]
+            );
+            if (!rowCount) {
+              await proposeWikiUpdate(existingPage, chapterId, updatedContent);
+            } else {
+              // Log the update
+              await pool.query(
+                `INSERT INTO wiki_updates (wiki_page_id, chapter_id, update_type, previous_content, new_content, change_summary, contradiction_notes)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                [
+                  wikiPageId,
+                  chapterId,
+                  updatedContent.hasContradictions ? 'contradiction_noted' : 'updated',
+                  existingPage.content,
+                  updatedContent.content,
+                  updatedContent.changeSummary,
+                  updatedContent.contradictions || null
+                ]
+              );
+            }
+          }
+          contradictions = updatedContent.hasContradictions ? updatedContent.contradictions : null;
+        }
+
+        if (contradictions) {
+          await recordWikiContradiction(bookId, chapterId, wikiPageId, contradictions);
+        }
+      }
+
+      updatedPages.add(wikiPageId);
+
+      // Record the mention in chapter_wiki_mentions
+      await pool.query(
+        `INSERT INTO chapter_wiki_mentions (chapter_id, wiki_page_id, mention_context)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (chapter_id, wiki_page_id)
+         DO UPDATE SET mention_context = EXCLUDED.mention_context`,
+        [chapterId, wikiPageId, `Mentioned in chapter summary: ${chapterSummary.substring(0, 100)}...`]
+      );
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        throw error;
+      }
+      console.error(`Error updating the wiki page for ${mentionedName}:`, error);
+      failed.push({ name: mentionedName, pageType, error: error instanceof Error ? error.message : String(error) });
+    } finally {
+      if (onProgress) {
+        await onProgress(index + 1, mentions.length);
+      }
+    }
+  }
+
+  return { failed };
+}
+
+// Generate or update wiki content using AI
+export async function generateWikiContent(name: string, chapterText: string, chapterSummary: string, existingContent: string | null, modelSettings?: ModelSettings | null, meter?: UsageMeter, pageType: EntityType = "character") {
+  try {
+    const isNewPage = !existingContent;
+
+    const systemPrompt = isNewPage
+      ? `You are a wiki editor creating a ${pageType} page. Create a comprehensive ${pageType} profile based on the information provided. Return JSON with: {content: "markdown content", summary: "brief summary", hasChanges: true}`
+      : `You are a wiki editor updating a ${pageType} page. Compare the existing content with new information from the chapter. Update the wiki to include new information and note any contradictions. Return JSON with: {content: "updated markdown", summary: "updated summary", hasChanges: boolean, changeSummary: "what changed", hasContradictions: boolean, contradictions: "contradictions found"}`;
+
+    const userPrompt = isNewPage
+      ? `Create a wiki page for ${pageType}: ${name}
+
+Chapter Summary: ${chapterSummary}
+
+Chapter Text Context: ${chapterText.substring(0, 2000)}...
+
+Create a ${pageType} profile with sections for:
+${ENTITY_TYPES[pageType].sections.map(section => `- ${section}`).join("\n")}`
+      : `Update the wiki page for ${pageType}: ${name}
+
+EXISTING WIKI CONTENT:
+${existingContent}
+
+NEW CHAPTER INFORMATION:
+Chapter Summary: ${chapterSummary}
+Chapter Text Context: ${chapterText.substring(0, 2000)}...
+
+Update the wiki with any new information. If there are contradictions with existing content, note them clearly in a "Contradictions" section.`;
+
+    const response = await generate({
+      task: "wiki",
+      settings: modelSettings,
+      meter,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ],
+      json: true,
+      temperature: 0.3
+    });
+
+    if (!response.content) {
+      throw new Error(`No content received from ${response.provider} for wiki generation`);
+    }
+
+    const out = JSON.parse(response.content);
+    const contradictions = contradictionNotes(out.contradictions);
+    return { ...out, hasContradictions: Boolean(out.hasContradictions && contradictions), contradictions };
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      throw error;
+    }
+    console.error('Error generating wiki content:', error);
+    // Return a basic fallback
+    return {
+      content: `# ${name}\n\nMentioned in chapter summary: ${chapterSummary}`,
+      summary: `${pageType[0].toUpperCase()}${pageType.slice(1)} from the story`,
+      hasChanges: true,
+      changeSummary: 'Basic wiki page created due to AI generation error'
+    };
+  }
+}
+
+
+// ---- Reviews
+export interface ReviewOptions {
+  userId: number;
+  bookId: string;
+  chapterId: string;
+  tone?: string;
+  // A specific ai_profiles row, taking precedence over tone
+  aiProfileId?: number;
+  fullTextChapters?: number;
+  // Use part summaries for earlier parts, chapter summaries within the chapter's own part
+  usePartSummaries?: boolean;
+  // Prompt budget in estimated tokens (defaults to REVIEW_CONTEXT_TOKENS)
+  maxPromptTokens?: number;
+  // Unsaved templates to use instead of the profile's (prompt previews)
+  templateOverrides?: { systemPrompt?: string; userPromptTemplate?: string };
+}
+
+// Resolve the reviewer profile and assemble the prompt for a chapter review.
+// closingInstruction ends the user prompt (structured modes ask for JSON there).
+export async function buildReviewPrompt(options: ReviewOptions, closingInstruction = "Write the review now.") {
+  const { userId, bookId, chapterId, tone = "fanficnet", aiProfileId, fullTextChapters = 0, usePartSummaries = false, maxPromptTokens, templateOverrides } = options;
+
+  const { rows: bookRows } = await pool.query(
+    'SELECT title, description, model_settings FROM books WHERE id = $1',
+    [bookId]
+  );
+  if (!bookRows.length) {
+    throw new GenerationError("Book not found", 404);
+  }
+
+  const { rows: targetRows } = await pool.query(`
+    SELECT c.id, c.title, c.text, c.part_id, s.pov, ${currentRevisionSql("c")} as revision_id
+      FROM chapters c
+      LEFT JOIN chapter_summaries s ON s.chapter_id=c.id
+     WHERE c.id=$1 AND c.book_id=$2`, [chapterId, bookId]);
+  if (!targetRows.length) {
+    throw new GenerationError("New chapter not found", 404);
+  }
+  const target = targetRows[0];
+
+  // Only chapters before the target in reading order, so later chapters never leak in.
+  // The last `fullTextChapters` of them are sent in full, the rest as summaries.
+  const priorIds = chaptersBefore(await getReadingOrder(bookId), chapterId);
+  const fullTextIds = fullTextChapters > 0 ? priorIds.slice(-fullTextChapters) : [];
+
+  const { rows: prior } = await pool.query(`
+    SELECT c.id, c.title, c.part_id, s.summary,
+           CASE WHEN c.id = ANY($2) THEN c.text END as text
+      FROM chapters c
+      LEFT JOIN chapter_summaries s ON s.chapter_id=c.id
+     WHERE c.id = ANY($1)
+     ORDER BY array_position($1::text[], c.id)`, [priorIds, fullTextIds]);
+
+  // Part summaries of other parts, used in place of their chapters' summaries
+  // when asked to or when the budget runs short
+  const { rows: partRows } = await pool.query(`
+    SELECT p.id, p.name, ps.summary, ps.chapter_ids
+      FROM part_summaries ps
+      JOIN book_parts p ON p.id = ps.part_id
+     WHERE p.book_id = $1 AND p.id IS DISTINCT FROM $2`, [bookId, target.part_id]);
+
+  // A specific profile by id, else the user's (or the system) profile for the tone
+  const profileColumns = `id, name, system_prompt, description, user_prompt_template, model, temperature, max_output_tokens`;
+  let aiProfile;
+  if (aiProfileId) {
+    const { rows: profileRows } = await pool.query(
+      `SELECT ${profileColumns}
+       FROM ai_profiles
+       WHERE id = $1 AND (user_id = $2 OR is_system = true)`,
+      [aiProfileId, userId]
+    );
+
+    if (!profileRows.length) {
+      throw new GenerationError("AI profile not found", 404);
+    }
+
+    aiProfile = profileRows[0];
+  } else {
+    const { rows: profileRows } = await pool.query(
+      `SELECT ${profileColumns}
+       FROM ai_profiles
+       WHERE (user_id = $1 OR is_system = true) AND tone_key = $2
+       ORDER BY is_system ASC
+       LIMIT 1`,
+      [userId, tone]
+    );
+
+    if (!profileRows.length) {
+      throw new GenerationError(`AI profile not found for tone: ${tone}`, 404);
+    }
+
+    aiProfile = profileRows[0];
+  }
+
+  // Unsaved templates being previewed stand in for the profile's own
+  const systemTemplate: string = templateOverrides?.systemPrompt ?? aiProfile.system_prompt;
+  const userTemplate: string | null = templateOverrides?.userPromptTemplate ?? aiProfile.user_prompt_template ?? null;
+
+  const { prompt: contextPrompt, sections, report: context } = assembleReviewContext({
+    budgetTokens: maxPromptTokens ?? defaultContextBudget(),
+    fixedText: systemTemplate + (userTemplate ?? "") + closingInstruction,
+    target,
+    prior: prior.map(r => ({ id: r.id, title: r.title, partId: r.part_id, summary: r.summary, text: r.text })),
+    parts: partRows.map(p => ({ id: p.id, name: p.name, summary: p.summary, chapterIds: p.chapter_ids })),
+    preferPartSummaries: usePartSummaries,
+    template: userTemplate !== null
+  });
+
+  const wikiNames = wikiPagesIn(systemTemplate, userTemplate, aiProfile.description);
+  const { rows: wikiRows } = wikiNames.length ? await pool.query(
+    `SELECT page_name, content
+     FROM wiki_pages
+     WHERE book_id = $1 AND lower(page_name) = ANY($2)`,
+    [bookId, wikiNames.map(n => n.toLowerCase())]
+  ) : { rows: [] };
+  const wikiPages = new Map<string, string>(wikiRows.map(r => [r.page_name.toLowerCase(), r.content || ""]));
+
+  const book = bookRows[0];
+  const variables: Record<string, string> = {
+    book_title: book.title || "",
+    book_description: book.description || "",
+    chapter_id: target.id,
+    chapter_title: target.title || target.id,
+    chapter_text: sections.targetText,
+    word_count: String(target.text.split(/\s+/).filter(Boolean).length),
+    pov: target.pov || "",
+    prior_summaries: sections.priorSummaries,
+    preceding_chapters: sections.precedingChapters,
+    profile_name: aiProfile.name,
+    profile_description: aiProfile.description || ""
+  };
+  const missingWikiPages = new Set<string>();
+  const render = (template: string) => {
+    const { text, missing } = renderPromptTemplate(template, variables, wikiPages);
+    missing.forEach(m => missingWikiPages.add(m));
+    return text;
+  };
+
+  // The description may use variables too
+  if (aiProfile.description) {
+    variables.profile_description = render(aiProfile.description);
+  }
+  const systemPrompt = render(systemTemplate);
+  // Without a template the user prompt keeps the built-in layout
+  const userPrompt = (userTemplate !== null ? `${render(userTemplate)}\n\n` : contextPrompt) + closingInstruction;
+
+  // Store the full prompt for transparency
+  const fullPrompt = `SYSTEM PROMPT:\n${systemPrompt}\n\nUSER PROMPT:\n${userPrompt}`;
+
+  return {
+    settings: bookRows[0].model_settings as ModelSettings | null,
+    revisionId: target.revision_id as number | null,
+    contentHash: contentHash(target.text),
+    aiProfileId: aiProfile.id as number,
+    profileName: aiProfile.name as string,
+    // The profile's own generation settings (null = caller's default)
+    model: aiProfile.model as string | null,
+    temperature: aiProfile.temperature as number | null,
+    maxTokens: aiProfile.max_output_tokens as number | null,
+    systemPrompt,
+    userPrompt,
+    fullPrompt,
+    context,
+    missingWikiPages: [...missingWikiPages],
+    meter: { bookId, chapterId } as UsageMeter
+  };
+}
+
+export type ReviewPrompt = Awaited<ReturnType<typeof buildReviewPrompt>>;
+
+// What a chapter_reviews row holds: a review, or the rendered output of a
+// structured comment run or rewrite run (whose comments and suggestions point at it)
+export type ReviewKind = "review" | "comments" | "rewrite";
+
+// chapter_reviews narrowed to the current (newest) review per chapter and profile
+export const LATEST_REVIEWS_SQL = `(
+  SELECT DISTINCT ON (lr.chapter_id, lr.ai_profile_id) lr.*
+  FROM chapter_reviews lr
+  WHERE lr.review_kind = 'review'
+  ORDER BY lr.chapter_id, lr.ai_profile_id, lr.id DESC
+)`;
+
+// Save a generated review as the next version of its kind for its chapter and
+// profile. Earlier versions are kept. Saves for the same chapter and profile take
+// an advisory lock so concurrent generations get distinct versions.
+export async function saveReview(chapterId: string, prompt: ReviewPrompt, reviewText: string, kind: ReviewKind = "review"): Promise<number> {
+  return withTx(async (client) => {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1), $2)', [chapterId, prompt.aiProfileId]);
+    const { rows } = await client.query(
+      `INSERT INTO chapter_reviews (chapter_id, ai_profile_id, review_text, prompt_used, revision_id, content_hash, review_kind, version)
+       SELECT $1, $2, $3, $4, $5, $6, $7, COALESCE(MAX(version), 0) + 1
+       FROM chapter_reviews
+       WHERE chapter_id = $1 AND ai_profile_id = $2 AND review_kind = $7
+       RETURNING id`,
+      [chapterId, prompt.aiProfileId, reviewText, prompt.fullPrompt, prompt.revisionId, prompt.contentHash, kind]
+    );
+    return rows[0].id;
+  });
+}
+
+export async function generateReview(options: ReviewOptions) {
+  const prompt = await buildReviewPrompt(options);
+
+  const response = await generate({
+    task: "review",
+    settings: prompt.settings,
+    model: prompt.model,
+    meter: prompt.meter,
+    messages: [
+      { role: "system", content: prompt.systemPrompt },
+      { role: "user", content: prompt.userPrompt }
+    ],
+    temperature: prompt.temperature ?? 0.7,
+    maxTokens: prompt.maxTokens ?? undefined
+  });
+
+  const reviewId = await saveReview(options.chapterId, prompt, response.content);
+
+  return { reviewId, reviewText: response.content, profileName: prompt.profileName, context: prompt.context };
+}
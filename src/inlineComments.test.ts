@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { locateQuote } from "./inlineComments.js";
+
+const text = "She said “hello” to him.\n\nHe   said nothing. Then he said nothing again.";
+
+test("locateQuote finds an exact quote", () => {
+  assert.deepEqual(locateQuote(text, "to him"), { start: 17, end: 23 });
+});
+
+test("locateQuote ignores case, smart quotes and whitespace runs", () => {
+  const anchor = locateQuote(text, "she said \"Hello\" TO")!;
+  assert.equal(text.slice(anchor.start, anchor.end), "She said “hello” to");
+
+  const spaced = locateQuote(text, "He said nothing.")!;
+  assert.equal(text.slice(spaced.start, spaced.end), "He   said nothing.");
+});
+
+test("locateQuote returns null for missing or empty quotes", () => {
+  assert.equal(locateQuote(text, "goodbye"), null);
+  assert.equal(locateQuote(text, "   "), null);
+});
+
+test("locateQuote prefers the match whose context fits, then the nearest one", () => {
+  const repeated = "said nothing";
+  const first = text.indexOf(repeated);
+  const second = text.lastIndexOf(repeated);
+
+  assert.equal(locateQuote(text, repeated)!.start, first);
+  assert.equal(locateQuote(text, repeated, { near: second + 3 })!.start, second);
+  assert.equal(locateQuote(text, repeated, { suffix: " again", near: 0 })!.start, second);
+});
+
+test("a quote is re-anchored after the text around it changes", () => {
+  const original = "Alice ran. Bob walked home slowly. Bob walked home again.";
+  const start = original.lastIndexOf("walked home");
+  const stored = {
+    prefix: original.slice(start - 10, start),
+    suffix: original.slice(start + 11, start + 21),
+    near: start
+  };
+  const edited = "Alice ran fast, very fast. Bob walked home slowly. Bob walked home again.";
+
+  const anchor = locateQuote(edited, "walked home", stored)!;
+  assert.equal(anchor.start, edited.lastIndexOf("walked home"));
+  assert.equal(anchor.end, anchor.start + "walked home".length);
+});
@@ -0,0 +1,236 @@
+import { pool, withTx } from "./db.js";
+import { generate } from "./llm.js";
+import { ReviewOptions, buildReviewPrompt, saveReview } from "./generation.js";
+import { contentHash } from "./contentHash.js";
+
+// Structured line-level reviews. The model returns comments that quote spans of
+// the chapter; each is anchored to character offsets in chapters.text (JS string
+// indices) and stored in chapter_comments. After the chapter is edited, comments
+// are re-anchored by searching for their quote again, using the text around the
+// old position to pick between repeats.
+
+export const COMMENT_SEVERITIES = ["minor", "moderate", "major"] as const;
+export const COMMENT_CATEGORIES = [
+  "grammar", "spelling", "punctuation", "word_choice", "clarity",
+  "pacing", "dialogue", "style", "continuity", "other"
+] as const;
+export const COMMENT_STATUSES = ["open", "resolved", "dismissed"] as const;
+
+export type CommentSeverity = typeof COMMENT_SEVERITIES[number];
+export type CommentCategory = typeof COMMENT_CATEGORIES[number];
+export type CommentStatus = typeof COMMENT_STATUSES[number];
+
+// Characters of surrounding text kept with each anchor to disambiguate repeats
+const CONTEXT_CHARS = 32;
+
+const STRUCTURED_INSTRUCTION =
+  "Return JSON only for this schema: {comments[{quote, comment, suggestion, severity, category}]}, " +
+  "reviewing the NEW CHAPTER line by line. " +
+  "`quote` must be copied exactly from the new chapter text (a phrase or sentence, not a whole paragraph). " +
+  "`suggestion` is replacement text for the quote, or null. " +
+  `severity is one of ${COMMENT_SEVERITIES.join(", ")}; category is one of ${COMMENT_CATEGORIES.join(", ")}.`;
+
+interface Anchor {
+  start: number;
+  end: number;
+}
+
+// Lowercased, straight quotes, whitespace runs collapsed; map[i] is the
+// index in the original text of normalized character i
+function normalizeWithMap(text: string) {
+  let normalized = "";
+  const map: number[] = [];
+  let lastWasSpace = false;
+  for (let i = 0; i < text.length; i++) {
+    let ch = text[i];
+    if (/\s/.test(ch)) {
+      if (lastWasSpace) continue;
+      ch = " ";
+      lastWasSpace = true;
+    } else {
+      lastWasSpace = false;
+      ch = ch.replace(/[‘’]/, "'").replace(/[“”]/, "\"").toLowerCase();
+    }
+    normalized += ch;
+    map.push(i);
+  }
+  return { normalized, map };
+}
+
+function allIndexesOf(haystack: string, needle: string) {
+  const indexes: number[] = [];
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + 1)) {
+    indexes.push(i);
+  }
+  return indexes;
+}
+
+// Find a quote in the text: exact matches first, then a whitespace-, case- and
+// smart-quote-insensitive match. Among several matches, prefer the one whose
+// surrounding text matches the stored context, then the one nearest `near`.
+export function locateQuote(
+  text: string,
+  quote: string,
+  hint: { prefix?: string | null; suffix?: string | null; near?: number | null } = {}
+): Anchor | null {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+
+  let candidates: Anchor[] = allIndexesOf(text, trimmed).map(start => ({ start, end: start + trimmed.length }));
+
+  if (!candidates.length) {
+    const { normalized, map } = normalizeWithMap(text);
+    const needle = normalizeWithMap(trimmed).normalized;
+    candidates = allIndexesOf(normalized, needle).map(i => ({ start: map[i], end: map[i + needle.length - 1] + 1 }));
+  }
+
+  if (candidates.length <= 1) {
+    return candidates[0] || null;
+  }
+
+  const score = (anchor: Anchor) =>
+    (hint.prefix && text.slice(Math.max(0, anchor.start - hint.prefix.length), anchor.start) === hint.prefix ? 2 : 0) +
+    (hint.suffix && text.slice(anchor.end, anchor.end + hint.suffix.length) === hint.suffix ? 2 : 0);
+  const distance = (anchor: Anchor) => (hint.near != null ? Math.abs(anchor.start - hint.near) : anchor.start);
+
+  return candidates.sort((a, b) => score(b) - score(a) || distance(a) - distance(b))[0];
+}
+
+// Offsets, quote and surrounding context for an anchor in the text
+export const anchorColumns = (text: string, anchor: Anchor) => ({
+  start_offset: anchor.start,
+  end_offset: anchor.end,
+  quote: text.slice(anchor.start, anchor.end),
+  prefix_context: text.slice(Math.max(0, anchor.start - CONTEXT_CHARS), anchor.start),
+  suffix_context: text.slice(anchor.end, anchor.end + CONTEXT_CHARS)
+});
+
+interface DraftComment extends ReturnType<typeof anchorColumns> {
+  comment: string;
+  suggestion: string | null;
+  severity: CommentSeverity;
+  category: CommentCategory;
+}
+
+// Plain-text rendering stored as the review version the comments belong to
+const renderCommentsAsReview = (comments: DraftComment[]) =>
+  comments.length
+    ? comments.map(c =>
+        `- [${c.severity}/${c.category}] "${c.quote}" — ${c.comment}${c.suggestion ? ` Suggestion: "${c.suggestion}"` : ""}`
+      ).join("\n")
+    : "No line-level issues found.";
+
+// Generate a structured line-level review. Defaults to the line-notes profile.
+// Comments whose quote cannot be found in the chapter are dropped and counted.
+export async function generateInlineComments(options: ReviewOptions) {
+  const prompt = await buildReviewPrompt({ ...options, tone: options.tone ?? "line-notes" }, STRUCTURED_INSTRUCTION);
+
+  const response = await generate({
+    task: "review",
+    settings: prompt.settings,
+    model: prompt.model,
+    meter: prompt.meter,
+    messages: [
+      { role: "system", content: prompt.systemPrompt },
+      { role: "user", content: prompt.userPrompt }
+    ],
+    json: true,
+    temperature: 0.3
+  });
+
+  if (!response.content) {
+    throw new Error(`No content received from ${response.provider}`);
+  }
+  const out = JSON.parse(response.content);
+
+  const { rows: chapterRows } = await pool.query('SELECT text FROM chapters WHERE id = $1', [options.chapterId]);
+  const text: string = chapterRows[0].text;
+
+  const comments: DraftComment[] = [];
+  let dropped = 0;
+  for (const raw of Array.isArray(out.comments) ? out.comments : []) {
+    const anchor = typeof raw?.quote === "string" ? locateQuote(text, raw.quote) : null;
+    if (!anchor || typeof raw.comment !== "string") {
+      dropped++;
+      continue;
+    }
+    comments.push({
+      ...anchorColumns(text, anchor),
+      comment: raw.comment,
+      suggestion: typeof raw.suggestion === "string" ? raw.suggestion : null,
+      severity: COMMENT_SEVERITIES.includes(raw.severity) ? raw.severity as CommentSeverity : "moderate",
+      category: COMMENT_CATEGORIES.includes(raw.category) ? raw.category as CommentCategory : "other"
+    });
+  }
+  comments.sort((a, b) => a.start_offset - b.start_offset);
+
+  const reviewId = await saveReview(options.chapterId, prompt, renderCommentsAsReview(comments), "comments");
+
+  const saved = await withTx(async (client) => {
+    const rows = [];
+    for (const c of comments) {
+      const { rows: inserted } = await client.query(
+        `INSERT INTO chapter_comments
+           (chapter_id, review_id, quote, start_offset, end_offset, prefix_context, suffix_context,
+            comment, suggestion, severity, category, anchored_content_hash)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+         RETURNING *`,
+        [options.chapterId, reviewId, c.quote, c.start_offset, c.end_offset, c.prefix_context, c.suffix_context,
+         c.comment, c.suggestion, c.severity, c.category, prompt.contentHash]
+      );
+      rows.push(inserted[0]);
+    }
+    return rows;
+  });
+
+  return { reviewId, comments: saved, dropped };
+}
+
+// Re-anchor a chapter's comments if the text changed since they were anchored.
+// Comments whose quote no longer appears are marked orphaned (and can come back
+// if the text is restored).
+export async function reanchorComments(chapterId: string) {
+  const { rows: chapterRows } = await pool.query('SELECT text FROM chapters WHERE id = $1', [chapterId]);
+  if (!chapterRows.length) return;
+
+  const text: string = chapterRows[0].text;
+  const hash = contentHash(text);
+
+  const { rows } = await pool.query(
+    `SELECT id, quote, start_offset, end_offset, prefix_context, suffix_context
+     FROM chapter_comments
+     WHERE chapter_id = $1 AND anchored_content_hash IS DISTINCT FROM $2`,
+    [chapterId, hash]
+  );
+  if (!rows.length) return;
+
+  await withTx(async (client) => {
+    for (const comment of rows) {
+      const anchor = text.slice(comment.start_offset, comment.end_offset) === comment.quote
+        ? { start: comment.start_offset, end: comment.end_offset }
+        : locateQuote(text, comment.quote, {
+            prefix: comment.prefix_context,
+            suffix: comment.suffix_context,
+            near: comment.start_offset
+          });
+
+      if (anchor) {
+        const columns = anchorColumns(text, anchor);
+        await client.query(
+          `UPDATE chapter_comments
+           SET start_offset = $1, end_offset = $2, prefix_context = $3, suffix_context = $4,
+               anchor_status = 'anchored', anchored_content_hash = $5, updated_at = now()
+           WHERE id = $6`,
+          [columns.start_offset, columns.end_offset, columns.prefix_context, columns.suffix_context, hash, comment.id]
+        );
+      } else {
+        await client.query(
+          `UPDATE chapter_comments
+           SET anchor_status = 'orphaned', anchored_content_hash = $1, updated_at = now()
+           WHERE id = $2`,
+          [hash, comment.id]
+        );
+      }
+    }
+  });
+}
@@ -0,0 +1,261 @@
+import { pool } from "./db.js";
+import { GenerationError, generateReview, summarizeChapter, updateWikiForChapter } from "./generation.js";
+import { generatePanelReview } from "./panelReview.js";
+import { generateBookReview } from "./bookReview.js";
+import { QuotaExceededError } from "./usage.js";
+import { mentionsWikiEntities } from "./wikiEntities.js";
+import { checkChapterContinuity } from "./continuity.js";
+
+// Postgres-backed queue for AI generation. Jobs are claimed with
+// FOR UPDATE SKIP LOCKED so several workers can share the table safely.
+
+export type JobType = "summary" | "wiki_update" | "continuity_check" | "review" | "panel_review" | "book_review";
+
+export const JOB_TYPES: JobType[] = ["summary", "wiki_update", "continuity_check", "review", "panel_review", "book_review"];
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface Job {
+  id: number;
+  user_id: number;
+  book_id: string;
+  chapter_id: string | null;
+  job_type: JobType;
+  parent_job_id: number | null;
+  payload: any;
+  status: JobStatus;
+  progress: { done: number; total: number } | null;
+  result: any;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+}
+
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS) || 2000;
+const RETRY_BASE_MS = Number(process.env.JOB_RETRY_BASE_MS) || 10000;
+// Running jobs whose lock is older than this are assumed to belong to a dead worker
+const STALE_LOCK_MINUTES = Number(process.env.JOB_STALE_LOCK_MINUTES) || 15;
+// A live worker refreshes its job's lock this often, well inside the stale window
+const HEARTBEAT_MS = STALE_LOCK_MINUTES * 60000 / 3;
+
+// A follow-up job (with `parentJobId`) is queued once per parent and type; a
+// parent that runs again gets the job it queued the first time
+export async function enqueueJob(
+  job: {
+    userId: number;
+    bookId: string;
+    chapterId?: string | null;
+    type: JobType;
+    payload?: Record<string, unknown>;
+    maxAttempts?: number;
+    parentJobId?: number;
+  },
+  client: any = pool
+): Promise<Job> {
+  const { rows } = await client.query(
+    `INSERT INTO ai_jobs (user_id, book_id, chapter_id, job_type, payload, max_attempts, parent_job_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (parent_job_id, job_type) DO NOTHING
+     RETURNING *`,
+    [job.userId, job.bookId, job.chapterId ?? null, job.type, JSON.stringify(job.payload || {}), job.maxAttempts ?? 3, job.parentJobId ?? null]
+  );
+  if (rows.length) {
+    return rows[0];
+  }
+  const { rows: existing } = await client.query(
+    'SELECT * FROM ai_jobs WHERE parent_job_id = $1 AND job_type = $2',
+    [job.parentJobId, job.type]
+  );
+  return existing[0];
+}
+
+async function setProgress(jobId: number, done: number, total: number) {
+  await pool.query(
+    `UPDATE ai_jobs SET progress = $1, locked_at = now(), updated_at = now()
+     WHERE id = $2 AND status = 'running'`,
+    [JSON.stringify({ done, total }), jobId]
+  );
+}
+
+async function runJob(job: Job) {
+  switch (job.job_type) {
+    case "summary": {
+      const { summary } = await summarizeChapter(job.chapter_id!);
+      // Wiki updates make one model call per entity, so they get their own job
+      let wikiJobId: number | null = null;
+      if (mentionsWikiEntities(summary)) {
+        const wikiJob = await enqueueJob({
+          userId: job.user_id,
+          bookId: job.book_id,
+          chapterId: job.chapter_id,
+          type: "wiki_update",
+          parentJobId: job.id
+        });
+        wikiJobId = wikiJob.id;
+      }
+      const continuityJob = await enqueueJob({
+        userId: job.user_id,
+        bookId: job.book_id,
+        chapterId: job.chapter_id,
+        type: "continuity_check",
+        parentJobId: job.id
+      });
+      return { summary, wikiJobId, continuityJobId: continuityJob.id };
+    }
+    case "wiki_update":
+      return updateWikiForChapter(job.chapter_id!, (done, total) => setProgress(job.id, done, total));
+    case "continuity_check": {
+      const { issues, skipped, checkedAgainst } = await checkChapterContinuity(job.chapter_id!);
+      return { issueIds: issues.map((issue: any) => issue.id), skipped, checkedAgainst };
+    }
+    case "review": {
+      const { reviewId, context } = await generateReview({
+        userId: job.user_id,
+        bookId: job.book_id,
+        chapterId: job.chapter_id!,
+        ...job.payload
+      });
+      return { reviewId, context };
+    }
+    case "panel_review":
+      return generatePanelReview(
+        {
+          userId: job.user_id,
+          bookId: job.book_id,
+          chapterId: job.chapter_id!,
+          members: job.payload.members,
+          fullTextChapters: job.payload.fullTextChapters
+        },
+        (done, total) => setProgress(job.id, done, total)
+      );
+    case "book_review": {
+      const { bookReviewId, version } = await generateBookReview(
+        { userId: job.user_id, bookId: job.book_id },
+        (done, total) => setProgress(job.id, done, total)
+      );
+      return { bookReviewId, version };
+    }
+    default:
+      throw new GenerationError(`Unknown job type: ${job.job_type}`);
+  }
+}
+
+async function claimNextJob(): Promise<Job | null> {
+  const { rows } = await pool.query(
+    `UPDATE ai_jobs
+     SET status = 'running', attempts = attempts + 1, locked_at = now(),
+         started_at = COALESCE(started_at, now()), updated_at = now()
+     WHERE id = (
+       SELECT id FROM ai_jobs
+       WHERE status = 'queued' AND run_at <= now()
+       ORDER BY run_at, id
+       FOR UPDATE SKIP LOCKED
+       LIMIT 1
+     )
+     RETURNING *`
+  );
+  return rows[0] || null;
+}
+
+// A stale job's worker died mid-attempt (a crash, or running out of memory on
+// the job itself), so the attempt counts: the job is retried with the same
+// backoff as a failed attempt, or failed once it has used up its attempts
+async function releaseStaleJobs() {
+  await pool.query(
+    `UPDATE ai_jobs
+     SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+         last_error = 'The worker running the job stopped responding',
+         run_at = now() + make_interval(secs => $2 * power(2, attempts - 1)),
+         finished_at = CASE WHEN attempts >= max_attempts THEN now() END,
+         locked_at = NULL, updated_at = now()
+     WHERE status = 'running' AND locked_at < now() - make_interval(mins => $1)`,
+    [STALE_LOCK_MINUTES, RETRY_BASE_MS / 1000]
+  );
+}
+
+// Keep a running job's lock fresh so long generations aren't released to
+// another worker
+async function heartbeat(job: Job) {
+  await pool.query(
+    `UPDATE ai_jobs SET locked_at = now()
+     WHERE id = $1 AND status = 'running' AND attempts = $2`,
+    [job.id, job.attempts]
+  );
+}
+
+// The final updates only apply while this attempt still holds the job, so a
+// worker whose lock was released can't overwrite the attempt that replaced it
+async function processJob(job: Job) {
+  const timer = setInterval(() => {
+    heartbeat(job).catch(error => console.error(`Job ${job.id} heartbeat failed:`, error));
+  }, HEARTBEAT_MS);
+  timer.unref();
+
+  try {
+    const result = await runJob(job);
+    await pool.query(
+      `UPDATE ai_jobs
+       SET status = 'succeeded', result = $1, last_error = NULL, locked_at = NULL,
+           finished_at = now(), updated_at = now()
+       WHERE id = $2 AND status = 'running' AND attempts = $3`,
+      [JSON.stringify(result ?? null), job.id, job.attempts]
+    );
+  } catch (error) {
+    const message = (error as Error)?.message || String(error);
+    // Caller mistakes and exhausted quotas won't succeed on retry
+    const retryable = !(error instanceof GenerationError) && !(error instanceof QuotaExceededError) &&
+      job.attempts < job.max_attempts;
+    console.error(`Job ${job.id} (${job.job_type}) failed on attempt ${job.attempts}:`, error);
+
+    if (retryable) {
+      // Exponential backoff: base, 2x base, 4x base, ...
+      const delayMs = RETRY_BASE_MS * 2 ** (job.attempts - 1);
+      await pool.query(
+        `UPDATE ai_jobs
+         SET status = 'queued', last_error = $1, locked_at = NULL,
+             run_at = now() + make_interval(secs => $2), updated_at = now()
+         WHERE id = $3 AND status = 'running' AND attempts = $4`,
+        [message, delayMs / 1000, job.id, job.attempts]
+      );
+    } else {
+      await pool.query(
+        `UPDATE ai_jobs
+         SET status = 'failed', last_error = $1, locked_at = NULL,
+             finished_at = now(), updated_at = now()
+         WHERE id = $2 AND status = 'running' AND attempts = $3`,
+        [message, job.id, job.attempts]
+      );
+    }
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+// Poll for jobs and run them one at a time. Returns a function that stops the loop.
+export function startJobWorker() {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  const tick = async () => {
+    try {
+      await releaseStaleJobs();
+      let job: Job | null;
+      while (!stopped && (job = await claimNextJob())) {
+        await processJob(job);
+      }
+    } catch (error) {
+      console.error("Job worker error:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(tick, POLL_INTERVAL_MS);
+    }
+  };
+
+  timer = setTimeout(tick, 0);
+  console.log(`AI job worker polling every ${POLL_INTERVAL_MS}ms`);
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generate, generateStream, modelSpecError, parseModelSpec } from "./llm.js";
+
+test("modelSpecError accepts provider and bare specs", () => {
+  for (const spec of ["gpt-4o-mini", "openai:gpt-4o", "local:mistral:latest", "llama3.1:8b", "fake:fake-1"]) {
+    assert.equal(modelSpecError(spec), null, spec);
+  }
+});
+
+test("modelSpecError rejects unknown providers, missing models and blanks", () => {
+  assert.match(modelSpecError("openia:gpt-4o")!, /Unknown provider "openia"/);
+  assert.match(modelSpecError("openai:")!, /missing the model/);
+  assert.match(modelSpecError(":gpt-4o")!, /missing its provider/);
+  assert.match(modelSpecError("")!, /non-empty/);
+  assert.match(modelSpecError("gpt 4o")!, /without spaces/);
+});
+
+test("parseModelSpec splits provider prefixes", () => {
+  assert.deepEqual(parseModelSpec("anthropic:claude-3-5-haiku-latest"), { provider: "anthropic", model: "claude-3-5-haiku-latest" });
+  assert.deepEqual(parseModelSpec("local:mistral:latest"), { provider: "local", model: "mistral:latest" });
+  assert.deepEqual(parseModelSpec("fake:"), { provider: "fake", model: "fake-1" });
+});
+
+test("parseModelSpec sends bare and tagged specs to the default provider", () => {
+  const configured = process.env.LLM_PROVIDER;
+  process.env.LLM_PROVIDER = "local";
+  try {
+    assert.deepEqual(parseModelSpec("llama3.1:8b"), { provider: "local", model: "llama3.1:8b" });
+    assert.deepEqual(parseModelSpec("gpt-4o-mini"), { provider: "local", model: "gpt-4o-mini" });
+  } finally {
+    if (configured === undefined) delete process.env.LLM_PROVIDER;
+    else process.env.LLM_PROVIDER = configured;
+  }
+});
+
+test("the fake provider answers JSON and text tasks from the prompt", async () => {
+  const settings = { summary: "fake:fake-1" };
+  const messages = [{ role: "user" as const, content: "Mara opened the door. Mara saw the sea. The sea was grey." }];
+
+  const json = await generate({ task: "summary", settings, messages, json: true });
+  assert.equal(json.provider, "fake");
+  assert.equal(json.model, "fake-1");
+  assert.deepEqual(JSON.parse(json.content!).characters, ["Mara"]);
+
+  const text = await generate({ task: "summary", settings, messages });
+  assert.match(text.content!, /^\[summary\] Read 12 words of context\./);
+});
+
+test("the fake provider streams the same text it would return", async () => {
+  const options = {
+    task: "review" as const,
+    settings: { review: "fake:fake-1" },
+    messages: [{ role: "user" as const, content: "Mara opened the door. Mara saw the sea." }]
+  };
+
+  let streamed = "";
+  const result = await generateStream(options, delta => { streamed += delta; });
+  assert.ok(streamed.length > 0);
+  assert.equal(streamed, result.content);
+  assert.equal(result.content, (await generate(options)).content);
+});
+
+test("a stream stops when its signal is aborted", async () => {
+  const controller = new AbortController();
+  controller.abort();
+  await assert.rejects(generateStream({
+    task: "review",
+    settings: { review: "fake:fake-1" },
+    messages: [{ role: "user", content: "Mara opened the door." }]
+  }, () => {}, controller.signal), /aborted/);
+});
@@ -0,0 +1,603 @@
+import axios from "axios";
+import OpenAI from "openai";
+import { getOpenAI } from "./openai.js";
+import { UsageMeter, assertWithinQuota, recordUsage } from "./usage.js";
+import { estimateTokens } from "./contextAssembler.js";
+
+// ---- Types
+export type LLMTask = "summary" | "wiki" | "review" | "panel" | "rewrite" | "book" | "continuity";
+
+export const LLM_TASKS: LLMTask[] = ["summary", "wiki", "review", "panel", "rewrite", "book", "continuity"];
+
+export type ProviderName = "openai" | "anthropic" | "local" | "fake";
+
+export const PROVIDER_NAMES: ProviderName[] = ["openai", "anthropic", "local", "fake"];
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  task: LLMTask;
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the provider for a single JSON object as the response
+  json?: boolean;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  provider: ProviderName;
+  model: string;
+  usage: CompletionUsage | null;
+}
+
+// Receives each piece of text as the model produces it
+export type DeltaCallback = (delta: string) => void;
+
+export interface LLMProvider {
+  name: ProviderName;
+  defaultModel: string;
+  complete(req: CompletionRequest): Promise<CompletionResult>;
+  // Streams text deltas and resolves with the full result. Aborting the
+  // signal cancels the upstream request and rejects.
+  stream(req: CompletionRequest, onDelta: DeltaCallback, signal?: AbortSignal): Promise<CompletionResult>;
+}
+
+// Per-book model overrides, stored in books.model_settings.
+// Values are model specs: either a bare model name for the default provider
+// ("gpt-4o-mini") or "provider:model" ("anthropic:claude-3-5-haiku-latest",
+// "local:llama3.1:8b").
+export type ModelSettings = Partial<Record<LLMTask, string | null>>;
+
+// ---- OpenAI and OpenAI-compatible servers (Ollama, llama.cpp, vLLM)
+class OpenAIChatProvider implements LLMProvider {
+  constructor(
+    public name: ProviderName,
+    public defaultModel: string,
+    private getClient: () => OpenAI
+  ) {}
+
+  async complete(req: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.getClient().chat.completions.create({
+      model: req.model,
+      messages: req.messages,
+      temperature: req.temperature,
+      max_tokens: req.maxTokens,
+      ...(req.json ? { response_format: { type: "json_object" as const } } : {})
+    });
+
+    return {
+      content: response.choices[0]?.message?.content || "",
+      provider: this.name,
+      model: response.model || req.model,
+      usage: response.usage
+        ? { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens }
+        : null
+    };
+  }
+
+  async stream(req: CompletionRequest, onDelta: DeltaCallback, signal?: AbortSignal): Promise<CompletionResult> {
+    const stream = await this.getClient().chat.completions.create({
+      model: req.model,
+      messages: req.messages,
+      temperature: req.temperature,
+      max_tokens: req.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...(req.json ? { response_format: { type: "json_object" as const } } : {})
+    }, { signal });
+
+    let content = "";
+    let model = req.model;
+    let usage: CompletionUsage | null = null;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (chunk.model) model = chunk.model;
+      if (chunk.usage) {
+        usage = { promptTokens: chunk.usage.prompt_tokens, completionTokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    return { content, provider: this.name, model, usage };
+  }
+}
+
+let localClient: OpenAI | null = null;
+
+const getLocalClient = () => {
+  if (!localClient) {
+    localClient = new OpenAI({
+      baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+      // Most local servers ignore the key but the SDK requires one
+      apiKey: process.env.LOCAL_LLM_API_KEY || "local"
+    });
+  }
+  return localClient;
+};
+
+// ---- Anthropic Messages API
+class AnthropicProvider implements LLMProvider {
+  name: ProviderName = "anthropic";
+  defaultModel = "claude-3-5-haiku-latest";
+
+  private body(req: CompletionRequest) {
+    // Anthropic takes the system prompt separately and has no JSON mode,
+    // so the JSON instruction is appended to the system prompt instead
+    const system = req.messages.filter(m => m.role === "system").map(m => m.content).join("\n\n");
+    const messages = req.messages
+      .filter(m => m.role !== "system")
+      .map(m => ({ role: m.role, content: m.content }));
+
+    return {
+      model: req.model,
+      max_tokens: req.maxTokens ?? 4096,
+      temperature: req.temperature,
+      system: req.json ? `${system}\n\nRespond with a single valid JSON object and nothing else.` : system,
+      messages
+    };
+  }
+
+  private headers() {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error("ANTHROPIC_API_KEY environment variable is not defined");
+    }
+    return {
+      "x-api-key": process.env.ANTHROPIC_API_KEY,
+      "anthropic-version": "2023-06-01",
+      "content-type": "application/json"
+    };
+  }
+
+  async complete(req: CompletionRequest): Promise<CompletionResult> {
+    const { data } = await axios.post(
+      "https://api.anthropic.com/v1/messages",
+      this.body(req),
+      { headers: this.headers() }
+    );
+
+    const text = (data.content || [])
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("");
+
+    return {
+      content: req.json ? extractJsonObject(text) : text,
+      provider: this.name,
+      model: data.model || req.model,
+      usage: data.usage
+        ? { promptTokens: data.usage.input_tokens, completionTokens: data.usage.output_tokens }
+        : null
+    };
+  }
+
+  async stream(req: CompletionRequest, onDelta: DeltaCallback, signal?: AbortSignal): Promise<CompletionResult> {
+    const response = await axios.post(
+      "https://api.anthropic.com/v1/messages",
+      { ...this.body(req), stream: true },
+      { headers: this.headers(), responseType: "stream", signal }
+    );
+
+    let content = "";
+    let model = req.model;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let buffered = "";
+
+    // Server-sent events: one JSON payload per "data:" line
+    for await (const chunk of response.data) {
+      buffered += chunk.toString();
+      const lines = buffered.split("\n");
+      buffered = lines.pop() || "";
+
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        const event = JSON.parse(line.slice(5).trim());
+
+        if (event.type === "message_start") {
+          model = event.message?.model || model;
+          promptTokens = event.message?.usage?.input_tokens || 0;
+        } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+          content += event.delta.text;
+          onDelta(event.delta.text);
+        } else if (event.type === "message_delta") {
+          completionTokens = event.usage?.output_tokens || completionTokens;
+        } else if (event.type === "error") {
+          throw new Error(event.error?.message || "Anthropic stream error");
+        }
+      }
+    }
+
+    return {
+      content: req.json ? extractJsonObject(content) : content,
+      provider: this.name,
+      model,
+      usage: { promptTokens, completionTokens }
+    };
+  }
+}
+
+// Strip code fences or chatter around a JSON object in a model reply
+function extractJsonObject(text: string): string {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
+
+// ---- Deterministic offline provider
+// Produces stable, plausible output derived only from the prompt so the API
+// can be exercised end to end without network access or API keys.
+type FakeResponder = (lastUserMessage: string, req: CompletionRequest) => unknown;
+
+const FAKE_STOPWORDS = new Set([
+  "The", "A", "An", "And", "But", "Or", "If", "When", "Then", "He", "She", "It", "They", "We", "I",
+  "You", "His", "Her", "Their", "This", "That", "There", "What", "Why", "How", "In", "On", "At",
+  "Of", "To", "For", "With", "As", "By", "From", "Chapter", "Book", "Return", "JSON", "Create",
+  "Update", "NEW", "FIRST", "CHAPTER"
+]);
+
+const fakeSentences = (text: string) =>
+  text.replace(/\s+/g, " ").split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(s => s.length > 0);
+
+const fakeNames = (text: string, limit: number) => {
+  const counts = new Map<string, number>();
+  for (const match of text.matchAll(/\b[A-Z][a-z]{2,}\b/g)) {
+    if (FAKE_STOPWORDS.has(match[0])) continue;
+    counts.set(match[0], (counts.get(match[0]) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([name]) => name);
+};
+
+const fakeExcerpt = (text: string, words: number) => text.trim().split(/\s+/).slice(0, words).join(" ");
+
+const FAKE_RESPONDERS: Partial<Record<LLMTask, FakeResponder>> = {
+  summary: (prompt) => {
+    const sentences = fakeSentences(prompt);
+    // Places: capitalized words after "in", "at" or "to"
+    const places = [...new Set([...prompt.matchAll(/\b(?:in|at|to) (?:the )?([A-Z][a-z]{2,})\b/g)].map(m => m[1]))]
+      .filter(name => !FAKE_STOPWORDS.has(name));
+    const characters = fakeNames(prompt, 6 + places.length).filter(name => !places.includes(name)).slice(0, 6);
+    return {
+      pov: null,
+      characters,
+      locations: places.slice(0, 3),
+      organizations: [],
+      items: [],
+      concepts: [],
+      // The two most mentioned characters are allies
+      relationships: characters.length > 1
+        ? [{ a: characters[0], b: characters[1], type: "alliance", change: "started", description: `${characters[0]} and ${characters[1]} appear together.` }]
+        : [],
+      beats: sentences.slice(-6).map(s => fakeExcerpt(s, 16)),
+      spoilers_ok: false,
+      summary: fakeExcerpt(prompt, 80)
+    };
+  },
+  wiki: (prompt) => {
+    // Name resolution: the first candidate whose name shares the name's opening letters
+    const resolving = prompt.match(/^NAME TO RESOLVE: (.+)$/m)?.[1]?.trim();
+    if (resolving) {
+      const stem = resolving.slice(0, 3).toLowerCase();
+      const candidate = [...prompt.matchAll(/^- id (\d+): (.+)$/gm)].find(m => m[2].toLowerCase().includes(stem));
+      return { match: candidate ? Number(candidate[1]) : null, reason: candidate ? "Similar name." : "No similar name." };
+    }
+    const name = prompt.match(/page for \w+: (.+)/)?.[1]?.trim() || "Unknown";
+    const existing = prompt.includes("EXISTING WIKI CONTENT:");
+    return {
+      content: `# ${name}\n\n## Chapter Appearances\n\n- ${fakeExcerpt(prompt.split("Chapter Summary:")[1] || "", 40)}`,
+      summary: `${name} appears in the story.`,
+      hasChanges: !existing,
+      changeSummary: existing ? "No changes" : `Created page for ${name}`,
+      hasContradictions: false,
+      contradictions: null
+    };
+  },
+  // Structured line-level review: quote a few sentences of the new chapter
+  review: (prompt) => {
+    const chapter = prompt.split(/^NEW CHAPTER: .*$/m)[1]?.split(/^Return JSON only/m)[0] || "";
+    const severities = ["minor", "moderate", "major"];
+    const categories = ["grammar", "pacing", "dialogue"];
+    return {
+      comments: fakeSentences(chapter).filter((_, i) => i % 4 === 0).slice(0, 3).map((sentence, index) => ({
+        quote: fakeExcerpt(sentence, 8),
+        comment: `Consider tightening this line (${index + 1}).`,
+        suggestion: null,
+        severity: severities[index],
+        category: categories[index]
+      }))
+    };
+  },
+  // Rewrite suggestions: drop filler words from sentences of the new chapter
+  rewrite: (prompt) => {
+    const chapter = prompt.split(/^NEW CHAPTER: .*$/m)[1]?.split(/^Return JSON only/m)[0] || "";
+    const filler = /\b(very|really|just|suddenly|quite) /gi;
+    return {
+      suggestions: fakeSentences(chapter)
+        .filter(sentence => sentence.search(filler) !== -1)
+        .slice(0, 5)
+        .map(sentence => ({
+          original: sentence,
+          replacement: sentence.replace(filler, ""),
+          reason: "Cut filler words."
+        }))
+    };
+  },
+  panel: (prompt) => {
+    const reviewers = [...prompt.matchAll(/^## Reviewer: (.+)$/gm)].map(m => m[1].trim());
+    return {
+      summary: `${reviewers.length} reviewers read the chapter.`,
+      agreements: reviewers.length > 1 ? [`${reviewers.join(", ")} each reacted to the chapter as a whole.`] : [],
+      disagreements: [],
+      top_issues: reviewers.slice(0, 3).map((reviewer, index) => ({
+        issue: `Note ${index + 1} from ${reviewer}`,
+        why: fakeExcerpt(prompt.split(`## Reviewer: ${reviewer}`)[1] || "", 20),
+        suggestion: "Revise the passage the reviewer points to.",
+        raised_by: [reviewer]
+      }))
+    };
+  },
+  // Continuity check: eye colors in the new chapter that differ from earlier ones
+  continuity: (prompt) => {
+    const [established, chapter = ""] = prompt.split(/^NEW CHAPTER: .*$/m);
+    const colors = (text: string) => [...text.matchAll(/\b(blue|green|brown|grey|gray|hazel|black) eyes\b/gi)];
+    const known = colors(established)[0]?.[1]?.toLowerCase();
+    return {
+      issues: colors(chapter.split(/^Return JSON only/m)[0])
+        .filter(m => known && m[1].toLowerCase() !== known)
+        .slice(0, 3)
+        .map(m => ({
+          category: "appearance",
+          severity: "moderate",
+          quote: m[0],
+          description: `Eye color given as ${m[1].toLowerCase()}, earlier ${known}.`,
+          established_fact: `${known} eyes`,
+          wiki_page: null,
+          source_chapter: null
+        }))
+    };
+  },
+  // Book-level report: split the chapters listed in the prompt into three acts
+  book: (prompt) => {
+    const chapters = [...prompt.matchAll(/^# (\S+)/gm)].map(m => m[1]);
+    const parts = [...prompt.matchAll(/^## Part: (.+)$/gm)].map(m => m[1].trim());
+    const names = fakeNames(prompt.split(/^WIKI:$/m)[0], 3);
+    const third = Math.ceil(chapters.length / 3) || 1;
+    const acts = [0, 1, 2]
+      .map(i => chapters.slice(i * third, (i + 1) * third))
+      .filter(ids => ids.length);
+    return {
+      overview: `A draft of ${chapters.length} chapters${parts.length ? ` in ${parts.length} parts` : ""}.`,
+      arc_structure: {
+        assessment: "The story moves through setup, complication and resolution.",
+        acts: acts.map((ids, i) => ({ label: `Act ${i + 1}`, chapters: ids, summary: `Chapters ${ids[0]} to ${ids[ids.length - 1]}.` }))
+      },
+      act_breaks: acts.slice(0, -1).map(ids => ({
+        after_chapter: ids[ids.length - 1],
+        assessment: "The turn lands here.",
+        suggestion: "Sharpen the turning point."
+      })),
+      pacing_by_part: parts.map(part => ({ part, assessment: "steady", notes: `${part} keeps an even pace.` })),
+      dangling_threads: [],
+      stalled_character_arcs: names.slice(0, 1).map(character => ({
+        character,
+        last_development_in: chapters[0] || null,
+        issue: `${character} changes little after the opening.`,
+        suggestion: `Give ${character} a decision that costs something.`
+      })),
+      recommendations: ["Tighten the middle act."]
+    };
+  }
+};
+
+class FakeProvider implements LLMProvider {
+  name: ProviderName = "fake";
+  defaultModel = "fake-1";
+
+  async complete(req: CompletionRequest): Promise<CompletionResult> {
+    const lastUser = [...req.messages].reverse().find(m => m.role === "user")?.content || "";
+    const responder = FAKE_RESPONDERS[req.task];
+
+    let content: string;
+    if (req.json) {
+      content = JSON.stringify(responder ? responder(lastUser, req) : {});
+    } else {
+      const sentences = fakeSentences(lastUser);
+      content = [
+        `[${req.task}] Read ${lastUser.trim().split(/\s+/).length} words of context.`,
+        sentences.length ? `The passage closes with: "${fakeExcerpt(sentences[sentences.length - 1], 24)}"` : ""
+      ].filter(Boolean).join("\n\n");
+    }
+
+    const promptText = req.messages.map(m => m.content).join("\n");
+    return {
+      content,
+      provider: this.name,
+      model: req.model,
+      usage: {
+        promptTokens: Math.ceil(promptText.length / 4),
+        completionTokens: Math.ceil(content.length / 4)
+      }
+    };
+  }
+
+  async stream(req: CompletionRequest, onDelta: DeltaCallback, signal?: AbortSignal): Promise<CompletionResult> {
+    const result = await this.complete(req);
+    // Emit word by word, yielding to the event loop so cancellation can land
+    for (const piece of result.content.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) {
+        throw new Error("Stream aborted");
+      }
+      onDelta(piece);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    return result;
+  }
+}
+
+// ---- Registry and model resolution
+const providers: Record<ProviderName, LLMProvider> = {
+  openai: new OpenAIChatProvider("openai", "gpt-4o-mini", getOpenAI),
+  anthropic: new AnthropicProvider(),
+  local: new OpenAIChatProvider("local", "llama3.1", getLocalClient),
+  fake: new FakeProvider()
+};
+
+const isProviderName = (value: string): value is ProviderName =>
+  (PROVIDER_NAMES as string[]).includes(value);
+
+export const getDefaultProviderName = (): ProviderName => {
+  const configured = process.env.LLM_PROVIDER || "openai";
+  if (!isProviderName(configured)) {
+    throw new Error(`Unknown LLM_PROVIDER "${configured}". Expected one of: ${PROVIDER_NAMES.join(", ")}`);
+  }
+  return configured;
+};
+
+// Split a model spec into provider and model. A bare spec (or one whose
+// prefix is not a provider name, e.g. "llama3.1:8b") uses the default provider.
+export const parseModelSpec = (spec: string): { provider: ProviderName; model: string } => {
+  const separator = spec.indexOf(":");
+  if (separator > 0) {
+    const prefix = spec.slice(0, separator);
+    if (isProviderName(prefix)) {
+      const model = spec.slice(separator + 1);
+      return { provider: prefix, model: model || providers[prefix].defaultModel };
+    }
+  }
+  return { provider: getDefaultProviderName(), model: spec };
+};
+
+// Why a user-supplied model spec can't be used, or null when it can. The model
+// name itself is not checked against the provider. A prefix that is a plain
+// word (no digits or dots) must be a provider name, so "openia:gpt-4o" is
+// caught while tagged bare specs like "llama3.1:8b" still work; other tagged
+// models go through a provider, e.g. "local:mistral:latest".
+export const modelSpecError = (spec: string): string | null => {
+  if (!spec.trim() || /\s/.test(spec)) {
+    return "Model spec must be a non-empty name without spaces";
+  }
+  const separator = spec.indexOf(":");
+  if (separator === 0) {
+    return "Model spec is missing its provider before \":\"";
+  }
+  if (separator > 0) {
+    const prefix = spec.slice(0, separator);
+    if (isProviderName(prefix)) {
+      return spec.slice(separator + 1) ? null : `Model spec "${spec}" is missing the model after "${prefix}:"`;
+    }
+    if (/^[a-z][a-z_-]*$/i.test(prefix)) {
+      return `Unknown provider "${prefix}". Expected one of: ${PROVIDER_NAMES.join(", ")}`;
+    }
+  }
+  return null;
+};
+
+// Resolution order: book setting for the task, LLM_<TASK>_MODEL, LLM_MODEL,
+// then the default provider's own default model
+export const resolveModel = (task: LLMTask, settings?: ModelSettings | null) => {
+  const spec =
+    settings?.[task] ||
+    process.env[`LLM_${task.toUpperCase()}_MODEL`] ||
+    process.env.LLM_MODEL;
+
+  if (spec) {
+    return parseModelSpec(spec);
+  }
+
+  const provider = getDefaultProviderName();
+  return { provider, model: providers[provider].defaultModel };
+};
+
+// Run a completion for a task with the model resolved from the book's settings
+export interface GenerateOptions {
+  task: LLMTask;
+  settings?: ModelSettings | null;
+  // A model spec that wins over the task's resolution (a reviewer profile's own model)
+  model?: string | null;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+  // Bill the call to this book's owner: checked against their quota first, then recorded
+  meter?: UsageMeter;
+}
+
+const toRequest = (options: GenerateOptions) => {
+  const { provider, model } = options.model ? parseModelSpec(options.model) : resolveModel(options.task, options.settings);
+  const request: CompletionRequest = {
+    task: options.task,
+    model,
+    messages: options.messages,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+    json: options.json
+  };
+  return { provider: providers[provider], request };
+};
+
+export async function generate(options: GenerateOptions): Promise<CompletionResult> {
+  const { provider, request } = toRequest(options);
+  if (options.meter) {
+    await assertWithinQuota(options.meter);
+  }
+  const result = await provider.complete(request);
+  if (options.meter) {
+    await recordUsage(options.meter, { task: options.task, ...result });
+  }
+  return result;
+}
+
+// Streaming variant of generate(); onDelta receives text as it arrives
+export async function generateStream(
+  options: GenerateOptions,
+  onDelta: DeltaCallback,
+  signal?: AbortSignal
+): Promise<CompletionResult> {
+  const { provider, request } = toRequest(options);
+  if (options.meter) {
+    await assertWithinQuota(options.meter);
+  }
+  let streamed = "";
+  let result: CompletionResult;
+  try {
+    result = await provider.stream(request, (delta) => {
+      streamed += delta;
+      onDelta(delta);
+    }, signal);
+  } catch (error) {
+    // A cancelled stream was still billed by the provider for the prompt and
+    // the text produced so far; record an estimate since no usage came back
+    if (signal?.aborted && options.meter) {
+      await recordUsage(options.meter, {
+        task: options.task,
+        provider: provider.name,
+        model: request.model,
+        usage: {
+          promptTokens: estimateTokens(request.messages.map(m => m.content).join("\n")),
+          completionTokens: estimateTokens(streamed)
+        }
+      });
+    }
+    throw error;
+  }
+  if (options.meter) {
+    await recordUsage(options.meter, { task: options.task, ...result });
+  }
+  return result;
+}
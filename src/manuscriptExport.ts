@@ -0,0 +1,448 @@
+import JSZip from "jszip";
+import {
+  AlignmentType,
+  Document,
+  Header,
+  HeadingLevel,
+  Packer,
+  PageNumber,
+  Paragraph,
+  TextRun
+} from "docx";
+import { pool } from "./db.js";
+import { getReadingOrder } from "./readingOrder.js";
+
+// Assembles a whole book (title page, parts, chapters in reading order and an
+// optional wiki appendix) and renders it as DOCX, EPUB, Markdown or plain text.
+
+export type ExportFormat = "docx" | "epub" | "md" | "txt";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Standard (Shunn) manuscript format for submissions; DOCX and plain text only
+  manuscript: boolean;
+}
+
+export type ExportSection =
+  | { kind: "part"; title: string }
+  | { kind: "chapter"; id: string; title: string; text: string };
+
+export interface ExportBook {
+  id: string;
+  title: string;
+  description: string | null;
+  author: { name: string; email: string | null };
+  wordCount: number;
+  sections: ExportSection[];
+  wikiPages: { page_name: string; page_type: string; content: string | null }[];
+}
+
+export async function loadBookForExport(
+  bookId: string,
+  options: { includeWiki: boolean; authorName?: string }
+): Promise<ExportBook> {
+  const { rows: bookRows } = await pool.query(
+    `SELECT b.id, b.title, b.description, u.name, u.username, u.email
+     FROM books b
+     JOIN users u ON u.id = b.user_id
+     WHERE b.id = $1`,
+    [bookId]
+  );
+  const book = bookRows[0];
+
+  const { rows: partRows } = await pool.query(
+    'SELECT id, name FROM book_parts WHERE book_id = $1',
+    [bookId]
+  );
+  const partNames = new Map<number, string>(partRows.map((p: any) => [p.id, p.name]));
+
+  const { rows: chapterRows } = await pool.query(
+    'SELECT id, title, text, part_id FROM chapters WHERE book_id = $1',
+    [bookId]
+  );
+  const chaptersById = new Map<string, any>(chapterRows.map((c: any) => [c.id, c]));
+
+  // A part heading is emitted whenever the reading order enters a different part
+  const sections: ExportSection[] = [];
+  let currentPartId: number | null = null;
+  let chapterNumber = 0;
+  let wordCount = 0;
+  for (const chapterId of await getReadingOrder(bookId)) {
+    const chapter = chaptersById.get(chapterId);
+    if (chapter.part_id !== null && chapter.part_id !== currentPartId && partNames.has(chapter.part_id)) {
+      sections.push({ kind: "part", title: partNames.get(chapter.part_id)! });
+    }
+    currentPartId = chapter.part_id;
+    chapterNumber++;
+    wordCount += countWords(chapter.text);
+    sections.push({
+      kind: "chapter",
+      id: chapter.id,
+      title: chapter.title || `Chapter ${chapterNumber}`,
+      text: chapter.text
+    });
+  }
+
+  let wikiPages: ExportBook["wikiPages"] = [];
+  if (options.includeWiki) {
+    const { rows } = await pool.query(
+      `SELECT page_name, page_type, content
+       FROM wiki_pages
+       WHERE book_id = $1
+       ORDER BY page_type, page_name`,
+      [bookId]
+    );
+    wikiPages = rows;
+  }
+
+  return {
+    id: book.id,
+    title: book.title,
+    description: book.description,
+    author: {
+      name: options.authorName || book.name || book.username || book.email,
+      email: book.email
+    },
+    wordCount,
+    sections,
+    wikiPages
+  };
+}
+
+const countWords = (text: string) => (text.match(/[^\s]+/g) || []).length;
+
+// Paragraphs are separated by blank lines or single line breaks
+const paragraphsOf = (text: string) =>
+  text.split(/\n/).map(p => p.trim()).filter(p => p.length > 0);
+
+// Common scene break markers: "***", "* * *", "#", "---", "~~~"
+const isSceneBreak = (paragraph: string) => /^([*#~-]\s*){1,5}$/.test(paragraph);
+
+// Shunn: round to the nearest 100 words, or the nearest 1,000 for novel-length work
+function approximateWordCount(words: number) {
+  const step = words >= 25000 ? 1000 : 100;
+  return Math.max(step, Math.round(words / step) * step).toLocaleString("en-US");
+}
+
+// Surname for the running header ("Jane Q. Writer" -> "Writer")
+const surnameOf = (name: string) => name.trim().split(/\s+/).pop() || name;
+
+// First significant word of the title, for the running header
+function titleKeyword(title: string) {
+  const words = title.split(/\s+/).filter(w => !/^(a|an|the)$/i.test(w));
+  return (words[0] || title).replace(/[^\p{L}\p{N}'-]/gu, "").toUpperCase();
+}
+
+export function renderMarkdown(book: ExportBook): string {
+  const out: string[] = [`# ${book.title}`, "", `by ${book.author.name}`, ""];
+  if (book.description) {
+    out.push(`> ${book.description.replace(/\n/g, "\n> ")}`, "");
+  }
+
+  for (const section of book.sections) {
+    if (section.kind === "part") {
+      out.push(`# ${section.title}`, "");
+    } else {
+      out.push(`## ${section.title}`, "", section.text.trim(), "");
+    }
+  }
+
+  if (book.wikiPages.length) {
+    out.push("# Appendix: Story Wiki", "");
+    for (const page of book.wikiPages) {
+      out.push(`## ${page.page_name} (${page.page_type})`, "", (page.content || "").trim(), "");
+    }
+  }
+
+  return out.join("\n");
+}
+
+export function renderText(book: ExportBook, manuscript: boolean): string {
+  const out: string[] = [];
+
+  if (manuscript) {
+    out.push(
+      book.author.name,
+      ...(book.author.email ? [book.author.email] : []),
+      `About ${approximateWordCount(book.wordCount)} words`,
+      "", "", "",
+      book.title.toUpperCase(),
+      `by ${book.author.name}`,
+      "", ""
+    );
+  } else {
+    out.push(book.title.toUpperCase(), `by ${book.author.name}`, "");
+    if (book.description) {
+      out.push(book.description, "");
+    }
+    out.push("");
+  }
+
+  for (const section of book.sections) {
+    if (section.kind === "part") {
+      out.push(section.title.toUpperCase(), "", "");
+      continue;
+    }
+    out.push(section.title, "");
+    for (const paragraph of paragraphsOf(section.text)) {
+      out.push(manuscript && isSceneBreak(paragraph) ? "#" : paragraph, "");
+    }
+    out.push("");
+  }
+
+  if (manuscript) {
+    out.push("END");
+  } else if (book.wikiPages.length) {
+    out.push("APPENDIX: STORY WIKI", "");
+    for (const page of book.wikiPages) {
+      out.push(`${page.page_name} (${page.page_type})`, "", (page.content || "").trim(), "", "");
+    }
+  }
+
+  return out.join("\n");
+}
+
+export async function renderDocx(book: ExportBook, manuscript: boolean): Promise<Buffer> {
+  if (manuscript) {
+    return renderShunnDocx(book);
+  }
+
+  const children: Paragraph[] = [
+    new Paragraph({ text: book.title, heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER }),
+    new Paragraph({ text: `by ${book.author.name}`, alignment: AlignmentType.CENTER })
+  ];
+  if (book.description) {
+    children.push(new Paragraph({ children: [new TextRun({ text: book.description, italics: true })], alignment: AlignmentType.CENTER }));
+  }
+
+  for (const section of book.sections) {
+    if (section.kind === "part") {
+      children.push(new Paragraph({ text: section.title, heading: HeadingLevel.HEADING_1, pageBreakBefore: true }));
+      continue;
+    }
+    children.push(new Paragraph({ text: section.title, heading: HeadingLevel.HEADING_2, pageBreakBefore: true }));
+    for (const paragraph of paragraphsOf(section.text)) {
+      children.push(isSceneBreak(paragraph)
+        ? new Paragraph({ text: paragraph, alignment: AlignmentType.CENTER })
+        : new Paragraph({ text: paragraph, indent: { firstLine: 360 } }));
+    }
+  }
+
+  if (book.wikiPages.length) {
+    children.push(new Paragraph({ text: "Appendix: Story Wiki", heading: HeadingLevel.HEADING_1, pageBreakBefore: true }));
+    for (const page of book.wikiPages) {
+      children.push(new Paragraph({ text: `${page.page_name} (${page.page_type})`, heading: HeadingLevel.HEADING_2 }));
+      for (const paragraph of paragraphsOf(page.content || "")) {
+        children.push(new Paragraph({ text: paragraph }));
+      }
+    }
+  }
+
+  const doc = new Document({ title: book.title, creator: book.author.name, sections: [{ children }] });
+  return Packer.toBuffer(doc);
+}
+
+// Shunn standard manuscript format: 12pt Courier, double spaced, 1" margins,
+// contact block and word count on page one, title a third of the way down,
+// "Surname / KEYWORD / page" header from page two, chapters on new pages,
+// "#" for scene breaks and END at the close.
+async function renderShunnDocx(book: ExportBook): Promise<Buffer> {
+  const font = "Courier New";
+  const size = 24; // half-points
+  const run = (text: string, extra: Record<string, unknown> = {}) => new TextRun({ text, font, size, ...extra });
+  const doubleSpaced = { line: 480 };
+  const blank = () => new Paragraph({ children: [run("")], spacing: doubleSpaced });
+
+  const children: Paragraph[] = [
+    new Paragraph({
+      children: [run(book.author.name), ...(book.author.email ? [run(book.author.email, { break: 1 })] : [])]
+    }),
+    new Paragraph({
+      children: [run(`About ${approximateWordCount(book.wordCount)} words`)],
+      alignment: AlignmentType.RIGHT
+    })
+  ];
+  // Roughly a third of the way down the first page
+  for (let i = 0; i < 8; i++) children.push(blank());
+  children.push(
+    new Paragraph({ children: [run(book.title.toUpperCase())], alignment: AlignmentType.CENTER, spacing: doubleSpaced }),
+    new Paragraph({ children: [run(`by ${book.author.name}`)], alignment: AlignmentType.CENTER, spacing: doubleSpaced })
+  );
+
+  let first = true;
+  for (const section of book.sections) {
+    children.push(new Paragraph({
+      children: [run(section.kind === "part" ? section.title.toUpperCase() : section.title)],
+      alignment: AlignmentType.CENTER,
+      spacing: { ...doubleSpaced, before: 2880 },
+      // The first chapter follows the title directly, as in a short story manuscript
+      pageBreakBefore: !first
+    }));
+    first = false;
+    if (section.kind === "part") continue;
+
+    children.push(blank());
+    for (const paragraph of paragraphsOf(section.text)) {
+      children.push(isSceneBreak(paragraph)
+        ? new Paragraph({ children: [run("#")], alignment: AlignmentType.CENTER, spacing: doubleSpaced })
+        : new Paragraph({ children: [run(paragraph)], indent: { firstLine: 720 }, spacing: doubleSpaced }));
+    }
+  }
+  children.push(new Paragraph({ children: [run("END")], alignment: AlignmentType.CENTER, spacing: doubleSpaced }));
+
+  const header = new Header({
+    children: [new Paragraph({
+      alignment: AlignmentType.RIGHT,
+      children: [
+        run(`${surnameOf(book.author.name)} / ${titleKeyword(book.title)} / `),
+        new TextRun({ children: [PageNumber.CURRENT], font, size })
+      ]
+    })]
+  });
+
+  const inch = 1440;
+  const doc = new Document({
+    title: book.title,
+    creator: book.author.name,
+    sections: [{
+      properties: {
+        titlePage: true,
+        page: { margin: { top: inch, right: inch, bottom: inch, left: inch } }
+      },
+      headers: { default: header, first: new Header({ children: [] }) },
+      children
+    }]
+  });
+  return Packer.toBuffer(doc);
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const xhtmlPage = (title: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>${escapeXml(title)}</title><link rel="stylesheet" type="text/css" href="style.css"/></head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const xhtmlParagraphs = (text: string) =>
+  paragraphsOf(text)
+    .map(p => isSceneBreak(p) ? `<p class="break">* * *</p>` : `<p>${escapeXml(p)}</p>`)
+    .join("\n");
+
+const EPUB_CSS = `body { font-family: serif; line-height: 1.5; }
+h1, h2 { text-align: center; margin: 2em 0 1em; }
+p { margin: 0; text-indent: 1.5em; }
+p.break { text-align: center; text-indent: 0; margin: 1em 0; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page p { text-indent: 0; }
+`;
+
+// EPUB 3 with a nav document; one XHTML file per part heading, chapter and appendix
+export async function renderEpub(book: ExportBook): Promise<Buffer> {
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+  zip.file("META-INF/container.xml", `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`);
+
+  const files: { id: string; href: string; title: string; nav: boolean }[] = [];
+  const addPage = (id: string, title: string, body: string, nav = true) => {
+    const href = `${id}.xhtml`;
+    zip.file(`OEBPS/${href}`, xhtmlPage(title, body));
+    files.push({ id, href, title, nav });
+  };
+
+  addPage("title", book.title, `<div class="title-page">
+<h1>${escapeXml(book.title)}</h1>
+<p>by ${escapeXml(book.author.name)}</p>
+${book.description ? `<p><em>${escapeXml(book.description)}</em></p>` : ""}
+</div>`, false);
+
+  book.sections.forEach((section, index) => {
+    if (section.kind === "part") {
+      addPage(`part-${index + 1}`, section.title, `<h1>${escapeXml(section.title)}</h1>`);
+    } else {
+      addPage(`chapter-${index + 1}`, section.title, `<h2>${escapeXml(section.title)}</h2>\n${xhtmlParagraphs(section.text)}`);
+    }
+  });
+
+  if (book.wikiPages.length) {
+    addPage("appendix", "Appendix: Story Wiki", [
+      "<h1>Appendix: Story Wiki</h1>",
+      ...book.wikiPages.map(page =>
+        `<h2>${escapeXml(page.page_name)} (${escapeXml(page.page_type)})</h2>\n${xhtmlParagraphs(page.content || "")}`)
+    ].join("\n"));
+  }
+
+  zip.file("OEBPS/style.css", EPUB_CSS);
+  zip.file("OEBPS/nav.xhtml", xhtmlPage("Contents", `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${files.filter(f => f.nav).map(f => `<li><a href="${f.href}">${escapeXml(f.title)}</a></li>`).join("\n")}
+</ol>
+</nav>`));
+
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  zip.file("OEBPS/content.opf", `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:ai-beta-reader:${escapeXml(book.id)}</dc:identifier>
+    <dc:title>${escapeXml(book.title)}</dc:title>
+    <dc:creator>${escapeXml(book.author.name)}</dc:creator>
+    <dc:language>en</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+${files.map(f => `    <item id="${f.id}" href="${f.href}" media-type="application/xhtml+xml"/>`).join("\n")}
+  </manifest>
+  <spine>
+${files.map(f => `    <itemref idref="${f.id}"/>`).join("\n")}
+  </spine>
+</package>
+`);
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE", mimeType: "application/epub+zip" });
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  epub: "application/epub+zip",
+  md: "text/markdown; charset=utf-8",
+  txt: "text/plain; charset=utf-8"
+};
+
+export async function renderExport(book: ExportBook, options: ExportOptions) {
+  let body: Buffer;
+  switch (options.format) {
+    case "docx":
+      body = await renderDocx(book, options.manuscript);
+      break;
+    case "epub":
+      body = await renderEpub(book);
+      break;
+    case "md":
+      body = Buffer.from(renderMarkdown(book), "utf8");
+      break;
+    case "txt":
+      body = Buffer.from(renderText(book, options.manuscript), "utf8");
+      break;
+  }
+  return { body, contentType: CONTENT_TYPES[options.format] };
+}
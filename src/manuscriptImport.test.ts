@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseManuscript } from "./manuscriptImport.js";
+
+const txt = (text: string) => Buffer.from(text, "utf8");
+
+test("plain text splits on chapter and part headings by default", async () => {
+  const manuscript = await parseManuscript(
+    txt("Part One\n\nChapter 1\n\nIt began.\n\nChapter 2: After\n\nIt went on."),
+    "txt",
+    { splitOn: "headings" }
+  );
+  assert.deepEqual(manuscript.parts, [{ title: "Part One" }]);
+  assert.deepEqual(
+    manuscript.chapters.map(c => [c.title, c.text, c.partIndex]),
+    [["Chapter 1", "It began.", 0], ["Chapter 2: After", "It went on.", 0]]
+  );
+});
+
+test("numbered and roman heading styles match bare numerals only", async () => {
+  const numbered = await parseManuscript(
+    txt("1.\n\nShe counted to 3.\n\n2\n\nThen 4."),
+    "txt",
+    { splitOn: "headings", chapterStyle: "numbered" }
+  );
+  assert.deepEqual(numbered.chapters.map(c => c.title), ["1.", "2"]);
+
+  const roman = await parseManuscript(
+    txt("I\n\nI said so.\n\nII\n\nMix it."),
+    "txt",
+    { splitOn: "headings", chapterStyle: "roman" }
+  );
+  assert.deepEqual(roman.chapters.map(c => [c.title, c.text]), [["I", "I said so."], ["II", "Mix it."]]);
+});
+
+test("partStyle none keeps part-like lines as chapter text", async () => {
+  const manuscript = await parseManuscript(
+    txt("Chapter 1\n\nBook one of the ledger lay open.\nAct 3\n"),
+    "txt",
+    { splitOn: "headings", partStyle: "none" }
+  );
+  assert.deepEqual(manuscript.parts, []);
+  assert.equal(manuscript.chapters.length, 1);
+  assert.match(manuscript.chapters[0].text, /Act 3/);
+});
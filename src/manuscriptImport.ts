@@ -0,0 +1,224 @@
+import mammoth from "mammoth";
+
+// Turns an uploaded manuscript (.docx, .md, .txt) into parts and chapters.
+// Everything is normalized to markdown-style lines first, so DOCX headings
+// and Markdown headings split the same way.
+
+export type ManuscriptFormat = "docx" | "md" | "txt";
+
+export interface SplitOptions {
+  // "headings": split on headings (Markdown/DOCX) or heading-like lines (plain text).
+  // "separator": split on lines that consist only of `separator`.
+  splitOn: "headings" | "separator";
+  separator?: string;
+  // Heading levels for chapters and parts. By default the shallowest heading
+  // level is used for parts when a deeper level also exists, otherwise for chapters.
+  chapterHeadingLevel?: number;
+  partHeadingLevel?: number;
+  // Plain text only: which kind of line counts as a chapter or part heading
+  chapterStyle?: ChapterHeadingStyle;
+  partStyle?: PartHeadingStyle;
+}
+
+export interface ParsedChapter {
+  title: string | null;
+  text: string;
+  partIndex: number | null;
+}
+
+export interface ParsedManuscript {
+  parts: { title: string }[];
+  chapters: ParsedChapter[];
+}
+
+// Heading styles are a fixed set rather than user-supplied regexes, so a
+// crafted pattern can't backtrack for minutes over a 20 MB upload
+export const CHAPTER_HEADING_STYLES = {
+  // "Chapter 1", "Ch. 12: The Ball", "Prologue", "Epilogue", "Interlude"
+  chapter: /^(chapter|ch\.)\s+[\w.:-]+.*$|^(prologue|epilogue|interlude)\b.*$/i,
+  // "1", "12.", "3:"
+  numbered: /^\d{1,4}[.:]?$/,
+  // "IV", "xii."
+  roman: /^[ivxlcdm]{1,8}\.?$/i
+} as const;
+
+export const PART_HEADING_STYLES = {
+  // "Part One", "Book II", "Act 3"
+  part: /^(part|book|act)\s+[\w.:-]+.*$/i,
+  none: null
+} as const;
+
+export type ChapterHeadingStyle = keyof typeof CHAPTER_HEADING_STYLES;
+export type PartHeadingStyle = keyof typeof PART_HEADING_STYLES;
+
+export function detectFormat(filename: string | undefined, mimetype: string | undefined): ManuscriptFormat | null {
+  const ext = filename?.split(".").pop()?.toLowerCase();
+  if (ext === "docx" || mimetype === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") {
+    return "docx";
+  }
+  if (ext === "md" || ext === "markdown" || mimetype === "text/markdown") {
+    return "md";
+  }
+  if (ext === "txt" || mimetype === "text/plain") {
+    return "txt";
+  }
+  return null;
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+
+// mammoth emits flat, predictable HTML; keep headings and paragraphs and drop the rest
+async function docxToMarkdown(buffer: Buffer): Promise<string> {
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+  const blocks: string[] = [];
+
+  for (const match of html.matchAll(/<(h[1-6]|p|li)[^>]*>([\s\S]*?)<\/\1>/g)) {
+    const tag = match[1];
+    const text = decodeEntities(match[2].replace(/<br\s*\/?>/g, "\n").replace(/<[^>]+>/g, "")).trim();
+    if (!text) continue;
+    blocks.push(tag.startsWith("h") ? `${"#".repeat(Number(tag[1]))} ${text}` : text);
+  }
+
+  return blocks.join("\n\n");
+}
+
+interface Section {
+  kind: "part" | "chapter";
+  title: string | null;
+  lines: string[];
+}
+
+const headingOf = (line: string) => {
+  const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+  return match ? { level: match[1].length, title: match[2] } : null;
+};
+
+function splitByMarkdownHeadings(lines: string[], options: SplitOptions): Section[] {
+  const levels = [...new Set(lines.map(headingOf).filter(Boolean).map(h => h!.level))].sort((a, b) => a - b);
+
+  let chapterLevel = options.chapterHeadingLevel;
+  let partLevel = options.partHeadingLevel;
+  if (chapterLevel === undefined) {
+    if (partLevel !== undefined) {
+      chapterLevel = levels.find(level => level > partLevel!) ?? partLevel + 1;
+    } else if (levels.length > 1) {
+      partLevel = levels[0];
+      chapterLevel = levels[1];
+    } else {
+      chapterLevel = levels[0] ?? 1;
+    }
+  }
+
+  const sections: Section[] = [];
+  let current: Section = { kind: "chapter", title: null, lines: [] };
+
+  for (const line of lines) {
+    const heading = headingOf(line);
+    if (heading && (heading.level === chapterLevel || heading.level === partLevel)) {
+      sections.push(current);
+      current = { kind: heading.level === partLevel ? "part" : "chapter", title: heading.title, lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  sections.push(current);
+  return sections;
+}
+
+function splitByPatterns(lines: string[], options: SplitOptions): Section[] {
+  const chapterRe = CHAPTER_HEADING_STYLES[options.chapterStyle || "chapter"];
+  const partRe = PART_HEADING_STYLES[options.partStyle || "part"];
+
+  const sections: Section[] = [];
+  let current: Section = { kind: "chapter", title: null, lines: [] };
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    // Heading lines are short; long lines that happen to start with "Chapter" are prose
+    const isPart = trimmed.length > 0 && trimmed.length <= 80 && partRe !== null && partRe.test(trimmed);
+    const isChapter = !isPart && trimmed.length > 0 && trimmed.length <= 80 && chapterRe.test(trimmed);
+    if (isPart || isChapter) {
+      sections.push(current);
+      current = { kind: isPart ? "part" : "chapter", title: trimmed, lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  sections.push(current);
+  return sections;
+}
+
+function splitBySeparator(lines: string[], separator: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { kind: "chapter", title: null, lines: [] };
+
+  for (const line of lines) {
+    if (line.trim() === separator) {
+      sections.push(current);
+      current = { kind: "chapter", title: null, lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  sections.push(current);
+
+  // A chapter's first Markdown heading (if any) becomes its title
+  for (const section of sections) {
+    const firstLine = section.lines.findIndex(l => l.trim().length > 0);
+    const heading = firstLine === -1 ? null : headingOf(section.lines[firstLine]);
+    if (heading) {
+      section.title = heading.title;
+      section.lines.splice(firstLine, 1);
+    }
+  }
+  return sections;
+}
+
+// Collapse runs of blank lines and trim, keeping paragraph breaks
+const cleanText = (lines: string[]) =>
+  lines.join("\n").replace(/\r/g, "").replace(/\n{3,}/g, "\n\n").trim();
+
+export async function parseManuscript(
+  buffer: Buffer,
+  format: ManuscriptFormat,
+  options: SplitOptions
+): Promise<ParsedManuscript> {
+  const source = format === "docx" ? await docxToMarkdown(buffer) : buffer.toString("utf8");
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+
+  let sections: Section[];
+  if (options.splitOn === "separator") {
+    if (!options.separator) {
+      throw new Error("A separator is required when splitting on separators");
+    }
+    sections = splitBySeparator(lines, options.separator.trim());
+  } else if (format === "txt") {
+    sections = splitByPatterns(lines, options);
+  } else {
+    sections = splitByMarkdownHeadings(lines, options);
+  }
+
+  const parts: { title: string }[] = [];
+  const chapters: ParsedChapter[] = [];
+
+  for (const section of sections) {
+    const text = cleanText(section.lines);
+    if (section.kind === "part") {
+      parts.push({ title: section.title || `Part ${parts.length + 1}` });
+      // Text directly under a part heading (an epigraph, say) becomes an untitled chapter
+      if (text) {
+        chapters.push({ title: null, text, partIndex: parts.length - 1 });
+      }
+    } else if (text) {
+      chapters.push({ title: section.title, text, partIndex: parts.length ? parts.length - 1 : null });
+    }
+  }
+
+  return { parts, chapters };
+}
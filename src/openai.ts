@@ -1,3 +1,15 @@
 import OpenAI from "openai";
 
-export const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
\ No newline at end of file
+// Lazy initialization so the server can boot without an OpenAI key when
+// another provider (or the offline fake) is configured
+let client: OpenAI | null = null;
+
+export const getOpenAI = () => {
+  if (!client) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("OPENAI_API_KEY environment variable is not defined");
+    }
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return client;
+};
@@ -0,0 +1,140 @@
+import { pool } from "./db.js";
+import { generate, ModelSettings } from "./llm.js";
+import { UsageMeter } from "./usage.js";
+import { GenerationError, ProgressCallback, ReviewOptions, generateReview } from "./generation.js";
+import { currentRevisionSql } from "./revisions.js";
+import { contentHash } from "./contentHash.js";
+
+// Panel reviews: several reviewer profiles review one chapter, each stored as a
+// normal review version, then one more call synthesizes a consensus report.
+
+// One panelist, resolved the same way as POST /reviews: a specific profile,
+// or the user's (else the system) profile for a tone
+export interface PanelMember {
+  tone?: "fanficnet" | "editorial" | "line-notes";
+  aiProfileId?: number;
+}
+
+export interface PanelOptions {
+  userId: number;
+  bookId: string;
+  chapterId: string;
+  members: PanelMember[];
+  fullTextChapters?: number;
+}
+
+export interface PanelConsensus {
+  summary: string;
+  agreements: string[];
+  disagreements: { topic: string; positions: { reviewer: string; view: string }[] }[];
+  top_issues: { issue: string; why: string; suggestion: string; raised_by: string[] }[];
+}
+
+const CONSENSUS_SYSTEM_PROMPT =
+  "You are an editor-in-chief reading feedback from a panel of beta readers on one chapter. " +
+  "Synthesize their reviews: where they agree, where they disagree (quote each side by reviewer name), " +
+  "and the top actionable issues ranked by impact, noting which reviewers raised each. " +
+  "Only use what the reviewers said. Return valid JSON only.";
+
+async function synthesizeConsensus(
+  chapterTitle: string,
+  reviews: { profileName: string; reviewText: string }[],
+  settings: ModelSettings | null,
+  meter: UsageMeter
+): Promise<PanelConsensus> {
+  const response = await generate({
+    task: "panel",
+    settings,
+    meter,
+    messages: [
+      { role: "system", content: CONSENSUS_SYSTEM_PROMPT },
+      { role: "user", content:
+        `Chapter: ${chapterTitle}\n\n` +
+        reviews.map(r => `## Reviewer: ${r.profileName}\n${r.reviewText}`).join("\n\n") +
+        "\n\nReturn JSON only for this schema: {summary, agreements[], " +
+        "disagreements[{topic, positions[{reviewer, view}]}], top_issues[{issue, why, suggestion, raised_by[]}]} " +
+        "with at most 5 top_issues."
+      }
+    ],
+    json: true,
+    temperature: 0.3
+  });
+
+  if (!response.content) {
+    throw new Error(`No content received from ${response.provider}`);
+  }
+  const out = JSON.parse(response.content);
+
+  return {
+    summary: out.summary || "",
+    agreements: out.agreements || [],
+    disagreements: out.disagreements || [],
+    top_issues: out.top_issues || []
+  };
+}
+
+// Runs each panelist in turn, then the consensus. Progress counts the
+// panelists plus the consensus step.
+export async function generatePanelReview(options: PanelOptions, onProgress?: ProgressCallback) {
+  if (options.members.length < 2) {
+    throw new GenerationError("A panel needs at least two reviewers");
+  }
+
+  const { rows: chapterRows } = await pool.query(
+    `SELECT c.id, c.title, c.text, b.model_settings, ${currentRevisionSql("c")} as revision_id
+     FROM chapters c
+     JOIN books b ON c.book_id = b.id
+     WHERE c.id = $1 AND c.book_id = $2`,
+    [options.chapterId, options.bookId]
+  );
+  if (!chapterRows.length) {
+    throw new GenerationError("New chapter not found", 404);
+  }
+  const chapter = chapterRows[0];
+  const total = options.members.length + 1;
+
+  const reviews: { reviewId: number; profileName: string; reviewText: string }[] = [];
+  for (const member of options.members) {
+    const reviewOptions: ReviewOptions = {
+      userId: options.userId,
+      bookId: options.bookId,
+      chapterId: options.chapterId,
+      fullTextChapters: options.fullTextChapters,
+      ...member
+    };
+    reviews.push(await generateReview(reviewOptions));
+    if (onProgress) {
+      await onProgress(reviews.length, total);
+    }
+  }
+
+  const consensus = await synthesizeConsensus(
+    chapter.title ? `${chapter.id} — ${chapter.title}` : chapter.id,
+    reviews,
+    chapter.model_settings,
+    { bookId: options.bookId, chapterId: options.chapterId }
+  );
+
+  const { rows } = await pool.query(
+    `INSERT INTO review_panels (user_id, chapter_id, review_ids, consensus, revision_id, content_hash)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id`,
+    [
+      options.userId,
+      options.chapterId,
+      reviews.map(r => r.reviewId),
+      JSON.stringify(consensus),
+      chapter.revision_id,
+      contentHash(chapter.text)
+    ]
+  );
+  if (onProgress) {
+    await onProgress(total, total);
+  }
+
+  return {
+    panelId: rows[0].id as number,
+    reviews: reviews.map(r => ({ reviewId: r.reviewId, profileName: r.profileName })),
+    consensus
+  };
+}
@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validatePromptTemplate, validateTemplateFields } from "./promptTemplates.js";
+
+test("validatePromptTemplate accepts known variables and wiki pages", () => {
+  assert.deepEqual(validatePromptTemplate("Review {{ chapter_title }} of {{book_title}} using {{wiki:Alice}}."), []);
+  assert.deepEqual(validatePromptTemplate("No placeholders at all."), []);
+});
+
+test("validatePromptTemplate reports unknown variables and empty wiki names", () => {
+  assert.deepEqual(validatePromptTemplate("{{chapter}} and {{wiki: }}"), [
+    'Unknown variable "{{chapter}}"',
+    '"{{wiki: }}" needs a page name, e.g. {{wiki:Alice}}'
+  ]);
+});
+
+test("validatePromptTemplate reports unbalanced braces", () => {
+  assert.deepEqual(validatePromptTemplate("{{chapter_text"), ["Unbalanced {{ or }}"]);
+  assert.deepEqual(validatePromptTemplate("chapter_text}}"), ["Unbalanced {{ or }}"]);
+});
+
+test("validateTemplateFields names the field of each problem", () => {
+  assert.deepEqual(validateTemplateFields({ system_prompt: "{{nope}}", user_prompt_template: null }), [
+    { field: "system_prompt", message: 'Unknown variable "{{nope}}"' }
+  ]);
+});
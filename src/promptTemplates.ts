@@ -0,0 +1,89 @@
+// Prompt templates for reviewer profiles. A profile's system prompt and its
+// optional user prompt template may contain {{variables}}, filled in from the
+// book and chapter when a review prompt is built.
+
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  book_title: "Title of the book",
+  book_description: "The book's description",
+  chapter_id: "Id of the chapter being reviewed",
+  chapter_title: "Title of the chapter being reviewed (falls back to its id)",
+  chapter_text: "Full text of the chapter being reviewed (trimmed to the prompt budget)",
+  word_count: "Word count of the chapter being reviewed",
+  pov: "Point of view from the chapter's summary, if it has been summarized",
+  prior_summaries: "Summaries of the chapters before this one, fitted to the prompt budget",
+  preceding_chapters: "Full text of the preceding chapters requested with fullTextChapters",
+  profile_name: "Name of the reviewer profile",
+  profile_description: "The reviewer profile's description"
+};
+
+// System prompt for profiles created from a description alone
+export const DESCRIPTION_SYSTEM_TEMPLATE =
+  "You are a beta reader with this personality and approach: {{profile_description}}. Please review the following chapter providing feedback in this style.";
+
+// {{wiki:Name}} inserts the wiki page called Name (case-insensitive)
+const WIKI_PREFIX = "wiki:";
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+// Problems with a template, empty when it is valid
+export function validatePromptTemplate(template: string): string[] {
+  const errors: string[] = [];
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const name = match[1];
+    if (name.startsWith(WIKI_PREFIX)) {
+      if (!name.slice(WIKI_PREFIX.length).trim()) {
+        errors.push(`"${match[0]}" needs a page name, e.g. {{wiki:Alice}}`);
+      }
+    } else if (!(name in TEMPLATE_VARIABLES)) {
+      errors.push(`Unknown variable "${match[0]}"`);
+    }
+  }
+
+  // Braces left over once every placeholder is removed are malformed ones
+  const leftover = template.replace(PLACEHOLDER, "");
+  if (leftover.includes("{{") || leftover.includes("}}")) {
+    errors.push("Unbalanced {{ or }}");
+  }
+  return errors;
+}
+
+// Validate several template fields of a profile at once, for a 400 response
+export function validateTemplateFields(fields: Record<string, string | null | undefined>) {
+  return Object.entries(fields).flatMap(([field, template]) =>
+    template ? validatePromptTemplate(template).map(message => ({ field, message })) : []
+  );
+}
+
+// Wiki page names a template refers to
+export function wikiPagesIn(...templates: (string | null | undefined)[]) {
+  const names = new Set<string>();
+  for (const template of templates) {
+    for (const match of (template || "").matchAll(PLACEHOLDER)) {
+      if (match[1].startsWith(WIKI_PREFIX)) {
+        names.add(match[1].slice(WIKI_PREFIX.length).trim());
+      }
+    }
+  }
+  return [...names];
+}
+
+// Fill in a template. Wiki pages are looked up case-insensitively; ones that
+// don't exist render empty and are reported in `missing`.
+export function renderPromptTemplate(
+  template: string,
+  variables: Record<string, string>,
+  wikiPages: Map<string, string>
+) {
+  const missing: string[] = [];
+  const text = template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (name.startsWith(WIKI_PREFIX)) {
+      const page = wikiPages.get(name.slice(WIKI_PREFIX.length).trim().toLowerCase());
+      if (page === undefined) {
+        missing.push(placeholder);
+        return "";
+      }
+      return page;
+    }
+    return variables[name] ?? "";
+  });
+  return { text, missing };
+}
@@ -0,0 +1,52 @@
+import { pool } from "./db.js";
+
+// Reading order for a book's chapters.
+// books.chapter_order is the canonical global order. Chapters missing from it
+// (e.g. rows written before migration 007) follow in their part's
+// chapter_order, then any stragglers in creation order. Ids in the arrays
+// that no longer exist as chapters are dropped.
+export async function getReadingOrder(bookId: string, client: any = pool): Promise<string[]> {
+  const { rows: bookRows } = await client.query(
+    'SELECT chapter_order FROM books WHERE id = $1',
+    [bookId]
+  );
+  if (!bookRows.length) {
+    return [];
+  }
+
+  const { rows: partRows } = await client.query(
+    'SELECT chapter_order FROM book_parts WHERE book_id = $1 ORDER BY created_at, id',
+    [bookId]
+  );
+
+  const { rows: chapterRows } = await client.query(
+    'SELECT id FROM chapters WHERE book_id = $1 ORDER BY created_at, id',
+    [bookId]
+  );
+
+  const existing = new Set<string>(chapterRows.map((r: any) => r.id));
+  const order: string[] = [];
+  const seen = new Set<string>();
+  const push = (ids: string[] | null) => {
+    for (const id of ids || []) {
+      if (existing.has(id) && !seen.has(id)) {
+        seen.add(id);
+        order.push(id);
+      }
+    }
+  };
+
+  push(bookRows[0].chapter_order);
+  for (const part of partRows) {
+    push(part.chapter_order);
+  }
+  push(chapterRows.map((r: any) => r.id));
+
+  return order;
+}
+
+// Chapter ids that come before the given chapter in reading order
+export function chaptersBefore(order: string[], chapterId: string): string[] {
+  const index = order.indexOf(chapterId);
+  return index === -1 ? [] : order.slice(0, index);
+}
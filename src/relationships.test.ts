@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generate } from "./llm.js";
+import { relationshipGraph, summaryRelationships } from "./relationships.js";
+import { WikiEntity } from "./entityResolution.js";
+
+const pages: WikiEntity[] = [
+  { id: 1, page_name: "Elizabeth Bennet", page_type: "character", aliases: ["Lizzy"], summary: null },
+  { id: 2, page_name: "Fitzwilliam Darcy", page_type: "character", aliases: ["Darcy"], summary: null }
+];
+
+test("summaryRelationships keeps valid entries and drops the rest", () => {
+  assert.deepEqual(summaryRelationships({
+    relationships: [
+      { a: " Lizzy ", b: "Darcy", type: "Romance", change: "started", description: "They meet." },
+      { a: "Lizzy", b: "lizzy", type: "family" },
+      { a: "Jane", b: "Bingley", type: "friendship" },
+      { a: "Jane", b: "Lydia", type: "family", change: "sometimes" },
+      "not an object"
+    ]
+  }), [
+    { a: "Lizzy", b: "Darcy", type: "romance", change: "started", description: "They meet." },
+    { a: "Jane", b: "Lydia", type: "family", change: "unchanged", description: null }
+  ]);
+  assert.deepEqual(summaryRelationships({}), []);
+});
+
+test("summaryRelationships reads the fake provider's summary", async () => {
+  const response = await generate({
+    task: "summary",
+    settings: { summary: "fake:fake-1" },
+    messages: [{ role: "user", content: "Anna met Boris. Anna and Boris talked. Boris left Anna at dawn." }],
+    json: true
+  });
+  assert.equal(response.provider, "fake");
+  assert.deepEqual(summaryRelationships(JSON.parse(response.content!)), [
+    { a: "Anna", b: "Boris", type: "alliance", change: "started", description: "Anna and Boris appear together." }
+  ]);
+});
+
+test("relationshipGraph merges names of the same page and follows changes in order", () => {
+  const { nodes, edges } = relationshipGraph([
+    { id: "c1", relationships: [{ a: "Lizzy", b: "Darcy", type: "rivalry", change: "started", description: "They quarrel." }] },
+    { id: "c2", relationships: [{ a: "Mr. Darcy", b: "Elizabeth Bennet", type: "rivalry", change: "unchanged", description: null }] },
+    { id: "c3", relationships: [{ a: "Darcy", b: "Lizzy", type: "rivalry", change: "ended", description: "They reconcile." }] },
+    { id: "c4", relationships: [{ a: "Lizzy", b: "Jane", type: "family", change: "unchanged", description: "Sisters." }] }
+  ], pages);
+
+  assert.deepEqual(nodes, [
+    { id: "page-1", name: "Elizabeth Bennet", wikiPageId: 1 },
+    { id: "page-2", name: "Fitzwilliam Darcy", wikiPageId: 2 },
+    { id: "name-jane", name: "Jane", wikiPageId: null }
+  ]);
+
+  const rivalry = edges.find(e => e.type === "rivalry")!;
+  assert.equal(edges.length, 2);
+  assert.equal(rivalry.source, "page-1");
+  assert.equal(rivalry.target, "page-2");
+  assert.equal(rivalry.startedIn, "c1");
+  assert.equal(rivalry.endedIn, "c3");
+  assert.equal(rivalry.lastSeenIn, "c3");
+  assert.equal(rivalry.description, "They reconcile.");
+  assert.deepEqual(rivalry.history.map(h => [h.chapterId, h.change]), [["c1", "started"], ["c3", "ended"]]);
+
+  // The first chapter to show a relationship starts it, whatever its label
+  const family = edges.find(e => e.type === "family")!;
+  assert.deepEqual(family.history, [{ chapterId: "c4", change: "started", description: "Sisters." }]);
+});
+
+test("relationshipGraph resumes a relationship shown again after it ended", () => {
+  const { edges } = relationshipGraph([
+    { id: "c1", relationships: [{ a: "Lizzy", b: "Darcy", type: "alliance", change: "ended", description: null }] },
+    { id: "c2", relationships: [{ a: "Lizzy", b: "Darcy", type: "alliance", change: "changed", description: "Allies again." }] }
+  ], pages);
+  assert.equal(edges[0].endedIn, null);
+  assert.deepEqual(edges[0].history.map(h => h.change), ["ended", "changed"]);
+});
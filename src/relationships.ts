@@ -0,0 +1,228 @@
+import { pool } from "./db.js";
+import { getReadingOrder } from "./readingOrder.js";
+import { WikiEntity, matchEntity, normalizeName } from "./entityResolution.js";
+
+// Character relationships extracted during summarization. Each chapter summary
+// stores the relationships the chapter shows, in chapter_summaries.relationships,
+// each marked as starting, changing, ending or continuing unchanged there. The
+// graph is rebuilt from them in reading order, so re-summarizing, reordering
+// or deleting chapters needs no bookkeeping, and stopping at a chapter gives
+// a spoiler-safe view of the relationships as of that chapter. Each character's
+// relationships across the whole book are also copied to
+// book_characters.relationships whenever the graph may have changed.
+
+export const RELATIONSHIP_TYPES = ["family", "romance", "rivalry", "alliance"] as const;
+export type RelationshipType = typeof RELATIONSHIP_TYPES[number];
+
+export const RELATIONSHIP_CHANGES = ["started", "changed", "ended", "unchanged"] as const;
+export type RelationshipChange = typeof RELATIONSHIP_CHANGES[number];
+
+export interface ChapterRelationship {
+  a: string;
+  b: string;
+  type: RelationshipType;
+  change: RelationshipChange;
+  description: string | null;
+}
+
+// What the summary prompt asks for under `relationships`
+export const RELATIONSHIP_SCHEMA_FIELD = "relationships[{a, b, type, change, description}]";
+export const RELATIONSHIP_INSTRUCTION =
+  `relationships: relationships between characters that the chapter shows, with type one of ${RELATIONSHIP_TYPES.join(", ")}; ` +
+  "change is \"started\" when the relationship begins or is first revealed, \"changed\" when it develops or turns, " +
+  "\"ended\" when it ends and \"unchanged\" otherwise; description says what it is now in one sentence";
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === "string" && (values as readonly string[]).includes(value);
+
+// The relationships of a model's summary, for chapter_summaries.relationships.
+// Entries with an unknown type or fewer than two distinct characters are dropped.
+export function summaryRelationships(out: Record<string, unknown>): ChapterRelationship[] {
+  const relationships: ChapterRelationship[] = [];
+  for (const raw of Array.isArray(out.relationships) ? out.relationships : []) {
+    const a = typeof raw?.a === "string" ? raw.a.trim() : "";
+    const b = typeof raw?.b === "string" ? raw.b.trim() : "";
+    const type = typeof raw?.type === "string" ? raw.type.toLowerCase() : null;
+    if (!a || !b || normalizeName(a) === normalizeName(b) || !isOneOf(RELATIONSHIP_TYPES, type)) {
+      continue;
+    }
+    relationships.push({
+      a,
+      b,
+      type,
+      change: isOneOf(RELATIONSHIP_CHANGES, raw.change) ? raw.change : "unchanged",
+      description: typeof raw.description === "string" ? raw.description : null
+    });
+  }
+  return relationships;
+}
+
+export interface RelationshipNode {
+  id: string;
+  name: string;
+  wikiPageId: number | null;
+}
+
+export interface RelationshipEdge {
+  id: string;
+  source: string;
+  target: string;
+  type: RelationshipType;
+  description: string | null;
+  startedIn: string;
+  endedIn: string | null;
+  lastSeenIn: string;
+  // Every chapter that started, changed or ended the relationship
+  history: { chapterId: string; change: RelationshipChange; description: string | null }[];
+}
+
+// Build the graph from summarized chapters in reading order. Names are merged
+// into one node when they match the same character page, as in wiki updates
+// but without asking the model.
+export function relationshipGraph(
+  chapters: { id: string; relationships: ChapterRelationship[] }[],
+  pages: WikiEntity[]
+) {
+  const nodes = new Map<string, RelationshipNode>();
+  const nodeFor = (name: string) => {
+    const page = matchEntity(name, pages).page;
+    const id = page ? `page-${page.id}` : `name-${normalizeName(name)}`;
+    if (!nodes.has(id)) {
+      nodes.set(id, { id, name: page?.page_name ?? name, wikiPageId: page?.id ?? null });
+    }
+    return id;
+  };
+
+  const edges = new Map<string, RelationshipEdge>();
+  for (const chapter of chapters) {
+    for (const relationship of chapter.relationships) {
+      const [source, target] = [nodeFor(relationship.a), nodeFor(relationship.b)].sort();
+      if (source === target) continue;
+      const id = `${source}:${target}:${relationship.type}`;
+      const event = { chapterId: chapter.id, change: relationship.change, description: relationship.description };
+
+      const edge = edges.get(id);
+      if (!edge) {
+        // The first chapter showing a relationship is where it starts, whatever the label
+        edges.set(id, {
+          id, source, target,
+          type: relationship.type,
+          description: relationship.description,
+          startedIn: chapter.id,
+          endedIn: relationship.change === "ended" ? chapter.id : null,
+          lastSeenIn: chapter.id,
+          history: [{ ...event, change: relationship.change === "ended" ? "ended" : "started" }]
+        });
+        continue;
+      }
+
+      edge.lastSeenIn = chapter.id;
+      if (relationship.change === "unchanged") {
+        edge.description ??= relationship.description;
+        continue;
+      }
+      if (relationship.change === "ended") {
+        edge.endedIn = chapter.id;
+      } else if (edge.endedIn) {
+        // A relationship that ended and is shown again has resumed
+        edge.endedIn = null;
+      }
+      edge.description = relationship.description ?? edge.description;
+      edge.history.push(event);
+    }
+  }
+
+  return { nodes: [...nodes.values()], edges: [...edges.values()] };
+}
+
+// The book's relationship graph, up to and including `asOf` when given.
+// Returns null when `asOf` is not a chapter of the book.
+export async function loadRelationshipGraph(bookId: string, asOf?: string, client: any = pool) {
+  let order = await getReadingOrder(bookId, client);
+  if (asOf !== undefined) {
+    const index = order.indexOf(asOf);
+    if (index === -1) {
+      return null;
+    }
+    order = order.slice(0, index + 1);
+  }
+
+  const { rows: summaries } = await client.query(
+    `SELECT s.chapter_id, s.relationships
+     FROM chapter_summaries s
+     JOIN chapters c ON c.id = s.chapter_id
+     WHERE c.book_id = $1`,
+    [bookId]
+  );
+  const relationshipsByChapter = new Map<string, ChapterRelationship[] | null>(
+    summaries.map((s: any) => [s.chapter_id, s.relationships])
+  );
+
+  const { rows: pages } = await client.query(
+    `SELECT id, page_name, page_type, aliases, summary
+     FROM wiki_pages
+     WHERE book_id = $1 AND page_type IN ('character', 'other')
+     ORDER BY id`,
+    [bookId]
+  );
+
+  const chapters = order
+    .filter(id => relationshipsByChapter.get(id))
+    .map(id => ({ id, relationships: relationshipsByChapter.get(id)! }));
+
+  return {
+    asOf: asOf ?? null,
+    ...relationshipGraph(chapters, pages),
+    // Chapters in range without a summary, and ones summarized before
+    // relationships were extracted; summarizing them fills in the graph
+    missingSummaryIds: order.filter(id => !relationshipsByChapter.has(id)),
+    missingRelationshipIds: order.filter(id => relationshipsByChapter.get(id) === null)
+  };
+}
+
+// What book_characters.relationships holds for one character
+export interface CharacterRelationship {
+  character: string;
+  wikiPageId: number | null;
+  type: RelationshipType;
+  description: string | null;
+  startedIn: string;
+  endedIn: string | null;
+}
+
+// Rewrite book_characters.relationships from the whole-book graph. Rows are
+// matched to graph nodes by wiki page, or by name for characters without one.
+export async function refreshCharacterRelationships(bookId: string, client: any = pool) {
+  const graph = (await loadRelationshipGraph(bookId, undefined, client))!;
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+
+  const { rows: characters } = await client.query(
+    'SELECT id, character_name, wiki_page_id FROM book_characters WHERE book_id = $1',
+    [bookId]
+  );
+  for (const character of characters) {
+    const node = graph.nodes.find(n =>
+      (character.wiki_page_id !== null && n.wikiPageId === character.wiki_page_id) ||
+      normalizeName(n.name) === normalizeName(character.character_name)
+    );
+    const relationships: CharacterRelationship[] = node
+      ? graph.edges
+          .filter(edge => edge.source === node.id || edge.target === node.id)
+          .map(edge => {
+            const other = nodesById.get(edge.source === node.id ? edge.target : edge.source)!;
+            return {
+              character: other.name,
+              wikiPageId: other.wikiPageId,
+              type: edge.type,
+              description: edge.description,
+              startedIn: edge.startedIn,
+              endedIn: edge.endedIn
+            };
+          })
+      : [];
+    await client.query(
+      'UPDATE book_characters SET relationships = $1 WHERE id = $2',
+      [JSON.stringify(relationships), character.id]
+    );
+  }
+}
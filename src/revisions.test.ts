@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffWords } from "./revisions.js";
+
+const joined = (ops: { type: string; text: string }[], keep: string) =>
+  ops.filter(op => op.type === "equal" || op.type === keep).map(op => op.text).join("");
+
+test("diffWords reports a replaced word and reproduces both texts", () => {
+  const from = "The cat sat on the mat.";
+  const to = "The dog sat on the mat.";
+  const { ops, stats } = diffWords(from, to);
+
+  assert.deepEqual(ops, [
+    { type: "equal", text: "The " },
+    { type: "delete", text: "cat" },
+    { type: "insert", text: "dog" },
+    { type: "equal", text: " sat on the mat." }
+  ]);
+  assert.deepEqual(stats, { wordsAdded: 1, wordsRemoved: 1 });
+  assert.equal(joined(ops, "delete"), from);
+  assert.equal(joined(ops, "insert"), to);
+});
+
+test("diffWords counts inserted and removed words", () => {
+  const { stats } = diffWords("one two three", "zero one three four five");
+  assert.deepEqual(stats, { wordsAdded: 3, wordsRemoved: 1 });
+});
+
+test("diffWords of identical texts is a single equal op", () => {
+  assert.deepEqual(diffWords("Same text.", "Same text."), {
+    ops: [{ type: "equal", text: "Same text." }],
+    stats: { wordsAdded: 0, wordsRemoved: 0 }
+  });
+});
+
+test("diffWords keeps whitespace changes", () => {
+  const { ops } = diffWords("a b", "a  b");
+  assert.equal(joined(ops, "insert"), "a  b");
+  assert.equal(joined(ops, "delete"), "a b");
+});
+
+test("diffWords handles empty texts", () => {
+  assert.deepEqual(diffWords("", "new words").ops, [{ type: "insert", text: "new words" }]);
+  assert.deepEqual(diffWords("old words", "").ops, [{ type: "delete", text: "old words" }]);
+});
@@ -0,0 +1,175 @@
+import { pool } from "./db.js";
+
+// Chapter revision history. Every change to chapters.text is snapshotted into
+// chapter_revisions so it can be listed, diffed and restored.
+
+export type RevisionSource = "upsert" | "replace" | "restore" | "import" | "suggestion";
+
+// Snapshot the chapter's current title/text as a new revision. Skipped when the
+// text is unchanged since the latest revision (e.g. a title-only upsert).
+// Returns the id of the chapter's current revision either way.
+export async function recordRevision(
+  chapterId: string,
+  source: RevisionSource,
+  restoredFromRevisionId: number | null = null,
+  client: any = pool
+): Promise<number | null> {
+  const { rows: latestRows } = await client.query(
+    `SELECT r.id, r.text = c.text as unchanged
+     FROM chapters c
+     LEFT JOIN LATERAL (
+       SELECT id, text FROM chapter_revisions
+       WHERE chapter_id = c.id
+       ORDER BY id DESC
+       LIMIT 1
+     ) r ON true
+     WHERE c.id = $1`,
+    [chapterId]
+  );
+
+  if (!latestRows.length) {
+    return null;
+  }
+
+  if (latestRows[0].id && latestRows[0].unchanged) {
+    return latestRows[0].id;
+  }
+
+  const { rows } = await client.query(
+    `INSERT INTO chapter_revisions (chapter_id, title, text, word_count, source, restored_from_revision_id)
+     SELECT id, title, text, word_count, $2, $3 FROM chapters WHERE id = $1
+     RETURNING id`,
+    [chapterId, source, restoredFromRevisionId]
+  );
+  return rows[0].id;
+}
+
+// SQL expression for a chapter's current revision id, given a chapters alias
+export const currentRevisionSql = (alias: string) =>
+  `(SELECT id FROM chapter_revisions WHERE chapter_id = ${alias}.id ORDER BY id DESC LIMIT 1)`;
+
+// ---- Word-level diff
+export interface DiffOp {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+// Words and the whitespace between them, so joined ops reproduce the text exactly
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+// Beyond this many token edits the diff degrades to "delete all, insert all";
+// the trace kept for backtracking grows with its square
+const MAX_EDIT_DISTANCE = 4000;
+
+// Myers' O(ND) diff over tokens
+function myers(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    // Only diagonals -d-1..d+1 are read when backtracking step d
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, d);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], depth: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = depth; d > 0; d--) {
+    const v = trace[d];
+    const local = d + 1;
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[local + k - 1] < v[local + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[local + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "equal", text: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: "insert", text: b[--y] });
+    } else {
+      ops.push({ type: "delete", text: a[--x] });
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: "equal", text: a[--x] });
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+// Merge runs of the same op type into single ops
+function mergeOps(ops: DiffOp[]): DiffOp[] {
+  const merged: DiffOp[] = [];
+  for (const op of ops) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === op.type) {
+      last.text += op.text;
+    } else {
+      merged.push({ ...op });
+    }
+  }
+  return merged;
+}
+
+const countWordsIn = (text: string) => (text.match(/[^\s]+/g) || []).length;
+
+export function diffWords(from: string, to: string) {
+  const a = tokenize(from);
+  const b = tokenize(to);
+
+  // Diff only the middle that differs; typical edits leave long shared ends
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const aMiddle = a.slice(prefix, a.length - suffix);
+  const bMiddle = b.slice(prefix, b.length - suffix);
+  const middle = myers(aMiddle, bMiddle) ?? [
+    { type: "delete" as const, text: aMiddle.join("") },
+    { type: "insert" as const, text: bMiddle.join("") }
+  ];
+
+  const ops: DiffOp[] = [
+    { type: "equal", text: a.slice(0, prefix).join("") },
+    ...middle,
+    { type: "equal", text: a.slice(a.length - suffix).join("") }
+  ];
+  const merged = mergeOps(ops.filter(op => op.text.length > 0));
+
+  return {
+    ops: merged,
+    stats: {
+      wordsAdded: merged.filter(op => op.type === "insert").reduce((sum, op) => sum + countWordsIn(op.text), 0),
+      wordsRemoved: merged.filter(op => op.type === "delete").reduce((sum, op) => sum + countWordsIn(op.text), 0)
+    }
+  };
+}
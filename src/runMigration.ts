@@ -2,13 +2,16 @@ import { pool } from './db.js';
 import fs from 'fs';
 import path from 'path';
 
+// Usage: tsx src/runMigration.ts [migration file name in migrations/]
+const migrationFile = process.argv[2] || '002_add_parts_and_ordering.sql';
+
 async function runMigration() {
-  const migrationPath = path.join(process.cwd(), 'migrations', '002_add_parts_and_ordering.sql');
+  const migrationPath = path.join(process.cwd(), 'migrations', migrationFile);
 
   try {
     const sql = fs.readFileSync(migrationPath, 'utf-8');
 
-    console.log('Running migration: 002_add_parts_and_ordering.sql');
+    console.log(`Running migration: ${migrationFile}`);
     await pool.query(sql);
     console.log('Migration completed successfully!');
   } catch (error) {
@@ -19,4 +22,4 @@ async function runMigration() {
   }
 }
 
-runMigration();
\ No newline at end of file
+runMigration();
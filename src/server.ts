@@ -1,20 +1,53 @@
 import "dotenv/config";
 import express from "express";
 import cors from "cors";
+import multer from "multer";
 import { z } from "zod";
 import { pool, withTx } from "./db.js";
-import { openai } from "./openai.js";
+import { generateStream, modelSpecError, resolveModel, LLM_TASKS, ModelSettings } from "./llm.js";
+import { getReadingOrder } from "./readingOrder.js";
+import { GenerationError, summarizeChapter, summarizePart, partSummaryIsStaleSql, generateReview, buildReviewPrompt, saveReview, LATEST_REVIEWS_SQL } from "./generation.js";
+import { enqueueJob, startJobWorker, JOB_TYPES } from "./jobs.js";
+import { generatePanelReview } from "./panelReview.js";
+import { generateBookReview, loadBookOutline } from "./bookReview.js";
+import { generateInlineComments, reanchorComments, COMMENT_STATUSES } from "./inlineComments.js";
+import { generateRewriteSuggestions, applySuggestions, rejectSuggestions } from "./suggestions.js";
+import { recordRevision, diffWords } from "./revisions.js";
+import { WIKI_PROPOSAL_STATUSES, acceptWikiProposal, rejectWikiProposal } from "./wikiProposals.js";
+import { findDuplicateCandidates, mergeWikiPages } from "./entityResolution.js";
+import { WIKI_PAGE_TYPES, mentionsWikiEntities } from "./wikiEntities.js";
+import { loadRelationshipGraph, refreshCharacterRelationships } from "./relationships.js";
+import { CONTINUITY_STATUSES, checkChapterContinuity } from "./continuity.js";
+import { contentHashSql } from "./contentHash.js";
+import { QuotaExceededError, assertWithinQuota, getMonthlyUsage } from "./usage.js";
+import { DESCRIPTION_SYSTEM_TEMPLATE, TEMPLATE_VARIABLES, validateTemplateFields } from "./promptTemplates.js";
+import { parseManuscript, detectFormat } from "./manuscriptImport.js";
+import { loadBookForExport, renderExport } from "./manuscriptExport.js";
+import { ArchiveError, exportBookArchive, importBookArchive } from "./bookArchive.js";
 import { authenticateJWT, optionalAuth, upsertUser, getUserFromAuth0Sub, AuthenticatedRequest } from "./auth.js";
 
 const app = express();
 app.use(cors());
 app.use(express.json({ limit: "5mb" }));
 
+// Manuscript uploads are held in memory; they are parsed and discarded per request
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 20 * 1024 * 1024 } });
+
 // ---- validators
 const UpsertBook = z.object({
   id: z.string().min(1),
   title: z.string().min(1)
 });
+const UpdateBook = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().nullable().optional()
+}).refine(data => data.title !== undefined || data.description !== undefined, {
+  message: "Provide a title or description to update"
+});
+const DuplicateBook = z.object({
+  id: z.string().min(1).optional(),
+  title: z.string().min(1).optional()
+});
 const UpsertChapter = z.object({
   id: z.string().min(1),
   bookId: z.string().min(1),
@@ -25,30 +58,192 @@ const ReviewReq = z.object({
   bookId: z.string().min(1),
   newChapterId: z.string().min(1),
   tone: z.enum(["fanficnet","editorial","line-notes"]).optional(),
-  customProfileId: z.number().optional()
+  // A specific profile, taking precedence over tone
+  aiProfileId: z.number().int().optional(),
+  // Include the full text of this many immediately preceding chapters instead of their summaries
+  fullTextChapters: z.number().int().min(0).max(10).optional(),
+  // Summarize earlier parts with their part summaries instead of per-chapter summaries
+  usePartSummaries: z.boolean().optional(),
+  // Prompt budget in estimated tokens; context is trimmed to fit
+  maxPromptTokens: z.number().int().min(1000).max(1000000).optional()
 });
-const CreateAIProfile = z.object({
-  name: z.string().min(1),
-  tone_key: z.string().min(1),
-  system_prompt: z.string().min(1),
-  is_default: z.boolean().optional()
+const ModelSpec = z.string().min(1).superRefine((spec, ctx) => {
+  const error = modelSpecError(spec);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
 });
-const UpdateAIProfile = z.object({
-  name: z.string().min(1).optional(),
-  system_prompt: z.string().min(1).optional(),
-  is_default: z.boolean().optional()
+const UpdateModelSettings = z.object({
+  summary: ModelSpec.nullable().optional(),
+  wiki: ModelSpec.nullable().optional(),
+  review: ModelSpec.nullable().optional(),
+  panel: ModelSpec.nullable().optional(),
+  rewrite: ModelSpec.nullable().optional(),
+  book: ModelSpec.nullable().optional(),
+  continuity: ModelSpec.nullable().optional()
+});
+const PanelMember = z.object({
+  tone: z.enum(["fanficnet","editorial","line-notes"]).optional(),
+  aiProfileId: z.number().int().optional()
+}).refine(m => [m.tone, m.aiProfileId].filter(v => v !== undefined).length === 1, {
+  message: "Each panel member needs exactly one of tone or aiProfileId"
+});
+const PanelMembers = z.array(PanelMember).min(2).max(8);
+const CreateJob = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("summary"), chapterId: z.string().min(1) }),
+  z.object({ type: z.literal("wiki_update"), chapterId: z.string().min(1) }),
+  z.object({ type: z.literal("continuity_check"), chapterId: z.string().min(1) }),
+  z.object({
+    type: z.literal("review"),
+    chapterId: z.string().min(1),
+    tone: z.enum(["fanficnet","editorial","line-notes"]).optional(),
+    aiProfileId: z.number().optional(),
+    fullTextChapters: z.number().int().min(0).max(10).optional(),
+    usePartSummaries: z.boolean().optional(),
+    maxPromptTokens: z.number().int().min(1000).max(1000000).optional()
+  }),
+  z.object({
+    type: z.literal("panel_review"),
+    chapterId: z.string().min(1),
+    members: PanelMembers,
+    fullTextChapters: z.number().int().min(0).max(10).optional()
+  })
+]);
+const InlineCommentsReq = z.object({
+  tone: z.enum(["fanficnet","editorial","line-notes"]).optional(),
+  aiProfileId: z.number().int().optional(),
+  fullTextChapters: z.number().int().min(0).max(10).optional()
+});
+const UpdateComment = z.object({
+  status: z.enum(COMMENT_STATUSES)
+});
+const IsoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+  // Round-trip so dates like 2024-02-30 are rejected here rather than by Postgres
+  .refine(date => !Number.isNaN(Date.parse(date)) && new Date(date).toISOString().startsWith(date), "Invalid date");
+const UsageQuery = z.object({
+  from: IsoDate.optional(),
+  to: IsoDate.optional()
+});
+const BookReviewReq = z.object({
+  // Queue as a book_review job instead of waiting for the report
+  background: z.boolean().optional()
 });
-const CreateCustomReviewerProfile = z.object({
+const ContinuityCheckReq = z.object({
+  // Queue as a continuity_check job instead of waiting for the issues
+  background: z.boolean().optional()
+});
+const ContinuityIssuesQuery = z.object({
+  status: z.enum(CONTINUITY_STATUSES).optional(),
+  chapterId: z.string().min(1).optional()
+});
+const UpdateContinuityIssue = z.object({
+  status: z.enum(CONTINUITY_STATUSES),
+  note: z.string().max(2000).optional()
+});
+const RewriteReq = z.object({
+  goal: z.enum(["tighten","dialogue_tags","clarity","grammar"]).optional(),
+  instruction: z.string().max(1000).optional(),
+  maxSuggestions: z.number().int().min(1).max(30).optional(),
+  tone: z.enum(["fanficnet","editorial","line-notes"]).optional(),
+  aiProfileId: z.number().int().optional(),
+  fullTextChapters: z.number().int().min(0).max(10).optional()
+});
+// Optional subset of a review's suggestions; all pending ones when omitted
+const ReviewSuggestionsDecision = z.object({
+  suggestionIds: z.array(z.number().int()).optional()
+});
+const PanelReviewReq = z.object({
+  bookId: z.string().min(1),
+  newChapterId: z.string().min(1),
+  members: PanelMembers,
+  fullTextChapters: z.number().int().min(0).max(10).optional(),
+  // Queue as a panel_review job instead of waiting for every reviewer
+  background: z.boolean().optional()
+});
+// Multipart form fields arrive as strings
+const ImportManuscript = z.object({
+  format: z.enum(["docx", "md", "txt"]).optional(),
+  splitOn: z.enum(["headings", "separator"]).default("headings"),
+  separator: z.string().min(1).optional(),
+  chapterHeadingLevel: z.coerce.number().int().min(1).max(6).optional(),
+  partHeadingLevel: z.coerce.number().int().min(1).max(6).optional(),
+  chapterStyle: z.enum(["chapter", "numbered", "roman"]).optional(),
+  partStyle: z.enum(["part", "none"]).optional(),
+  dryRun: z.enum(["true", "false"]).optional()
+});
+const ExportQuery = z.object({
+  format: z.enum(["docx", "epub", "md", "txt"]),
+  includeWiki: z.enum(["true", "false"]).optional(),
+  manuscript: z.enum(["true", "false"]).optional(),
+  authorName: z.string().min(1).max(200).optional()
+});
+const ArchiveRows = z.array(z.record(z.string(), z.any())).default([]);
+const BookArchiveBody = z.object({
+  format: z.literal("ai-beta-reader/book-archive"),
+  version: z.number().int().positive(),
+  exported_at: z.string().optional(),
+  book: z.object({ id: z.string().min(1), title: z.string().min(1) }).passthrough(),
+  book_parts: ArchiveRows,
+  chapters: z.array(z.object({ id: z.string().min(1), text: z.string() }).passthrough()).default([]),
+  chapter_summaries: ArchiveRows,
+  wiki_pages: ArchiveRows,
+  wiki_updates: ArchiveRows,
+  chapter_wiki_mentions: ArchiveRows,
+  book_characters: ArchiveRows,
+  chapter_reviews: ArchiveRows,
+  review_panels: ArchiveRows,
+  chapter_comments: ArchiveRows,
+  chapter_suggestions: ArchiveRows,
+  book_reviews: ArchiveRows,
+  part_summaries: ArchiveRows,
+  wiki_proposals: ArchiveRows,
+  continuity_issues: ArchiveRows,
+  ai_profiles: ArchiveRows,
+  // Archives from before profiles were unified
+  custom_reviewer_profiles: ArchiveRows
+});
+const RestoreArchiveQuery = z.object({
+  bookId: z.string().min(1).optional(),
+  title: z.string().min(1).optional()
+});
+// system_prompt, description and user_prompt_template may use {{variables}}
+// (see promptTemplates.ts); a null user_prompt_template keeps the built-in layout.
+// A null model, temperature or max_output_tokens falls back to the defaults.
+const ProfileSettings = {
+  description: z.string().min(1).nullable().optional(),
+  user_prompt_template: z.string().min(1).nullable().optional(),
+  model: ModelSpec.nullable().optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  max_output_tokens: z.number().int().min(16).max(32000).nullable().optional(),
+  is_default: z.boolean().optional()
+};
+// A profile needs a system prompt or a description to build one from; without
+// a tone_key it is only used when picked by id
+const CreateAIProfile = z.object({
   name: z.string().min(1).max(100),
-  description: z.string().min(1)
+  tone_key: z.string().min(1).nullable().optional(),
+  system_prompt: z.string().min(1).optional(),
+  ...ProfileSettings
+}).refine(p => p.system_prompt || p.description, {
+  message: "Either system_prompt or description is required"
 });
-const UpdateCustomReviewerProfile = z.object({
+const UpdateAIProfile = z.object({
   name: z.string().min(1).max(100).optional(),
-  description: z.string().min(1).optional()
+  tone_key: z.string().min(1).nullable().optional(),
+  system_prompt: z.string().min(1).optional(),
+  ...ProfileSettings
+});
+const AI_PROFILE_COLUMNS = `id, name, tone_key, system_prompt, description, user_prompt_template,
+  model, temperature, max_output_tokens, is_default, is_system, created_at, updated_at`;
+// Render a review prompt without calling the model. The templates, when given,
+// are previewed in place of the profile's saved ones.
+const PreviewReviewReq = ReviewReq.extend({
+  systemPrompt: z.string().min(1).optional(),
+  userPromptTemplate: z.string().min(1).optional()
 });
 const CreateWikiPage = z.object({
   page_name: z.string().min(1),
-  page_type: z.enum(['character', 'location', 'concept', 'other']).optional(),
+  page_type: z.enum(WIKI_PAGE_TYPES).optional(),
   content: z.string().optional(),
   summary: z.string().optional(),
   aliases: z.array(z.string()).optional(),
@@ -57,13 +252,31 @@ const CreateWikiPage = z.object({
 });
 const UpdateWikiPage = z.object({
   page_name: z.string().min(1).optional(),
-  page_type: z.enum(['character', 'location', 'concept', 'other']).optional(),
+  page_type: z.enum(WIKI_PAGE_TYPES).optional(),
   content: z.string().optional(),
   summary: z.string().optional(),
   aliases: z.array(z.string()).optional(),
   tags: z.array(z.string()).optional(),
   is_major: z.boolean().optional()
 });
+// Spoiler-safe graph: only chapters up to and including this one in reading order
+const RelationshipsQuery = z.object({
+  asOf: z.string().min(1).optional()
+});
+const WikiProposalsQuery = z.object({
+  status: z.enum(WIKI_PROPOSAL_STATUSES).optional()
+});
+// Accept with the author's own version of the proposed content instead
+const WikiProposalDecision = z.object({
+  content: z.string().optional(),
+  summary: z.string().optional()
+});
+// Merge the source page into the target; content replaces the combined text
+const MergeWikiPages = z.object({
+  sourceId: z.number().int(),
+  content: z.string().optional(),
+  summary: z.string().optional()
+});
 
 // ---- Auth routes
 app.post("/auth/profile", authenticateJWT, async (req: AuthenticatedRequest, res) => {
@@ -165,16 +378,19 @@ app.get("/books", authenticateJWT, async (req: AuthenticatedRequest, res) => {
       return res.status(404).json({ error: "User profile not found" });
     }
 
+    // Soft-archived books are hidden unless asked for
+    const includeArchived = req.query.includeArchived === "true";
+
     const { rows } = await pool.query(
-      `SELECT b.id, b.title, b.created_at, b.updated_at,
+      `SELECT b.id, b.title, b.description, b.archived_at, b.created_at, b.updated_at,
               COUNT(c.id) as chapter_count,
               COALESCE(SUM(array_length(string_to_array(c.text, ' '), 1)), 0) as total_word_count
        FROM books b
        LEFT JOIN chapters c ON c.book_id = b.id
-       WHERE b.user_id = $1
-       GROUP BY b.id, b.title, b.created_at, b.updated_at
+       WHERE b.user_id = $1 AND ($2 OR b.archived_at IS NULL)
+       GROUP BY b.id, b.title, b.description, b.archived_at, b.created_at, b.updated_at
        ORDER BY b.updated_at DESC`,
-      [dbUser.id]
+      [dbUser.id, includeArchived]
     );
 
     res.json(rows);
@@ -184,10 +400,14 @@ app.get("/books", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   }
 });
 
-app.post("/chapters", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+app.put("/books/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const data = UpsertChapter.parse(req.body);
-    const wordCount = data.text.trim().split(/\s+/).length;
+    const bookId = req.params.id;
+    const parsed = UpdateBook.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid book update", details: parsed.error.issues });
+    }
+    const data = parsed.data;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -201,7 +421,7 @@ app.post("/chapters", authenticateJWT, async (req: AuthenticatedRequest, res) =>
     // Verify user owns the book
     const { rows: bookRows } = await pool.query(
       'SELECT user_id FROM books WHERE id = $1',
-      [data.bookId]
+      [bookId]
     );
 
     if (!bookRows.length) {
@@ -209,44 +429,43 @@ app.post("/chapters", authenticateJWT, async (req: AuthenticatedRequest, res) =>
     }
 
     if (bookRows[0].user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to add chapters to this book" });
+      return res.status(403).json({ error: "You don't have permission to modify this book" });
     }
 
-    // Insert or update chapter (no position fields needed)
-    await pool.query(
-      `INSERT INTO chapters(id, book_id, title, text, word_count, updated_at)
-       VALUES ($1,$2,$3,$4,$5, now())
-       ON CONFLICT (id) DO UPDATE SET
-         book_id=EXCLUDED.book_id,
-         title=EXCLUDED.title,
-         text=EXCLUDED.text,
-         word_count=EXCLUDED.word_count,
-         updated_at=now()`,
-      [data.id, data.bookId, data.title ?? null, data.text, wordCount]
-    );
+    const updates = [];
+    const values = [];
+    let paramIndex = 1;
 
-    // Add new chapter to the end of book's chapter_order array (only if not already present)
-    await pool.query(
-      `UPDATE books
-       SET chapter_order = CASE
-         WHEN $2 = ANY(chapter_order) THEN chapter_order
-         ELSE array_append(chapter_order, $2)
-       END
-       WHERE id = $1`,
-      [data.bookId, data.id]
+    if (data.title !== undefined) {
+      updates.push(`title = $${paramIndex++}`);
+      values.push(data.title);
+    }
+    if (data.description !== undefined) {
+      updates.push(`description = $${paramIndex++}`);
+      values.push(data.description);
+    }
+
+    updates.push(`updated_at = now()`);
+    values.push(bookId);
+
+    const { rows } = await pool.query(
+      `UPDATE books SET ${updates.join(', ')} WHERE id = $${paramIndex}
+       RETURNING id, title, description, archived_at, created_at, updated_at`,
+      values
     );
 
-    res.json({ ok: true, wordCount });
+    res.json(rows[0]);
   } catch (error) {
-    console.error("Create chapter error:", error);
-    res.status(500).json({ error: "Failed to create chapter" });
+    console.error("Update book error:", error);
+    res.status(500).json({ error: "Failed to update book" });
   }
 });
 
-// Generate + store a structured summary for a chapter
-app.post("/chapters/:id/summary", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
+// Permanently delete a book; parts, chapters, summaries, reviews, wiki pages,
+// characters and jobs go with it through ON DELETE CASCADE
+app.delete("/books/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const chapterId = req.params.id;
+    const bookId = req.params.id;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -257,289 +476,137 @@ app.post("/chapters/:id/summary", authenticateJWT, async (req: AuthenticatedRequ
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    const { rows } = await pool.query(
-      `SELECT c.id, c.title, c.text, c.book_id, b.title as book_title, b.user_id
-         FROM chapters c
-         JOIN books b ON c.book_id=b.id
-        WHERE c.id=$1`, [chapterId]
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
     );
 
-    if (!rows.length) {
-      return res.status(404).json({ error: "Chapter not found" });
-    }
-
-    const chapter = rows[0];
-
-    // Verify user owns the book
-    if (chapter.user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
     }
 
-    // Check if this is the first chapter by counting previous chapters
-    const { rows: chapterCountRows } = await pool.query(
-      `SELECT COUNT(*) as chapter_count
-       FROM chapters c
-       WHERE c.book_id = $1 AND c.id < $2`,
-      [chapter.book_id, chapterId]
-    );
-
-    const isFirstChapter = parseInt(chapterCountRows[0].chapter_count) === 0;
-
-    // call OpenAI Chat Completions API with JSON mode
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini", // Use a model that supports JSON mode
-      messages: [
-        { role: "system", content:
-          `You are an expert fiction editor. Produce a tight factual summary (150–250 words), include POV, main characters, and 4–8 bullet beats. No speculation. Return valid JSON only.${isFirstChapter ? ' IMPORTANT: This is the FIRST chapter of the book - there are no previous chapters to reference. Focus only on what happens in this opening chapter.' : ''}`},
-        { role: "user", content:
-          `Book: ${chapter.book_title} (${chapter.book_id})\n` +
-          `Chapter: ${chapter.id}${chapter.title ? ` — ${chapter.title}` : ""}${isFirstChapter ? ' (FIRST CHAPTER)' : ''}\n\n` +
-          `${isFirstChapter ? 'This is the opening chapter of the book. Summarize only what happens in this first chapter. Do not reference any previous events or chapters.\n\n' : ''}` +
-          "Return JSON only for this schema: {pov, characters[], beats[], spoilers_ok, summary}\n\n" +
-          chapter.text
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.3
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No content received from OpenAI");
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to delete this book" });
     }
-    const out = JSON.parse(content);
-
-    await pool.query(
-      `INSERT INTO chapter_summaries (chapter_id, pov, characters, beats, spoilers_ok, summary)
-       VALUES ($1,$2,$3,$4,$5,$6)
-       ON CONFLICT (chapter_id) DO UPDATE SET
-         pov=EXCLUDED.pov,
-         characters=EXCLUDED.characters,
-         beats=EXCLUDED.beats,
-         spoilers_ok=EXCLUDED.spoilers_ok,
-         summary=EXCLUDED.summary,
-         created_at=now()`,
-      [chapterId, out.pov || null, JSON.stringify(out.characters||[]),
-       JSON.stringify(out.beats||[]), !!out.spoilers_ok, out.summary]
-    );
 
-    // Update wiki pages for characters mentioned in this chapter
-    if (out.characters && out.characters.length > 0) {
-      await updateWikiPagesFromChapter(chapter.book_id, chapterId, out.characters, chapter.text, out.summary);
-    }
+    await pool.query('DELETE FROM books WHERE id = $1', [bookId]);
 
-    res.json({ ok: true, summary: out });
-  } catch (e) { next(e); }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete book error:", error);
+    res.status(500).json({ error: "Failed to delete book" });
+  }
 });
 
-// Update chapter summary manually
-app.put("/chapters/:id/summary", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
+// Copy a book with everything generated for it, e.g. to branch "draft v2".
+// Built on the archive export/restore so ids are remapped the same way.
+app.post("/books/:id/duplicate", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const chapterId = req.params.id;
-    const { summary } = req.body;
+    const bookId = req.params.id;
+    const parsed = DuplicateBook.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid duplicate options", details: parsed.error.issues });
+    }
+    const data = parsed.data;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
     }
 
-    if (!summary || typeof summary !== 'string') {
-      return res.status(400).json({ error: "Summary is required and must be a string" });
-    }
-
     const dbUser = await getUserFromAuth0Sub(req.user.sub);
     if (!dbUser) {
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Verify user owns the chapter
-    const { rows: chapterRows } = await pool.query(
-      `SELECT c.id, b.user_id
-       FROM chapters c
-       JOIN books b ON c.book_id = b.id
-       WHERE c.id = $1`,
-      [chapterId]
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id, title FROM books WHERE id = $1',
+      [bookId]
     );
 
-    if (!chapterRows.length) {
-      return res.status(404).json({ error: "Chapter not found" });
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
     }
 
-    if (chapterRows[0].user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to edit this chapter" });
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
     }
 
-    // Update just the summary field
-    await pool.query(
-      `UPDATE chapter_summaries
-       SET summary = $1, created_at = now()
-       WHERE chapter_id = $2`,
-      [summary, chapterId]
-    );
+    const archive = await exportBookArchive(bookId);
+    const result = await importBookArchive(archive, dbUser.id, {
+      bookId: data.id,
+      title: data.title || `${bookRows[0].title} (copy)`
+    });
 
-    res.json({ ok: true });
-  } catch (e) { next(e); }
+    res.json({ ok: true, ...result });
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Duplicate book error:", error);
+    res.status(500).json({ error: "Failed to duplicate book" });
+  }
 });
 
-// Helper function to update wiki pages from chapter summaries
-async function updateWikiPagesFromChapter(bookId: string, chapterId: string, characters: string[], chapterText: string, chapterSummary: string) {
-  try {
-    for (const characterName of characters) {
-      // Update or create book character entry first
-      await pool.query(
-        `INSERT INTO book_characters (book_id, character_name, first_mentioned_chapter, mention_count)
-         VALUES ($1, $2, $3, 1)
-         ON CONFLICT (book_id, character_name)
-         DO UPDATE SET
-           mention_count = book_characters.mention_count + 1,
-           updated_at = now()`,
-        [bookId, characterName, chapterId]
-      );
-      // Check if wiki page already exists for this character
-      const { rows: existingPages } = await pool.query(
-        'SELECT * FROM wiki_pages WHERE book_id = $1 AND page_name = $2',
-        [bookId, characterName]
-      );
+// Soft-archive hides a book from GET /books without deleting anything
+async function setBookArchived(req: AuthenticatedRequest, res: express.Response, archived: boolean) {
+  const bookId = req.params.id;
 
-      let wikiPageId: number;
-      let isNewPage = false;
+  if (!req.user) {
+    return res.status(401).json({ error: "User not authenticated" });
+  }
 
-      if (existingPages.length === 0) {
-        // Create new wiki page for this character
-        const newPageContent = await generateWikiContent(characterName, chapterText, chapterSummary, null);
+  const dbUser = await getUserFromAuth0Sub(req.user.sub);
+  if (!dbUser) {
+    return res.status(404).json({ error: "User profile not found" });
+  }
 
-        const { rows: newPageRows } = await pool.query(
-          `INSERT INTO wiki_pages (book_id, page_name, page_type, content, summary, created_by_ai)
-           VALUES ($1, $2, $3, $4, $5, $6)
-           RETURNING id`,
-          [bookId, characterName, 'character', newPageContent.content, newPageContent.summary, true]
-        );
+  // Verify user owns the book
+  const { rows: bookRows } = await pool.query(
+    'SELECT user_id FROM books WHERE id = $1',
+    [bookId]
+  );
 
-        wikiPageId = newPageRows[0].id;
-        isNewPage = true;
+  if (!bookRows.length) {
+    return res.status(404).json({ error: "Book not found" });
+  }
 
-        // Update book_characters to link to this wiki page
-        await pool.query(
-          `UPDATE book_characters SET has_wiki_page = true, wiki_page_id = $1
-           WHERE book_id = $2 AND character_name = $3`,
-          [wikiPageId, bookId, characterName]
-        );
+  if (bookRows[0].user_id !== dbUser.id) {
+    return res.status(403).json({ error: "You don't have permission to modify this book" });
+  }
 
-        // Log the creation
-        await pool.query(
-          `INSERT INTO wiki_updates (wiki_page_id, chapter_id, update_type, new_content, change_summary)
-           VALUES ($1, $2, $3, $4, $5)`,
-          [wikiPageId, chapterId, 'created', newPageContent.content, `Created from chapter summary - first mention of ${characterName}`]
-        );
-      } else {
-        // Update existing wiki page
-        const existingPage = existingPages[0];
-        wikiPageId = existingPage.id;
-
-        const updatedContent = await generateWikiContent(characterName, chapterText, chapterSummary, existingPage.content);
-
-        if (updatedContent.hasChanges) {
-          await pool.query(
-            `UPDATE wiki_pages SET content = $1, summary = $2, updated_at = now()
-             WHERE id = $3`,
-            [updatedContent.content, updatedContent.summary, wikiPageId]
-          );
+  const { rows } = await pool.query(
+    `UPDATE books
+     SET archived_at = CASE WHEN $1 THEN COALESCE(archived_at, now()) ELSE NULL END, updated_at = now()
+     WHERE id = $2
+     RETURNING id, title, description, archived_at, created_at, updated_at`,
+    [archived, bookId]
+  );
 
-          // Log the update
-          await pool.query(
-            `INSERT INTO wiki_updates (wiki_page_id, chapter_id, update_type, previous_content, new_content, change_summary, contradiction_notes)
-             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-            [
-              wikiPageId,
-              chapterId,
-              updatedContent.hasContradictions ? 'contradiction_noted' : 'updated',
-              existingPage.content,
-              updatedContent.content,
-              updatedContent.changeSummary,
-              updatedContent.contradictions || null
-            ]
-          );
-        }
-      }
+  res.json(rows[0]);
+}
 
-      // Record the mention in chapter_wiki_mentions
-      await pool.query(
-        `INSERT INTO chapter_wiki_mentions (chapter_id, wiki_page_id, mention_context)
-         VALUES ($1, $2, $3)
-         ON CONFLICT (chapter_id, wiki_page_id)
-         DO UPDATE SET mention_context = EXCLUDED.mention_context`,
-        [chapterId, wikiPageId, `Mentioned in chapter summary: ${chapterSummary.substring(0, 100)}...`]
-      );
-    }
+app.post("/books/:id/soft-archive", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    await setBookArchived(req, res, true);
   } catch (error) {
-    console.error('Error updating wiki pages from chapter:', error);
-    // Don't throw - we don't want wiki updates to fail the summary generation
+    console.error("Archive book error:", error);
+    res.status(500).json({ error: "Failed to archive book" });
   }
-}
+});
 
-// Generate or update wiki content using AI
-async function generateWikiContent(characterName: string, chapterText: string, chapterSummary: string, existingContent: string | null) {
+app.post("/books/:id/unarchive", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const isNewPage = !existingContent;
-
-    const systemPrompt = isNewPage
-      ? `You are a wiki editor creating a character page. Create a comprehensive character profile based on the information provided. Return JSON with: {content: "markdown content", summary: "brief summary", hasChanges: true}`
-      : `You are a wiki editor updating a character page. Compare the existing content with new information from the chapter. Update the wiki to include new information and note any contradictions. Return JSON with: {content: "updated markdown", summary: "updated summary", hasChanges: boolean, changeSummary: "what changed", hasContradictions: boolean, contradictions: "contradictions found"}`;
-
-    const userPrompt = isNewPage
-      ? `Create a wiki page for character: ${characterName}
-
-Chapter Summary: ${chapterSummary}
-
-Chapter Text Context: ${chapterText.substring(0, 2000)}...
-
-Create a character profile with sections for:
-- Basic Information
-- Appearance
-- Personality
-- Background
-- Relationships
-- Chapter Appearances`
-      : `Update the wiki page for character: ${characterName}
-
-EXISTING WIKI CONTENT:
-${existingContent}
-
-NEW CHAPTER INFORMATION:
-Chapter Summary: ${chapterSummary}
-Chapter Text Context: ${chapterText.substring(0, 2000)}...
-
-Update the wiki with any new information. If there are contradictions with existing content, note them clearly in a "Contradictions" section.`;
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.3
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No content received from OpenAI for wiki generation");
-    }
-
-    return JSON.parse(content);
+    await setBookArchived(req, res, false);
   } catch (error) {
-    console.error('Error generating wiki content:', error);
-    // Return a basic fallback
-    return {
-      content: `# ${characterName}\n\nMentioned in chapter summary: ${chapterSummary}`,
-      summary: `Character from the story`,
-      hasChanges: true,
-      changeSummary: 'Basic wiki page created due to AI generation error'
-    };
+    console.error("Unarchive book error:", error);
+    res.status(500).json({ error: "Failed to unarchive book" });
   }
-}
+});
 
-// ---- AI Profiles routes
-app.get("/ai-profiles", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+// Per-book model choice for each AI task (summary, wiki, review, panel)
+app.get("/books/:id/model-settings", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -550,25 +617,38 @@ app.get("/ai-profiles", authenticateJWT, async (req: AuthenticatedRequest, res)
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Get user's custom profiles and system profiles
-    const { rows } = await pool.query(
-      `SELECT id, name, tone_key, system_prompt, is_default, is_system, created_at, updated_at
-       FROM ai_profiles
-       WHERE user_id = $1 OR is_system = true
-       ORDER BY is_system DESC, name ASC`,
-      [dbUser.id]
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id, model_settings FROM books WHERE id = $1',
+      [req.params.id]
     );
 
-    res.json(rows);
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    const settings: ModelSettings = bookRows[0].model_settings || {};
+    const resolved = Object.fromEntries(
+      LLM_TASKS.map(task => [task, resolveModel(task, settings)])
+    );
+
+    res.json({ settings, resolved });
   } catch (error) {
-    console.error("Get AI profiles error:", error);
-    res.status(500).json({ error: "Failed to get AI profiles" });
+    console.error("Get model settings error:", error);
+    res.status(500).json({ error: "Failed to get model settings" });
   }
 });
 
-app.get("/ai-profiles/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+app.put("/books/:id/model-settings", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const profileId = req.params.id;
+    const parsed = UpdateModelSettings.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid model settings", details: parsed.error.issues });
+    }
+    const data = parsed.data;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -579,46 +659,45 @@ app.get("/ai-profiles/:id", authenticateJWT, async (req: AuthenticatedRequest, r
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Get AI profile details
-    const { rows: profileRows } = await pool.query(
-      `SELECT id, name, tone_key, system_prompt, created_at, is_system, is_default
-       FROM ai_profiles
-       WHERE id = $1`,
-      [profileId]
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id, model_settings FROM books WHERE id = $1',
+      [req.params.id]
     );
 
-    if (!profileRows.length) {
-      return res.status(404).json({ error: "AI profile not found" });
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
     }
 
-    const profile = profileRows[0];
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to modify this book" });
+    }
 
-    // Get all reviews by this AI profile that the user can access (reviews on user's chapters)
-    const { rows: reviewRows } = await pool.query(
-      `SELECT r.id, r.review_text, r.created_at, r.updated_at,
-              c.id as chapter_id, c.title as chapter_title,
-              b.id as book_id, b.title as book_title
-       FROM chapter_reviews r
-       JOIN chapters c ON r.chapter_id = c.id
-       JOIN books b ON c.book_id = b.id
-       WHERE r.ai_profile_id = $1 AND b.user_id = $2
-       ORDER BY r.created_at DESC`,
-      [profileId, dbUser.id]
+    // Merge with existing settings; null clears a task back to the server default
+    const settings: ModelSettings = { ...(bookRows[0].model_settings || {}) };
+    for (const task of LLM_TASKS) {
+      if (data[task] === null) {
+        delete settings[task];
+      } else if (data[task] !== undefined) {
+        settings[task] = data[task];
+      }
+    }
+
+    await pool.query(
+      'UPDATE books SET model_settings = $1, updated_at = now() WHERE id = $2',
+      [JSON.stringify(settings), req.params.id]
     );
 
-    res.json({
-      profile,
-      reviews: reviewRows
-    });
+    res.json({ ok: true, settings });
   } catch (error) {
-    console.error("Get AI profile error:", error);
-    res.status(500).json({ error: "Failed to get AI profile" });
+    console.error("Update model settings error:", error);
+    res.status(500).json({ error: "Failed to update model settings" });
   }
 });
 
-app.post("/ai-profiles", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+app.post("/chapters", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const data = CreateAIProfile.parse(req.body);
+    const data = UpsertChapter.parse(req.body);
+    const wordCount = data.text.trim().split(/\s+/).length;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -629,32 +708,130 @@ app.post("/ai-profiles", authenticateJWT, async (req: AuthenticatedRequest, res)
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // If setting as default, unset other defaults first
-    if (data.is_default) {
-      await pool.query(
-        'UPDATE ai_profiles SET is_default = false WHERE user_id = $1',
-        [dbUser.id]
-      );
-    }
-
-    const { rows } = await pool.query(
-      `INSERT INTO ai_profiles (user_id, name, tone_key, system_prompt, is_default)
-       VALUES ($1, $2, $3, $4, $5)
-       RETURNING id, name, tone_key, system_prompt, is_default, is_system, created_at, updated_at`,
-      [dbUser.id, data.name, data.tone_key, data.system_prompt, data.is_default || false]
-    );
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [data.bookId]
+    );
 
-    res.json({ ok: true, profile: rows[0] });
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to add chapters to this book" });
+    }
+
+    // The chapter, its revision and its place in the reading order are saved together
+    const revisionId = await withTx(async (client) => {
+      // Insert or update chapter (no position fields needed)
+      await client.query(
+        `INSERT INTO chapters(id, book_id, title, text, word_count, updated_at)
+         VALUES ($1,$2,$3,$4,$5, now())
+         ON CONFLICT (id) DO UPDATE SET
+           book_id=EXCLUDED.book_id,
+           title=EXCLUDED.title,
+           text=EXCLUDED.text,
+           word_count=EXCLUDED.word_count,
+           updated_at=now()`,
+        [data.id, data.bookId, data.title ?? null, data.text, wordCount]
+      );
+
+      const revisionId = await recordRevision(data.id, "upsert", null, client);
+
+      // Add new chapter to the end of book's chapter_order array (only if not already present)
+      await client.query(
+        `UPDATE books
+         SET chapter_order = CASE
+           WHEN $2 = ANY(chapter_order) THEN chapter_order
+           ELSE array_append(chapter_order, $2)
+         END
+         WHERE id = $1`,
+        [data.bookId, data.id]
+      );
+
+      return revisionId;
+    });
+
+    res.json({ ok: true, wordCount, revisionId });
   } catch (error) {
-    console.error("Create AI profile error:", error);
-    res.status(500).json({ error: "Failed to create AI profile" });
+    console.error("Create chapter error:", error);
+    res.status(500).json({ error: "Failed to create chapter" });
   }
 });
 
-app.put("/ai-profiles/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+// Delete a chapter and keep the book consistent: drop it from the ordering
+// arrays, undo its character mentions and move each character's first mention
+// to their next summarized appearance. Summaries, reviews, revisions and wiki
+// mentions are removed by ON DELETE CASCADE.
+async function deleteChapter(chapterId: string, bookId: string, client: any) {
+  const order = (await getReadingOrder(bookId, client)).filter(id => id !== chapterId);
+
+  await client.query(
+    'UPDATE books SET chapter_order = array_remove(chapter_order, $1), updated_at = now() WHERE id = $2',
+    [chapterId, bookId]
+  );
+  await client.query(
+    'UPDATE book_parts SET chapter_order = array_remove(chapter_order, $1), updated_at = now() WHERE book_id = $2',
+    [chapterId, bookId]
+  );
+
+  await client.query(
+    `UPDATE book_characters SET mention_count = GREATEST(mention_count - 1, 0), updated_at = now()
+     WHERE book_id = $1 AND (character_name IN (
+       SELECT jsonb_array_elements_text(characters) FROM chapter_summaries WHERE chapter_id = $2
+     ) OR wiki_page_id IN (
+       SELECT wiki_page_id FROM chapter_wiki_mentions WHERE chapter_id = $2
+     ))`,
+    [bookId, chapterId]
+  );
+
+  const { rows: firstMentioned } = await client.query(
+    'SELECT id, character_name, wiki_page_id FROM book_characters WHERE book_id = $1 AND first_mentioned_chapter = $2',
+    [bookId, chapterId]
+  );
+  if (firstMentioned.length) {
+    const { rows: summaries } = await client.query(
+      `SELECT cs.chapter_id, cs.characters
+       FROM chapter_summaries cs
+       JOIN chapters c ON c.id = cs.chapter_id
+       WHERE c.book_id = $1 AND c.id <> $2`,
+      [bookId, chapterId]
+    );
+    const charactersByChapter = new Map<string, string[]>(summaries.map((s: any) => [s.chapter_id, s.characters || []]));
+    // Summaries may name the character by an alias; their wiki mentions don't
+    const { rows: mentions } = await client.query(
+      `SELECT m.chapter_id, m.wiki_page_id
+       FROM chapter_wiki_mentions m
+       JOIN chapters c ON c.id = m.chapter_id
+       WHERE c.book_id = $1 AND c.id <> $2`,
+      [bookId, chapterId]
+    );
+    const mentioned = new Set(mentions.map((m: any) => `${m.chapter_id}:${m.wiki_page_id}`));
+
+    for (const character of firstMentioned) {
+      const next = order.find(id =>
+        charactersByChapter.get(id)?.includes(character.character_name) ||
+        (character.wiki_page_id !== null && mentioned.has(`${id}:${character.wiki_page_id}`))
+      ) ?? null;
+      await client.query(
+        'UPDATE book_characters SET first_mentioned_chapter = $1, updated_at = now() WHERE id = $2',
+        [next, character.id]
+      );
+    }
+  }
+
+  // Wiki history outlives the chapter it came from
+  await client.query('UPDATE wiki_updates SET chapter_id = NULL WHERE chapter_id = $1', [chapterId]);
+
+  await client.query('DELETE FROM chapters WHERE id = $1', [chapterId]);
+
+  await refreshCharacterRelationships(bookId, client);
+}
+
+app.delete("/chapters/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const profileId = req.params.id;
-    const data = UpdateAIProfile.parse(req.body);
+    const chapterId = req.params.id;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -665,70 +842,239 @@ app.put("/ai-profiles/:id", authenticateJWT, async (req: AuthenticatedRequest, r
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Verify user owns the profile and it's not a system profile
-    const { rows: profileRows } = await pool.query(
-      'SELECT user_id, is_system FROM ai_profiles WHERE id = $1',
-      [profileId]
+    // Verify user owns the chapter's book
+    const { rows: chapterRows } = await pool.query(
+      `SELECT c.book_id, b.user_id
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       WHERE c.id = $1`,
+      [chapterId]
     );
 
-    if (!profileRows.length) {
-      return res.status(404).json({ error: "AI profile not found" });
+    if (!chapterRows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
     }
 
-    if (profileRows[0].user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to edit this profile" });
+    if (chapterRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to delete this chapter" });
     }
 
-    if (profileRows[0].is_system) {
-      return res.status(403).json({ error: "Cannot edit system profiles" });
+    await withTx(client => deleteChapter(chapterId, chapterRows[0].book_id, client));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete chapter error:", error);
+    res.status(500).json({ error: "Failed to delete chapter" });
+  }
+});
+
+// Next free "<bookId>-ch-<n>" chapter ids (chapter ids are global, not per book)
+async function generateChapterIds(bookId: string, count: number, client: any = pool): Promise<string[]> {
+  const prefix = `${bookId}-ch-`;
+  const { rows } = await client.query(
+    'SELECT id FROM chapters WHERE left(id, length($1)) = $1',
+    [prefix]
+  );
+  const taken = new Set(rows.map((r: any) => r.id));
+
+  const ids: string[] = [];
+  for (let n = 1; ids.length < count; n++) {
+    if (!taken.has(`${prefix}${n}`)) {
+      ids.push(`${prefix}${n}`);
+    }
+  }
+  return ids;
+}
+
+// Import a .docx/.md/.txt manuscript, split into chapters and parts.
+// With dryRun=true the split is returned as a preview and nothing is written.
+app.post("/books/:id/import", authenticateJWT, upload.single("file"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const bookId = req.params.id;
+    const parsed = ImportManuscript.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid import options", details: parsed.error.issues });
     }
+    const options = parsed.data;
 
-    // If setting as default, unset other defaults first
-    if (data.is_default) {
-      await pool.query(
-        'UPDATE ai_profiles SET is_default = false WHERE user_id = $1',
-        [dbUser.id]
-      );
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
     }
 
-    // Build dynamic update query
-    const updates = [];
-    const values = [];
-    let paramIndex = 1;
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to modify this book" });
+    }
 
-    if (data.name !== undefined) {
-      updates.push(`name = $${paramIndex++}`);
-      values.push(data.name);
+    if (!req.file) {
+      return res.status(400).json({ error: "A manuscript file is required (form field \"file\")" });
     }
-    if (data.system_prompt !== undefined) {
-      updates.push(`system_prompt = $${paramIndex++}`);
-      values.push(data.system_prompt);
+
+    const format = options.format || detectFormat(req.file.originalname, req.file.mimetype);
+    if (!format) {
+      return res.status(400).json({ error: "Unsupported file type. Upload a .docx, .md or .txt file" });
     }
-    if (data.is_default !== undefined) {
-      updates.push(`is_default = $${paramIndex++}`);
-      values.push(data.is_default);
+
+    if (options.splitOn === "separator" && !options.separator) {
+      return res.status(400).json({ error: "separator is required when splitOn is \"separator\"" });
     }
 
-    updates.push(`updated_at = now()`);
-    values.push(profileId);
+    const manuscript = await parseManuscript(req.file.buffer, format, options);
+    if (!manuscript.chapters.length) {
+      return res.status(400).json({ error: "No chapter text found in the manuscript" });
+    }
 
-    const { rows } = await pool.query(
-      `UPDATE ai_profiles SET ${updates.join(', ')}
-       WHERE id = $${paramIndex}
-       RETURNING id, name, tone_key, system_prompt, is_default, is_system, created_at, updated_at`,
-      values
+    const chapterIds = await generateChapterIds(bookId, manuscript.chapters.length);
+    const chapters = manuscript.chapters.map((chapter, index) => ({
+      id: chapterIds[index],
+      title: chapter.title,
+      text: chapter.text,
+      wordCount: chapter.text.trim().split(/\s+/).length,
+      partIndex: chapter.partIndex
+    }));
+    const parts = manuscript.parts.map((part, index) => ({
+      title: part.title,
+      chapterIds: chapters.filter(c => c.partIndex === index).map(c => c.id)
+    }));
+
+    if (options.dryRun === "true") {
+      return res.json({
+        ok: true,
+        dryRun: true,
+        format,
+        parts,
+        chapters: chapters.map(({ text, ...chapter }) => ({
+          ...chapter,
+          partTitle: chapter.partIndex !== null ? parts[chapter.partIndex].title : null,
+          excerpt: text.slice(0, 200)
+        }))
+      });
+    }
+
+    await withTx(async (client) => {
+      // Ids are generated again inside the transaction in case chapters were added meanwhile
+      const ids = await generateChapterIds(bookId, chapters.length, client);
+      chapters.forEach((chapter, index) => { chapter.id = ids[index]; });
+      parts.forEach((part, index) => {
+        part.chapterIds = chapters.filter(c => c.partIndex === index).map(c => c.id);
+      });
+
+      const partIds: number[] = [];
+      for (const part of parts) {
+        const { rows } = await client.query(
+          'INSERT INTO book_parts (book_id, name, chapter_order) VALUES ($1, $2, $3) RETURNING id',
+          [bookId, part.title, part.chapterIds]
+        );
+        partIds.push(rows[0].id);
+      }
+
+      for (const chapter of chapters) {
+        await client.query(
+          `INSERT INTO chapters (id, book_id, title, text, word_count, part_id, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, now())`,
+          [chapter.id, bookId, chapter.title, chapter.text, chapter.wordCount,
+           chapter.partIndex !== null ? partIds[chapter.partIndex] : null]
+        );
+        await recordRevision(chapter.id, "import", null, client);
+      }
+
+      await client.query(
+        'UPDATE books SET chapter_order = chapter_order || $1::text[], updated_at = now() WHERE id = $2',
+        [chapters.map(c => c.id), bookId]
+      );
+    });
+
+    res.json({
+      ok: true,
+      dryRun: false,
+      format,
+      parts,
+      chapters: chapters.map(({ text, ...chapter }) => chapter)
+    });
+  } catch (error) {
+    console.error("Import manuscript error:", error);
+    res.status(500).json({ error: "Failed to import manuscript" });
+  }
+});
+
+// Download the whole book in reading order. manuscript=true applies standard
+// (Shunn) manuscript formatting to DOCX and plain text exports.
+app.get("/books/:id/export", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const bookId = req.params.id;
+    const parsed = ExportQuery.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid export options", details: parsed.error.issues });
+    }
+    const query = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
     );
 
-    res.json({ ok: true, profile: rows[0] });
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    const manuscript = query.manuscript === "true";
+    if (manuscript && (query.format === "epub" || query.format === "md")) {
+      return res.status(400).json({ error: "Manuscript format is only available for docx and txt exports" });
+    }
+
+    const book = await loadBookForExport(bookId, {
+      includeWiki: query.includeWiki === "true" && !manuscript,
+      authorName: query.authorName
+    });
+    const { body, contentType } = await renderExport(book, {
+      format: query.format,
+      manuscript
+    });
+
+    const filename = (book.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || bookId) +
+      (manuscript ? "-manuscript" : "");
+    // attachment() quotes the name and adds a UTF-8 filename* for anything outside Latin-1
+    res.attachment(`${filename}.${query.format}`);
+    res.setHeader("Content-Type", contentType);
+    res.send(body);
   } catch (error) {
-    console.error("Update AI profile error:", error);
-    res.status(500).json({ error: "Failed to update AI profile" });
+    console.error("Export book error:", error);
+    res.status(500).json({ error: "Failed to export book" });
   }
 });
 
-app.delete("/ai-profiles/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+// Full JSON archive of a book and everything generated for it, for backups
+app.get("/books/:id/archive", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const profileId = req.params.id;
+    const bookId = req.params.id;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -739,35 +1085,77 @@ app.delete("/ai-profiles/:id", authenticateJWT, async (req: AuthenticatedRequest
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Verify user owns the profile and it's not a system profile
-    const { rows: profileRows } = await pool.query(
-      'SELECT user_id, is_system FROM ai_profiles WHERE id = $1',
-      [profileId]
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
     );
 
-    if (!profileRows.length) {
-      return res.status(404).json({ error: "AI profile not found" });
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
     }
 
-    if (profileRows[0].user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to delete this profile" });
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
     }
 
-    if (profileRows[0].is_system) {
-      return res.status(403).json({ error: "Cannot delete system profiles" });
+    const archive = await exportBookArchive(bookId);
+
+    res.attachment(`${bookId}.archive.json`);
+    res.json(archive);
+  } catch (error) {
+    console.error("Archive book error:", error);
+    res.status(500).json({ error: "Failed to archive book" });
+  }
+});
+
+// Restore an archive as a new book owned by the current user. The archive is the
+// JSON body, or a multipart "file" upload for archives over the JSON body limit.
+app.post("/books/archive", authenticateJWT, upload.single("file"), async (req: AuthenticatedRequest, res) => {
+  try {
+    const parsedQuery = RestoreArchiveQuery.safeParse(req.query);
+    if (!parsedQuery.success) {
+      return res.status(400).json({ error: "Invalid restore options", details: parsedQuery.error.issues });
     }
+    const options = parsedQuery.data;
 
-    await pool.query('DELETE FROM ai_profiles WHERE id = $1', [profileId]);
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
 
-    res.json({ ok: true });
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    let body: unknown = req.body;
+    if (req.file) {
+      try {
+        body = JSON.parse(req.file.buffer.toString("utf8"));
+      } catch {
+        return res.status(400).json({ error: "Archive file is not valid JSON" });
+      }
+    }
+
+    const parsed = BookArchiveBody.safeParse(body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid book archive", details: parsed.error.issues });
+    }
+
+    const result = await importBookArchive(parsed.data, dbUser.id, options);
+
+    res.json({ ok: true, ...result });
   } catch (error) {
-    console.error("Delete AI profile error:", error);
-    res.status(500).json({ error: "Failed to delete AI profile" });
+    if (error instanceof ArchiveError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Restore archive error:", error);
+    res.status(500).json({ error: "Failed to restore book archive" });
   }
 });
 
-// ---- Chapter Reviews routes
-app.get("/chapters/:id/reviews", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+// Generate + store a structured summary for a chapter
+app.post("/chapters/:id/summary", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
   try {
     const chapterId = req.params.id;
 
@@ -780,94 +1168,2367 @@ app.get("/chapters/:id/reviews", authenticateJWT, async (req: AuthenticatedReque
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Verify user owns the chapter
-    const { rows: chapterRows } = await pool.query(
-      `SELECT c.id, b.user_id
-       FROM chapters c
-       JOIN books b ON c.book_id = b.id
-       WHERE c.id = $1`,
-      [chapterId]
+    const { rows } = await pool.query(
+      `SELECT c.id, c.book_id, b.user_id
+         FROM chapters c
+         JOIN books b ON c.book_id=b.id
+        WHERE c.id=$1`, [chapterId]
     );
 
-    if (!chapterRows.length) {
+    if (!rows.length) {
       return res.status(404).json({ error: "Chapter not found" });
     }
 
-    if (chapterRows[0].user_id !== dbUser.id) {
+    const chapter = rows[0];
+
+    // Verify user owns the book
+    if (chapter.user_id !== dbUser.id) {
       return res.status(403).json({ error: "You don't have permission to access this chapter" });
     }
 
-    // Get all reviews for this chapter (both AI profiles and custom profiles)
-    const { rows } = await pool.query(
-      `SELECT r.id, r.review_text, r.prompt_used, r.created_at, r.updated_at,
-              CASE
-                WHEN r.ai_profile_id IS NOT NULL THEN r.ai_profile_id::text
-                WHEN r.custom_profile_id IS NOT NULL THEN 'custom-' || r.custom_profile_id::text
-                ELSE NULL
-              END as profile_id,
-              COALESCE(p.name, cp.name) as profile_name,
-              p.tone_key,
-              CASE WHEN cp.id IS NOT NULL THEN true ELSE false END as is_custom
-       FROM chapter_reviews r
-       LEFT JOIN ai_profiles p ON r.ai_profile_id = p.id
-       LEFT JOIN custom_reviewer_profiles cp ON r.custom_profile_id = cp.id
-       WHERE r.chapter_id = $1
-       ORDER BY r.created_at DESC`,
-      [chapterId]
-    );
+    const { summary: out } = await summarizeChapter(chapterId);
 
-    res.json(rows);
-  } catch (error) {
-    console.error("Get chapter reviews error:", error);
-    res.status(500).json({ error: "Failed to get chapter reviews" });
-  }
+    // Update wiki pages for the characters, places and other entities in this
+    // chapter in the background, since it takes one model call per entity
+    let wikiJobId: number | null = null;
+    if (mentionsWikiEntities(out)) {
+      const wikiJob = await enqueueJob({
+        userId: dbUser.id,
+        bookId: chapter.book_id,
+        chapterId,
+        type: "wiki_update"
+      });
+      wikiJobId = wikiJob.id;
+    }
+
+    // Check the chapter against the wiki and earlier chapters
+    const continuityJob = await enqueueJob({
+      userId: dbUser.id,
+      bookId: chapter.book_id,
+      chapterId,
+      type: "continuity_check"
+    });
+
+    res.json({ ok: true, summary: out, wikiJobId, continuityJobId: continuityJob.id });
+  } catch (e) { next(e); }
 });
 
-app.delete("/reviews/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+// Update chapter summary manually
+app.put("/chapters/:id/summary", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
   try {
-    const reviewId = req.params.id;
+    const chapterId = req.params.id;
+    const { summary } = req.body;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
     }
 
+    if (!summary || typeof summary !== 'string') {
+      return res.status(400).json({ error: "Summary is required and must be a string" });
+    }
+
     const dbUser = await getUserFromAuth0Sub(req.user.sub);
     if (!dbUser) {
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Verify user owns the chapter this review belongs to
-    const { rows: reviewRows } = await pool.query(
-      `SELECT r.id, b.user_id
+    // Verify user owns the chapter
+    const { rows: chapterRows } = await pool.query(
+      `SELECT c.id, b.user_id
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       WHERE c.id = $1`,
+      [chapterId]
+    );
+
+    if (!chapterRows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
+    }
+
+    if (chapterRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to edit this chapter" });
+    }
+
+    // Update just the summary field; a manual edit vouches for the current text
+    await pool.query(
+      `UPDATE chapter_summaries s
+       SET summary = $1, content_hash = ${contentHashSql("c.text")}, created_at = now()
+       FROM chapters c
+       WHERE s.chapter_id = $2 AND c.id = s.chapter_id`,
+      [summary, chapterId]
+    );
+
+    res.json({ ok: true });
+  } catch (e) { next(e); }
+});
+
+// ---- AI Profiles routes
+// Variables available to prompt templates, with what each one holds
+app.get("/ai-profiles/template-variables", authenticateJWT, (_req, res) => {
+  res.json({
+    variables: TEMPLATE_VARIABLES,
+    wiki: "{{wiki:Page Name}} inserts the content of that wiki page of the book"
+  });
+});
+
+app.get("/ai-profiles", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Get user's custom profiles and system profiles
+    const { rows } = await pool.query(
+      `SELECT ${AI_PROFILE_COLUMNS}
+       FROM ai_profiles
+       WHERE user_id = $1 OR is_system = true
+       ORDER BY is_system DESC, name ASC`,
+      [dbUser.id]
+    );
+
+    res.json(rows);
+  } catch (error) {
+    console.error("Get AI profiles error:", error);
+    res.status(500).json({ error: "Failed to get AI profiles" });
+  }
+});
+
+app.get("/ai-profiles/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const profileId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Get AI profile details
+    const { rows: profileRows } = await pool.query(
+      `SELECT ${AI_PROFILE_COLUMNS}
+       FROM ai_profiles
+       WHERE id = $1 AND (user_id = $2 OR is_system = true)`,
+      [profileId, dbUser.id]
+    );
+
+    if (!profileRows.length) {
+      return res.status(404).json({ error: "AI profile not found" });
+    }
+
+    const profile = profileRows[0];
+
+    // Get all reviews by this AI profile that the user can access (reviews on user's chapters)
+    const { rows: reviewRows } = await pool.query(
+      `SELECT r.id, r.review_text, r.created_at, r.updated_at,
+              c.id as chapter_id, c.title as chapter_title,
+              b.id as book_id, b.title as book_title
        FROM chapter_reviews r
        JOIN chapters c ON r.chapter_id = c.id
        JOIN books b ON c.book_id = b.id
-       WHERE r.id = $1`,
-      [reviewId]
+       WHERE r.ai_profile_id = $1 AND b.user_id = $2 AND r.review_kind = 'review'
+       ORDER BY r.created_at DESC`,
+      [profileId, dbUser.id]
+    );
+
+    res.json({
+      profile,
+      reviews: reviewRows
+    });
+  } catch (error) {
+    console.error("Get AI profile error:", error);
+    res.status(500).json({ error: "Failed to get AI profile" });
+  }
+});
+
+app.post("/ai-profiles", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const data = CreateAIProfile.parse(req.body);
+
+    const templateErrors = validateTemplateFields({
+      system_prompt: data.system_prompt,
+      description: data.description,
+      user_prompt_template: data.user_prompt_template
+    });
+    if (templateErrors.length) {
+      return res.status(400).json({ error: "Invalid prompt template", details: templateErrors });
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // If setting as default, unset other defaults first
+    if (data.is_default) {
+      await pool.query(
+        'UPDATE ai_profiles SET is_default = false WHERE user_id = $1',
+        [dbUser.id]
+      );
+    }
+
+    const { rows } = await pool.query(
+      `INSERT INTO ai_profiles (user_id, name, tone_key, system_prompt, description, user_prompt_template,
+                                model, temperature, max_output_tokens, is_default)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING ${AI_PROFILE_COLUMNS}`,
+      [dbUser.id, data.name, data.tone_key ?? null, data.system_prompt ?? DESCRIPTION_SYSTEM_TEMPLATE,
+       data.description ?? null, data.user_prompt_template ?? null, data.model ?? null,
+       data.temperature ?? null, data.max_output_tokens ?? null, data.is_default || false]
+    );
+
+    res.json({ ok: true, profile: rows[0] });
+  } catch (error) {
+    console.error("Create AI profile error:", error);
+    if (error instanceof Error && error.message.includes('duplicate key')) {
+      res.status(409).json({ error: "You already have a profile for this tone_key" });
+    } else {
+      res.status(500).json({ error: "Failed to create AI profile" });
+    }
+  }
+});
+
+app.put("/ai-profiles/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const profileId = req.params.id;
+    const data = UpdateAIProfile.parse(req.body);
+
+    const templateErrors = validateTemplateFields({
+      system_prompt: data.system_prompt,
+      description: data.description,
+      user_prompt_template: data.user_prompt_template
+    });
+    if (templateErrors.length) {
+      return res.status(400).json({ error: "Invalid prompt template", details: templateErrors });
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the profile and it's not a system profile
+    const { rows: profileRows } = await pool.query(
+      'SELECT user_id, is_system FROM ai_profiles WHERE id = $1',
+      [profileId]
+    );
+
+    if (!profileRows.length) {
+      return res.status(404).json({ error: "AI profile not found" });
+    }
+
+    if (profileRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to edit this profile" });
+    }
+
+    if (profileRows[0].is_system) {
+      return res.status(403).json({ error: "Cannot edit system profiles" });
+    }
+
+    // If setting as default, unset other defaults first
+    if (data.is_default) {
+      await pool.query(
+        'UPDATE ai_profiles SET is_default = false WHERE user_id = $1',
+        [dbUser.id]
+      );
+    }
+
+    // Build dynamic update query
+    const updates = [];
+    const values = [];
+    let paramIndex = 1;
+
+    for (const [column, value] of Object.entries(data)) {
+      if (value !== undefined) {
+        updates.push(`${column} = $${paramIndex++}`);
+        values.push(value);
+      }
+    }
+
+    updates.push(`updated_at = now()`);
+    values.push(profileId);
+
+    const { rows } = await pool.query(
+      `UPDATE ai_profiles SET ${updates.join(', ')}
+       WHERE id = $${paramIndex}
+       RETURNING ${AI_PROFILE_COLUMNS}`,
+      values
+    );
+
+    res.json({ ok: true, profile: rows[0] });
+  } catch (error) {
+    console.error("Update AI profile error:", error);
+    if (error instanceof Error && error.message.includes('duplicate key')) {
+      res.status(409).json({ error: "You already have a profile for this tone_key" });
+    } else {
+      res.status(500).json({ error: "Failed to update AI profile" });
+    }
+  }
+});
+
+app.delete("/ai-profiles/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const profileId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the profile and it's not a system profile
+    const { rows: profileRows } = await pool.query(
+      'SELECT user_id, is_system FROM ai_profiles WHERE id = $1',
+      [profileId]
+    );
+
+    if (!profileRows.length) {
+      return res.status(404).json({ error: "AI profile not found" });
+    }
+
+    if (profileRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to delete this profile" });
+    }
+
+    if (profileRows[0].is_system) {
+      return res.status(403).json({ error: "Cannot delete system profiles" });
+    }
+
+    await pool.query('DELETE FROM ai_profiles WHERE id = $1', [profileId]);
+
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Delete AI profile error:", error);
+    res.status(500).json({ error: "Failed to delete AI profile" });
+  }
+});
+
+// ---- Chapter Reviews routes
+app.get("/chapters/:id/reviews", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const chapterId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the chapter
+    const { rows: chapterRows } = await pool.query(
+      `SELECT c.id, b.user_id
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       WHERE c.id = $1`,
+      [chapterId]
+    );
+
+    if (!chapterRows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
+    }
+
+    if (chapterRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    }
+
+    // Latest version per profile; ?all=true returns every version
+    const allVersions = req.query.all === "true";
+    const { rows } = await pool.query(
+      `SELECT r.id, r.review_text, r.prompt_used, r.revision_id, r.version, r.is_pinned,
+              r.created_at, r.updated_at,
+              r.content_hash IS DISTINCT FROM ${contentHashSql("c.text")} as is_stale,
+              r.ai_profile_id as profile_id,
+              p.name as profile_name,
+              p.tone_key,
+              NOT p.is_system as is_custom,
+              (SELECT COUNT(*)::int FROM chapter_reviews v
+                WHERE v.chapter_id = r.chapter_id AND v.ai_profile_id = r.ai_profile_id
+                  AND v.review_kind = 'review') as version_count,
+              (SELECT v.id FROM chapter_reviews v
+                WHERE v.chapter_id = r.chapter_id AND v.ai_profile_id = r.ai_profile_id
+                  AND v.is_pinned) as pinned_review_id
+       FROM ${allVersions ? "chapter_reviews" : LATEST_REVIEWS_SQL} r
+       JOIN chapters c ON r.chapter_id = c.id
+       JOIN ai_profiles p ON r.ai_profile_id = p.id
+       WHERE r.chapter_id = $1 AND r.review_kind = 'review'
+       ORDER BY r.created_at DESC, r.id DESC`,
+      [chapterId]
+    );
+
+    res.json(rows);
+  } catch (error) {
+    console.error("Get chapter reviews error:", error);
+    res.status(500).json({ error: "Failed to get chapter reviews" });
+  }
+});
+
+// Review versions: load one review with ownership check, or null after responding
+async function getOwnedReview(req: AuthenticatedRequest, res: express.Response, reviewId: string) {
+  if (!req.user) {
+    res.status(401).json({ error: "User not authenticated" });
+    return null;
+  }
+
+  const dbUser = await getUserFromAuth0Sub(req.user.sub);
+  if (!dbUser) {
+    res.status(404).json({ error: "User profile not found" });
+    return null;
+  }
+
+  const { rows } = await pool.query(
+    `SELECT r.id, r.chapter_id, r.ai_profile_id, r.review_text, r.prompt_used, r.review_kind,
+            r.revision_id, r.version, r.is_pinned, r.created_at, r.updated_at,
+            r.content_hash IS DISTINCT FROM ${contentHashSql("c.text")} as is_stale,
+            r.ai_profile_id as profile_id,
+            p.name as profile_name,
+            b.user_id
+     FROM chapter_reviews r
+     JOIN chapters c ON r.chapter_id = c.id
+     JOIN books b ON c.book_id = b.id
+     JOIN ai_profiles p ON r.ai_profile_id = p.id
+     WHERE r.id = $1`,
+    [reviewId]
+  );
+
+  if (!rows.length) {
+    res.status(404).json({ error: "Review not found" });
+    return null;
+  }
+
+  if (rows[0].user_id !== dbUser.id) {
+    res.status(403).json({ error: "You don't have permission to access this review" });
+    return null;
+  }
+
+  const { user_id, ...review } = rows[0];
+  return review;
+}
+
+// Compare two review generations side by side, with a word diff between them
+app.get("/reviews/compare", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { a, b } = req.query;
+    if (typeof a !== "string" || typeof b !== "string") {
+      return res.status(400).json({ error: "Query parameters a and b (review ids) are required" });
+    }
+
+    const left = await getOwnedReview(req, res, a);
+    if (!left) return;
+    const right = await getOwnedReview(req, res, b);
+    if (!right) return;
+
+    res.json({
+      a: left,
+      b: right,
+      diff: diffWords(left.review_text, right.review_text)
+    });
+  } catch (error) {
+    console.error("Compare reviews error:", error);
+    res.status(500).json({ error: "Failed to compare reviews" });
+  }
+});
+
+app.get("/reviews/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const review = await getOwnedReview(req, res, req.params.id);
+    if (!review) return;
+
+    res.json(review);
+  } catch (error) {
+    console.error("Get review error:", error);
+    res.status(500).json({ error: "Failed to get review" });
+  }
+});
+
+// Every version of the same kind generated for the chapter and profile, newest first
+app.get("/reviews/:id/versions", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const review = await getOwnedReview(req, res, req.params.id);
+    if (!review) return;
+
+    const { rows } = await pool.query(
+      `SELECT r.id, r.version, r.is_pinned, r.revision_id, r.created_at,
+              r.content_hash IS DISTINCT FROM ${contentHashSql("c.text")} as is_stale,
+              LEFT(r.review_text, 200) as excerpt
+       FROM chapter_reviews r
+       JOIN chapters c ON r.chapter_id = c.id
+       WHERE r.chapter_id = $1 AND r.ai_profile_id = $2 AND r.review_kind = $3
+       ORDER BY r.version DESC, r.id DESC`,
+      [review.chapter_id, review.profile_id, review.review_kind]
+    );
+
+    res.json({ profile_id: review.profile_id, profile_name: review.profile_name, review_kind: review.review_kind, versions: rows });
+  } catch (error) {
+    console.error("Get review versions error:", error);
+    res.status(500).json({ error: "Failed to get review versions" });
+  }
+});
+
+// Pin a version as the favorite for its chapter and profile (replaces any earlier pin)
+app.post("/reviews/:id/pin", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const review = await getOwnedReview(req, res, req.params.id);
+    if (!review) return;
+
+    if (review.review_kind !== "review") {
+      return res.status(400).json({ error: "Only reviews can be pinned, not comment or rewrite runs" });
+    }
+
+    // Same lock as saveReview, so concurrent pins for the chapter and profile
+    // run one after the other instead of colliding on chapter_reviews_one_pinned
+    await withTx(async (client) => {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1), $2)', [review.chapter_id, review.profile_id]);
+      await client.query(
+        `UPDATE chapter_reviews r SET is_pinned = false
+         WHERE r.chapter_id = $1 AND r.ai_profile_id = $2 AND r.is_pinned`,
+        [review.chapter_id, review.profile_id]
+      );
+      await client.query('UPDATE chapter_reviews SET is_pinned = true WHERE id = $1', [review.id]);
+    });
+
+    res.json({ ok: true, pinnedReviewId: review.id });
+  } catch (error) {
+    console.error("Pin review error:", error);
+    res.status(500).json({ error: "Failed to pin review" });
+  }
+});
+
+app.delete("/reviews/:id/pin", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const review = await getOwnedReview(req, res, req.params.id);
+    if (!review) return;
+
+    await pool.query('UPDATE chapter_reviews SET is_pinned = false WHERE id = $1', [review.id]);
+
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Unpin review error:", error);
+    res.status(500).json({ error: "Failed to unpin review" });
+  }
+});
+
+app.delete("/reviews/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const reviewId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the chapter this review belongs to
+    const { rows: reviewRows } = await pool.query(
+      `SELECT r.id, b.user_id
+       FROM chapter_reviews r
+       JOIN chapters c ON r.chapter_id = c.id
+       JOIN books b ON c.book_id = b.id
+       WHERE r.id = $1`,
+      [reviewId]
+    );
+
+    if (!reviewRows.length) {
+      return res.status(404).json({ error: "Review not found" });
+    }
+
+    if (reviewRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to delete this review" });
+    }
+
+    await pool.query('DELETE FROM chapter_reviews WHERE id = $1', [reviewId]);
+
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Delete review error:", error);
+    res.status(500).json({ error: "Failed to delete review" });
+  }
+});
+
+// Create a chapter-specific review with all prior summaries
+app.post("/reviews", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    console.log("Review request body:", JSON.stringify(req.body, null, 2));
+    const parsed = ReviewReq.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid review request", details: parsed.error.issues });
+    }
+    const { bookId, newChapterId, tone = "fanficnet", aiProfileId, fullTextChapters = 0, usePartSummaries, maxPromptTokens } = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    const { reviewText, context } = await generateReview({
+      userId: dbUser.id,
+      bookId,
+      chapterId: newChapterId,
+      tone,
+      aiProfileId,
+      fullTextChapters,
+      usePartSummaries,
+      maxPromptTokens
+    });
+
+    res.json({ ok: true, review: reviewText, context });
+  } catch (e) { next(e); }
+});
+
+// Render the exact review prompt for a chapter without calling the model or
+// saving anything, e.g. to try out a template before saving it
+app.post("/reviews/preview", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const parsed = PreviewReviewReq.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid review preview request", details: parsed.error.issues });
+    }
+    const { bookId, newChapterId, tone = "fanficnet", aiProfileId, fullTextChapters = 0, usePartSummaries, maxPromptTokens, systemPrompt, userPromptTemplate } = parsed.data;
+
+    const templateErrors = validateTemplateFields({ systemPrompt, userPromptTemplate });
+    if (templateErrors.length) {
+      return res.status(400).json({ error: "Invalid prompt template", details: templateErrors });
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    const prompt = await buildReviewPrompt({
+      userId: dbUser.id,
+      bookId,
+      chapterId: newChapterId,
+      tone,
+      aiProfileId,
+      fullTextChapters,
+      usePartSummaries,
+      maxPromptTokens,
+      templateOverrides: { systemPrompt, userPromptTemplate }
+    });
+
+    res.json({
+      profileName: prompt.profileName,
+      systemPrompt: prompt.systemPrompt,
+      userPrompt: prompt.userPrompt,
+      fullPrompt: prompt.fullPrompt,
+      context: prompt.context,
+      missingWikiPages: prompt.missingWikiPages
+    });
+  } catch (e) { next(e); }
+});
+
+// Panel review: several profiles review the chapter (each saved as a normal
+// review version), then a consensus report is synthesized from their reviews
+app.post("/reviews/panel", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const parsed = PanelReviewReq.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid panel review request", details: parsed.error.issues });
+    }
+    const { bookId, newChapterId, members, fullTextChapters = 0, background } = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    if (background) {
+      const job = await enqueueJob({
+        userId: dbUser.id,
+        bookId,
+        chapterId: newChapterId,
+        type: "panel_review",
+        payload: { members, fullTextChapters }
+      });
+      return res.status(202).json({ ok: true, job });
+    }
+
+    const panel = await generatePanelReview({
+      userId: dbUser.id,
+      bookId,
+      chapterId: newChapterId,
+      members,
+      fullTextChapters
+    });
+
+    res.json({ ok: true, ...panel });
+  } catch (e) { next(e); }
+});
+
+app.get("/chapters/:id/panels", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const chapterId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the chapter
+    const { rows: chapterRows } = await pool.query(
+      `SELECT c.id, b.user_id
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       WHERE c.id = $1`,
+      [chapterId]
+    );
+
+    if (!chapterRows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
+    }
+
+    if (chapterRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    }
+
+    const { rows } = await pool.query(
+      `SELECT p.id, p.review_ids, p.consensus, p.revision_id, p.created_at,
+              p.content_hash IS DISTINCT FROM ${contentHashSql("c.text")} as is_stale
+       FROM review_panels p
+       JOIN chapters c ON p.chapter_id = c.id
+       WHERE p.chapter_id = $1
+       ORDER BY p.created_at DESC, p.id DESC`,
+      [chapterId]
+    );
+
+    res.json(rows);
+  } catch (error) {
+    console.error("Get chapter panels error:", error);
+    res.status(500).json({ error: "Failed to get panel reviews" });
+  }
+});
+
+// A panel with its consensus report and each panelist's review
+app.get("/panels/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const panelId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    const { rows: panelRows } = await pool.query(
+      `SELECT p.*, b.user_id as owner_id,
+              p.content_hash IS DISTINCT FROM ${contentHashSql("c.text")} as is_stale
+       FROM review_panels p
+       JOIN chapters c ON p.chapter_id = c.id
+       JOIN books b ON c.book_id = b.id
+       WHERE p.id = $1`,
+      [panelId]
+    );
+
+    if (!panelRows.length) {
+      return res.status(404).json({ error: "Panel not found" });
+    }
+
+    if (panelRows[0].owner_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this panel" });
+    }
+
+    // Panelists' reviews in panel order; deleted review versions drop out
+    const { rows: reviews } = await pool.query(
+      `SELECT r.id, r.review_text, r.version, r.is_pinned, r.created_at,
+              r.ai_profile_id as profile_id,
+              ap.name as profile_name
+       FROM chapter_reviews r
+       JOIN ai_profiles ap ON r.ai_profile_id = ap.id
+       WHERE r.id = ANY($1::int[])
+       ORDER BY array_position($1::int[], r.id)`,
+      [panelRows[0].review_ids]
+    );
+
+    const { owner_id, user_id, ...panel } = panelRows[0];
+    res.json({ ...panel, reviews });
+  } catch (error) {
+    console.error("Get panel error:", error);
+    res.status(500).json({ error: "Failed to get panel review" });
+  }
+});
+
+// ---- Book reviews
+// Whole-book developmental review from every chapter summary plus the wiki
+app.post("/books/:id/book-reviews", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const bookId = req.params.id;
+    const parsed = BookReviewReq.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid book review request", details: parsed.error.issues });
+    }
+    const { background } = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    if (background) {
+      const job = await enqueueJob({ userId: dbUser.id, bookId, type: "book_review" });
+      return res.status(202).json({ ok: true, job });
+    }
+
+    const result = await generateBookReview({ userId: dbUser.id, bookId });
+
+    res.json({ ok: true, ...result });
+  } catch (e) { next(e); }
+});
+
+// Every version, newest first; is_stale when the chapter summaries have changed since
+app.get("/books/:id/book-reviews", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const bookId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    const { sourceHash } = await loadBookOutline(bookId);
+    const { rows } = await pool.query(
+      `SELECT id, version, report->>'overview' as overview, cardinality(chapter_ids) as chapter_count,
+              missing_summary_ids, condense_levels, source_hash IS DISTINCT FROM $2 as is_stale, created_at
+       FROM book_reviews
+       WHERE book_id = $1
+       ORDER BY version DESC`,
+      [bookId, sourceHash]
+    );
+
+    res.json(rows);
+  } catch (error) {
+    console.error("Get book reviews error:", error);
+    res.status(500).json({ error: "Failed to get book reviews" });
+  }
+});
+
+app.get("/book-reviews/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const bookReviewId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    const { rows } = await pool.query(
+      `SELECT r.*, b.user_id as owner_id
+       FROM book_reviews r
+       JOIN books b ON r.book_id = b.id
+       WHERE r.id = $1`,
+      [bookReviewId]
+    );
+
+    if (!rows.length) {
+      return res.status(404).json({ error: "Book review not found" });
+    }
+
+    if (rows[0].owner_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book review" });
+    }
+
+    const { sourceHash } = await loadBookOutline(rows[0].book_id);
+    const { owner_id, user_id, ...bookReview } = rows[0];
+    res.json({ ...bookReview, is_stale: bookReview.source_hash !== sourceHash });
+  } catch (error) {
+    console.error("Get book review error:", error);
+    res.status(500).json({ error: "Failed to get book review" });
+  }
+});
+
+app.delete("/book-reviews/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const bookReviewId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    const { rows } = await pool.query(
+      `SELECT r.id, b.user_id
+       FROM book_reviews r
+       JOIN books b ON r.book_id = b.id
+       WHERE r.id = $1`,
+      [bookReviewId]
+    );
+
+    if (!rows.length) {
+      return res.status(404).json({ error: "Book review not found" });
+    }
+
+    if (rows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to delete this book review" });
+    }
+
+    await pool.query('DELETE FROM book_reviews WHERE id = $1', [bookReviewId]);
+
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Delete book review error:", error);
+    res.status(500).json({ error: "Failed to delete book review" });
+  }
+});
+
+// ---- Inline comments
+// Structured line-level review: comments anchored to quoted spans of the chapter
+app.post("/chapters/:id/comments/generate", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const chapterId = req.params.id;
+    const parsed = InlineCommentsReq.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid inline comments request", details: parsed.error.issues });
+    }
+    const data = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the chapter
+    const { rows: chapterRows } = await pool.query(
+      `SELECT c.book_id, b.user_id
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       WHERE c.id = $1`,
+      [chapterId]
+    );
+
+    if (!chapterRows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
+    }
+
+    if (chapterRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    }
+
+    const result = await generateInlineComments({
+      userId: dbUser.id,
+      bookId: chapterRows[0].book_id,
+      chapterId,
+      ...data
+    });
+
+    res.json({ ok: true, ...result });
+  } catch (e) { next(e); }
+});
+
+// Comments are re-anchored to the current text before they are listed
+app.get("/chapters/:id/comments", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const chapterId = req.params.id;
+    const status = req.query.status as string | undefined;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the chapter
+    const { rows: chapterRows } = await pool.query(
+      `SELECT c.id, b.user_id
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       WHERE c.id = $1`,
+      [chapterId]
+    );
+
+    if (!chapterRows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
+    }
+
+    if (chapterRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    }
+
+    await reanchorComments(chapterId);
+
+    const { rows } = await pool.query(
+      `SELECT id, review_id, quote, start_offset, end_offset, comment, suggestion, severity, category,
+              status, anchor_status, resolved_at, created_at, updated_at
+       FROM chapter_comments
+       WHERE chapter_id = $1 AND ($2::text IS NULL OR status = $2)
+       ORDER BY anchor_status = 'orphaned', start_offset, id`,
+      [chapterId, status ?? null]
+    );
+
+    res.json(rows);
+  } catch (error) {
+    console.error("Get chapter comments error:", error);
+    res.status(500).json({ error: "Failed to get chapter comments" });
+  }
+});
+
+// Resolve, dismiss or reopen a comment
+app.put("/comments/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const commentId = req.params.id;
+    const parsed = UpdateComment.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid comment update", details: parsed.error.issues });
+    }
+    const data = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the chapter this comment belongs to
+    const { rows: commentRows } = await pool.query(
+      `SELECT cc.id, b.user_id
+       FROM chapter_comments cc
+       JOIN chapters c ON cc.chapter_id = c.id
+       JOIN books b ON c.book_id = b.id
+       WHERE cc.id = $1`,
+      [commentId]
+    );
+
+    if (!commentRows.length) {
+      return res.status(404).json({ error: "Comment not found" });
+    }
+
+    if (commentRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to modify this comment" });
+    }
+
+    const { rows } = await pool.query(
+      `UPDATE chapter_comments
+       SET status = $1,
+           resolved_at = CASE WHEN $1 = 'open' THEN NULL ELSE now() END,
+           updated_at = now()
+       WHERE id = $2
+       RETURNING id, status, resolved_at, updated_at`,
+      [data.status, commentId]
+    );
+
+    res.json(rows[0]);
+  } catch (error) {
+    console.error("Update comment error:", error);
+    res.status(500).json({ error: "Failed to update comment" });
+  }
+});
+
+// ---- Continuity checks
+// Check a chapter against the wiki and earlier chapters; open issues from an
+// earlier check of the chapter are replaced
+app.post("/chapters/:id/continuity-check", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const chapterId = req.params.id;
+    const parsed = ContinuityCheckReq.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid continuity check request", details: parsed.error.issues });
+    }
+    const { background } = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    const { rows } = await pool.query(
+      `SELECT c.id, c.book_id, b.user_id
+         FROM chapters c
+         JOIN books b ON c.book_id=b.id
+        WHERE c.id=$1`, [chapterId]
+    );
+
+    if (!rows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
+    }
+
+    // Verify user owns the book
+    if (rows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    }
+
+    if (background) {
+      const job = await enqueueJob({ userId: dbUser.id, bookId: rows[0].book_id, chapterId, type: "continuity_check" });
+      return res.status(202).json({ ok: true, job });
+    }
+
+    const result = await checkChapterContinuity(chapterId);
+
+    res.json({ ok: true, ...result });
+  } catch (e) { next(e); }
+});
+
+// The book's continuity issues in reading order, open ones by default
+app.get("/books/:id/continuity-issues", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const bookId = req.params.id;
+    const parsed = ContinuityIssuesQuery.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid continuity issue filters", details: parsed.error.issues });
+    }
+    const { status = "open", chapterId } = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    const readingOrder = await getReadingOrder(bookId);
+    const { rows } = await pool.query(
+      `SELECT i.*, c.title as chapter_title, w.page_name as wiki_page_name,
+              sc.title as source_chapter_title
+       FROM continuity_issues i
+       JOIN chapters c ON c.id = i.chapter_id
+       LEFT JOIN wiki_pages w ON w.id = i.wiki_page_id
+       LEFT JOIN chapters sc ON sc.id = i.source_chapter_id
+       WHERE i.book_id = $1 AND i.status = $2 AND ($3::text IS NULL OR i.chapter_id = $3)
+       ORDER BY array_position($4::text[], i.chapter_id), i.id`,
+      [bookId, status, chapterId ?? null, readingOrder]
+    );
+
+    res.json(rows);
+  } catch (error) {
+    console.error("Get continuity issues error:", error);
+    res.status(500).json({ error: "Failed to get continuity issues" });
+  }
+});
+
+// Resolve or dismiss an issue, or reopen it; dismissed issues are not raised
+// again when the chapter is re-checked
+app.put("/continuity-issues/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const issueId = Number(req.params.id);
+    if (!Number.isInteger(issueId) || issueId <= 0) {
+      return res.status(400).json({ error: "Invalid continuity issue id" });
+    }
+    const parsed = UpdateContinuityIssue.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid continuity issue update", details: parsed.error.issues });
+    }
+    const data = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book this issue belongs to
+    const { rows: issueRows } = await pool.query(
+      `SELECT i.id, b.user_id
+       FROM continuity_issues i
+       JOIN books b ON i.book_id = b.id
+       WHERE i.id = $1`,
+      [issueId]
+    );
+
+    if (!issueRows.length) {
+      return res.status(404).json({ error: "Continuity issue not found" });
+    }
+
+    if (issueRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to modify this issue" });
+    }
+
+    const { rows } = await pool.query(
+      `UPDATE continuity_issues
+       SET status = $1,
+           resolution_note = $2,
+           decided_at = CASE WHEN $1 = 'open' THEN NULL ELSE now() END
+       WHERE id = $3
+       RETURNING *`,
+      [data.status, data.note ?? null, issueId]
+    );
+
+    res.json(rows[0]);
+  } catch (error) {
+    console.error("Update continuity issue error:", error);
+    res.status(500).json({ error: "Failed to update continuity issue" });
+  }
+});
+
+// ---- Rewrite suggestions
+// AI rewrite: proposed replacements for passages of the chapter, saved as a
+// review version plus pending suggestions
+app.post("/chapters/:id/rewrite", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const chapterId = req.params.id;
+    const parsed = RewriteReq.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid rewrite request", details: parsed.error.issues });
+    }
+    const data = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the chapter
+    const { rows: chapterRows } = await pool.query(
+      `SELECT c.book_id, b.user_id
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       WHERE c.id = $1`,
+      [chapterId]
+    );
+
+    if (!chapterRows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
+    }
+
+    if (chapterRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    }
+
+    const result = await generateRewriteSuggestions({
+      userId: dbUser.id,
+      bookId: chapterRows[0].book_id,
+      chapterId,
+      ...data
+    });
+
+    res.json({ ok: true, ...result });
+  } catch (e) { next(e); }
+});
+
+app.get("/chapters/:id/suggestions", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const chapterId = req.params.id;
+    const status = req.query.status as string | undefined;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the chapter
+    const { rows: chapterRows } = await pool.query(
+      `SELECT c.id, b.user_id
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       WHERE c.id = $1`,
+      [chapterId]
+    );
+
+    if (!chapterRows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
+    }
+
+    if (chapterRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    }
+
+    const { rows } = await pool.query(
+      `SELECT id, review_id, goal, original_text, replacement, reason, start_offset, end_offset,
+              status, applied_revision_id, decided_at, created_at, updated_at
+       FROM chapter_suggestions
+       WHERE chapter_id = $1 AND ($2::text IS NULL OR status = $2)
+       ORDER BY start_offset, id`,
+      [chapterId, status ?? null]
+    );
+
+    res.json(rows);
+  } catch (error) {
+    console.error("Get chapter suggestions error:", error);
+    res.status(500).json({ error: "Failed to get chapter suggestions" });
+  }
+});
+
+// Accept or reject one suggestion. Accepting applies it to the chapter text;
+// 409 if its original text is no longer in the chapter.
+app.post("/suggestions/:id/:decision", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const suggestionId = Number(req.params.id);
+    if (!Number.isInteger(suggestionId) || suggestionId <= 0) {
+      return res.status(400).json({ error: "Invalid suggestion id" });
+    }
+    const { decision } = req.params;
+
+    if (decision !== "accept" && decision !== "reject") {
+      return res.status(404).json({ error: "Unknown action" });
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the chapter this suggestion belongs to
+    const { rows: suggestionRows } = await pool.query(
+      `SELECT s.id, s.chapter_id, s.status, b.user_id
+       FROM chapter_suggestions s
+       JOIN chapters c ON s.chapter_id = c.id
+       JOIN books b ON c.book_id = b.id
+       WHERE s.id = $1`,
+      [suggestionId]
+    );
+
+    if (!suggestionRows.length) {
+      return res.status(404).json({ error: "Suggestion not found" });
+    }
+
+    const suggestion = suggestionRows[0];
+    if (suggestion.user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to modify this suggestion" });
+    }
+
+    if (suggestion.status !== "pending") {
+      return res.status(409).json({ error: `Suggestion is already ${suggestion.status}` });
+    }
+
+    if (decision === "reject") {
+      await rejectSuggestions([suggestionId]);
+      return res.json({ ok: true, rejected: [suggestionId] });
+    }
+
+    const result = await applySuggestions(suggestion.chapter_id, [suggestionId]);
+    if (result.conflicts.length) {
+      return res.status(409).json({ error: "The suggested passage is no longer in the chapter", ...result });
+    }
+
+    res.json({ ok: true, ...result });
+  } catch (error) {
+    console.error("Decide suggestion error:", error);
+    res.status(500).json({ error: "Failed to update suggestion" });
+  }
+});
+
+// Accept or reject all pending suggestions from one rewrite review (or the
+// listed subset). Accepted ones are applied in a single revision; ones that
+// overlap or can no longer be found come back as conflicts.
+app.post("/reviews/:id/suggestions/:decision", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { decision } = req.params;
+    const parsed = ReviewSuggestionsDecision.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid suggestion decision", details: parsed.error.issues });
+    }
+    const data = parsed.data;
+
+    if (decision !== "accept" && decision !== "reject") {
+      return res.status(404).json({ error: "Unknown action" });
+    }
+
+    const review = await getOwnedReview(req, res, req.params.id);
+    if (!review) return;
+
+    const { rows } = await pool.query(
+      `SELECT id FROM chapter_suggestions
+       WHERE review_id = $1 AND status = 'pending' AND ($2::int[] IS NULL OR id = ANY($2::int[]))`,
+      [review.id, data.suggestionIds ?? null]
+    );
+    const ids = rows.map((r: any) => r.id as number);
+
+    if (decision === "reject") {
+      return res.json({ ok: true, rejected: await rejectSuggestions(ids) });
+    }
+
+    const result = await applySuggestions(review.chapter_id, ids);
+    res.json({ ok: true, ...result });
+  } catch (error) {
+    console.error("Decide review suggestions error:", error);
+    res.status(500).json({ error: "Failed to update review suggestions" });
+  }
+});
+
+// Write one Server-Sent Event
+function sendEvent(res: express.Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Streaming variant of POST /reviews: tokens are sent as `token` events while the
+// model writes, then the review is saved and a `done` event carries its id.
+// If the client disconnects mid-stream the model request is aborted and nothing is saved.
+app.post("/reviews/stream", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  const abort = new AbortController();
+
+  try {
+    const parsed = ReviewReq.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid review request", details: parsed.error.issues });
+    }
+    const { bookId, newChapterId, tone = "fanficnet", aiProfileId, fullTextChapters = 0, usePartSummaries, maxPromptTokens } = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    // Build the prompt before opening the stream so lookup errors still get a normal status code
+    const prompt = await buildReviewPrompt({
+      userId: dbUser.id,
+      bookId,
+      chapterId: newChapterId,
+      tone,
+      aiProfileId,
+      fullTextChapters,
+      usePartSummaries,
+      maxPromptTokens
+    });
+
+    // Checked here too so an exhausted quota is a 429, not an error event
+    await assertWithinQuota(prompt.meter);
+
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        abort.abort();
+      }
+    });
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+    sendEvent(res, "start", { chapterId: newChapterId, context: prompt.context });
+
+    const response = await generateStream(
+      {
+        task: "review",
+        settings: prompt.settings,
+        model: prompt.model,
+        meter: prompt.meter,
+        messages: [
+          { role: "system", content: prompt.systemPrompt },
+          { role: "user", content: prompt.userPrompt }
+        ],
+        temperature: prompt.temperature ?? 0.7,
+        maxTokens: prompt.maxTokens ?? undefined
+      },
+      (delta) => sendEvent(res, "token", { text: delta }),
+      abort.signal
+    );
+
+    const reviewId = await saveReview(newChapterId, prompt, response.content);
+
+    sendEvent(res, "done", { reviewId, review: response.content });
+    res.end();
+  } catch (error) {
+    if (abort.signal.aborted) {
+      console.log("Review stream cancelled by client");
+      return;
+    }
+
+    console.error("Stream review error:", error);
+    if (!res.headersSent) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(429).json({ error: error.message, usage: error.details });
+      }
+      const status = error instanceof GenerationError ? error.status : 500;
+      return res.status(status).json({ error: error instanceof GenerationError ? error.message : "Failed to generate review" });
+    }
+    sendEvent(res, "error", { error: "Failed to generate review" });
+    res.end();
+  }
+});
+
+app.get("/books/:id/chapters", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [req.params.id]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    const { rows } = await pool.query(`
+      SELECT c.id, c.title, c.word_count, c.part_id,
+             CASE WHEN s.chapter_id IS NULL THEN false ELSE true END AS has_summary,
+             s.summary,
+             CASE WHEN s.chapter_id IS NULL THEN false
+                  ELSE s.content_hash IS DISTINCT FROM ${contentHashSql("c.text")}
+             END AS summary_is_stale,
+             (SELECT COUNT(*)::int FROM ${LATEST_REVIEWS_SQL} r
+               WHERE r.chapter_id = c.id
+                 AND r.content_hash IS DISTINCT FROM ${contentHashSql("c.text")}) AS stale_review_count,
+             p.name as part_name,
+             array_position(b.chapter_order, c.id) as position,
+             array_position(p.chapter_order, c.id) as position_in_part
+        FROM chapters c
+        LEFT JOIN chapter_summaries s ON s.chapter_id = c.id
+        LEFT JOIN book_parts p ON c.part_id = p.id
+        JOIN books b ON c.book_id = b.id
+       WHERE c.book_id=$1
+       ORDER BY array_position(b.chapter_order, c.id), c.id`, [req.params.id]);
+
+    res.json(rows);
+  } catch (error) {
+    console.error("Get chapters error:", error);
+    res.status(500).json({ error: "Failed to get chapters" });
+  }
+});
+
+app.get("/chapters/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    const { rows } = await pool.query(`
+      SELECT c.id, c.book_id, c.title, c.text, c.word_count, c.updated_at,
+             s.summary, s.pov, s.characters, s.entities, s.relationships, s.beats, s.spoilers_ok, s.revision_id as summary_revision_id, b.user_id
+        FROM chapters c
+        LEFT JOIN chapter_summaries s ON s.chapter_id=c.id
+        JOIN books b ON c.book_id = b.id
+       WHERE c.id=$1`, [req.params.id]);
+
+    if (!rows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
+    }
+
+    const chapter = rows[0];
+
+    // Verify user owns the book
+    if (chapter.user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    }
+
+    // Remove user_id from response
+    const { user_id, ...responseData } = chapter;
+    res.json(responseData);
+  } catch (error) {
+    console.error("Get chapter error:", error);
+    res.status(500).json({ error: "Failed to get chapter" });
+  }
+});
+
+// ---- Chapter revision routes
+app.get("/chapters/:id/revisions", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const chapterId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the chapter
+    const { rows: chapterRows } = await pool.query(
+      `SELECT c.id, b.user_id
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       WHERE c.id = $1`,
+      [chapterId]
+    );
+
+    if (!chapterRows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
+    }
+
+    if (chapterRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    }
+
+    const { rows } = await pool.query(
+      `SELECT id, title, word_count, source, restored_from_revision_id, created_at
+       FROM chapter_revisions
+       WHERE chapter_id = $1
+       ORDER BY id DESC`,
+      [chapterId]
+    );
+
+    res.json(rows);
+  } catch (error) {
+    console.error("Get chapter revisions error:", error);
+    res.status(500).json({ error: "Failed to get chapter revisions" });
+  }
+});
+
+// Word-level diff between two revisions; `to` defaults to the chapter's current text
+app.get("/chapters/:id/revisions/diff", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const chapterId = req.params.id;
+    const from = Number(req.query.from);
+    const to = req.query.to !== undefined ? Number(req.query.to) : null;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    if (!Number.isInteger(from) || (to !== null && !Number.isInteger(to))) {
+      return res.status(400).json({ error: "from (and optional to) must be revision ids" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the chapter
+    const { rows: chapterRows } = await pool.query(
+      `SELECT c.id, c.text, b.user_id
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       WHERE c.id = $1`,
+      [chapterId]
+    );
+
+    if (!chapterRows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
+    }
+
+    if (chapterRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    }
+
+    const { rows: revisionRows } = await pool.query(
+      `SELECT id, text FROM chapter_revisions WHERE chapter_id = $1 AND id = ANY($2)`,
+      [chapterId, to === null ? [from] : [from, to]]
+    );
+
+    const fromRevision = revisionRows.find(r => r.id === from);
+    const toRevision = to === null ? null : revisionRows.find(r => r.id === to);
+
+    if (!fromRevision || (to !== null && !toRevision)) {
+      return res.status(404).json({ error: "Revision not found" });
+    }
+
+    const diff = diffWords(fromRevision.text, toRevision ? toRevision.text : chapterRows[0].text);
+
+    res.json({ from, to, ...diff });
+  } catch (error) {
+    console.error("Diff chapter revisions error:", error);
+    res.status(500).json({ error: "Failed to diff chapter revisions" });
+  }
+});
+
+app.get("/chapters/:id/revisions/:revisionId", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    const { rows } = await pool.query(
+      `SELECT r.*, b.user_id
+       FROM chapter_revisions r
+       JOIN chapters c ON r.chapter_id = c.id
+       JOIN books b ON c.book_id = b.id
+       WHERE r.id = $1 AND r.chapter_id = $2`,
+      [req.params.revisionId, req.params.id]
+    );
+
+    if (!rows.length) {
+      return res.status(404).json({ error: "Revision not found" });
+    }
+
+    if (rows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    }
+
+    // Remove user_id from response
+    const { user_id, ...revision } = rows[0];
+    res.json(revision);
+  } catch (error) {
+    console.error("Get chapter revision error:", error);
+    res.status(500).json({ error: "Failed to get chapter revision" });
+  }
+});
+
+// Restore an old revision; the restore itself becomes a new revision
+app.post("/chapters/:id/revisions/:revisionId/restore", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const chapterId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    const { rows } = await pool.query(
+      `SELECT r.id, r.title, r.text, r.word_count, b.user_id
+       FROM chapter_revisions r
+       JOIN chapters c ON r.chapter_id = c.id
+       JOIN books b ON c.book_id = b.id
+       WHERE r.id = $1 AND r.chapter_id = $2`,
+      [req.params.revisionId, chapterId]
+    );
+
+    if (!rows.length) {
+      return res.status(404).json({ error: "Revision not found" });
+    }
+
+    const revision = rows[0];
+
+    if (revision.user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to modify this chapter" });
+    }
+
+    const revisionId = await withTx(async (client) => {
+      await client.query(
+        `UPDATE chapters SET title = $1, text = $2, word_count = $3, updated_at = now()
+         WHERE id = $4`,
+        [revision.title, revision.text, revision.word_count, chapterId]
+      );
+      return recordRevision(chapterId, "restore", revision.id, client);
+    });
+
+    res.json({ ok: true, revisionId, wordCount: revision.word_count });
+  } catch (error) {
+    console.error("Restore chapter revision error:", error);
+    res.status(500).json({ error: "Failed to restore chapter revision" });
+  }
+});
+
+// ---- Character List routes
+app.get("/books/:id/characters", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const bookId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    // Get all characters for this book
+    const { rows } = await pool.query(
+      `SELECT bc.*, wp.page_name as wiki_page_name
+       FROM book_characters bc
+       LEFT JOIN wiki_pages wp ON bc.wiki_page_id = wp.id
+       WHERE bc.book_id = $1
+       ORDER BY bc.mention_count DESC, bc.character_name`,
+      [bookId]
+    );
+
+    res.json(rows);
+  } catch (error) {
+    console.error("Get book characters error:", error);
+    res.status(500).json({ error: "Failed to get book characters" });
+  }
+});
+
+app.get("/books/:id/relationships", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const bookId = req.params.id;
+    const parsed = RelationshipsQuery.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid relationships query", details: parsed.error.issues });
+    }
+    const { asOf } = parsed.data;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    const graph = await loadRelationshipGraph(bookId, asOf);
+    if (!graph) {
+      return res.status(404).json({ error: "Chapter not found in this book" });
+    }
+
+    res.json(graph);
+  } catch (error) {
+    console.error("Get relationships error:", error);
+    res.status(500).json({ error: "Failed to get relationships" });
+  }
+});
+
+// ---- Wiki routes
+app.get("/books/:id/wiki", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const bookId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    // Get all wiki pages for this book
+    const { rows } = await pool.query(
+      `SELECT id, page_name, page_type, summary, aliases, tags, is_major,
+              created_by_ai, human_edited_at, created_at, updated_at,
+              LENGTH(content) as content_length,
+              (SELECT COUNT(*)::int FROM wiki_proposals p
+                WHERE p.wiki_page_id = wiki_pages.id AND p.status = 'pending') as pending_proposals,
+              (SELECT array_agg(m.chapter_id) FROM chapter_wiki_mentions m
+                WHERE m.wiki_page_id = wiki_pages.id) as mentioned_in
+       FROM wiki_pages
+       WHERE book_id = $1
+       ORDER BY is_major DESC, page_type, page_name`,
+      [bookId]
+    );
+
+    // Mention stats for every page type, as book_characters keeps for characters
+    const order = await getReadingOrder(bookId);
+    res.json(rows.map(({ mentioned_in, ...page }: any) => ({
+      ...page,
+      mention_count: mentioned_in?.length ?? 0,
+      first_mentioned_chapter: order.find(id => mentioned_in?.includes(id)) ?? null
+    })));
+  } catch (error) {
+    console.error("Get wiki pages error:", error);
+    res.status(500).json({ error: "Failed to get wiki pages" });
+  }
+});
+
+app.get("/wiki/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const wikiPageId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Get wiki page with book ownership verification
+    const { rows } = await pool.query(
+      `SELECT w.*, b.user_id
+       FROM wiki_pages w
+       JOIN books b ON w.book_id = b.id
+       WHERE w.id = $1`,
+      [wikiPageId]
+    );
+
+    if (!rows.length) {
+      return res.status(404).json({ error: "Wiki page not found" });
+    }
+
+    const wikiPage = rows[0];
+
+    // Verify user owns the book
+    if (wikiPage.user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this wiki page" });
+    }
+
+    // Remove user_id from response
+    const { user_id, ...responseData } = wikiPage;
+    res.json(responseData);
+  } catch (error) {
+    console.error("Get wiki page error:", error);
+    res.status(500).json({ error: "Failed to get wiki page" });
+  }
+});
+
+app.post("/books/:id/wiki", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const bookId = req.params.id;
+    const data = CreateWikiPage.parse(req.body);
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
+    );
+
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
+    }
+
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    // Create wiki page
+    const { rows } = await pool.query(
+      `INSERT INTO wiki_pages (book_id, page_name, page_type, content, summary, aliases, tags, is_major, human_edited_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, now())
+       RETURNING *`,
+      [
+        bookId,
+        data.page_name,
+        data.page_type || 'character',
+        data.content || '',
+        data.summary || null,
+        JSON.stringify(data.aliases || []),
+        JSON.stringify(data.tags || []),
+        data.is_major || false
+      ]
+    );
+
+    res.json({ ok: true, page: rows[0] });
+  } catch (error) {
+    console.error("Create wiki page error:", error);
+    res.status(500).json({ error: "Failed to create wiki page" });
+  }
+});
+
+app.put("/wiki/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const wikiPageId = req.params.id;
+    const data = UpdateWikiPage.parse(req.body);
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book and get current content for audit log
+    const { rows: wikiRows } = await pool.query(
+      `SELECT w.*, b.user_id
+       FROM wiki_pages w
+       JOIN books b ON w.book_id = b.id
+       WHERE w.id = $1`,
+      [wikiPageId]
+    );
+
+    if (!wikiRows.length) {
+      return res.status(404).json({ error: "Wiki page not found" });
+    }
+
+    const currentPage = wikiRows[0];
+
+    if (currentPage.user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to edit this wiki page" });
+    }
+
+    // Build dynamic update query
+    const updates = [];
+    const values = [];
+    let paramIndex = 1;
+
+    if (data.page_name !== undefined) {
+      updates.push(`page_name = $${paramIndex++}`);
+      values.push(data.page_name);
+    }
+    if (data.page_type !== undefined) {
+      updates.push(`page_type = $${paramIndex++}`);
+      values.push(data.page_type);
+    }
+    if (data.content !== undefined) {
+      updates.push(`content = $${paramIndex++}`);
+      values.push(data.content);
+    }
+    if (data.summary !== undefined) {
+      updates.push(`summary = $${paramIndex++}`);
+      values.push(data.summary);
+    }
+    if (data.aliases !== undefined) {
+      updates.push(`aliases = $${paramIndex++}`);
+      values.push(JSON.stringify(data.aliases));
+    }
+    if (data.tags !== undefined) {
+      updates.push(`tags = $${paramIndex++}`);
+      values.push(JSON.stringify(data.tags));
+    }
+    if (data.is_major !== undefined) {
+      updates.push(`is_major = $${paramIndex++}`);
+      values.push(data.is_major);
+    }
+    // From now on the model only proposes changes to this page
+    if (data.content !== undefined || data.summary !== undefined) {
+      updates.push(`human_edited_at = now()`);
+    }
+
+    updates.push(`updated_at = now()`);
+    values.push(wikiPageId);
+
+    const { rows } = await pool.query(
+      `UPDATE wiki_pages SET ${updates.join(', ')}
+       WHERE id = $${paramIndex}
+       RETURNING *`,
+      values
+    );
+
+    // Log the update in wiki_updates table
+    if (data.content !== undefined && data.content !== currentPage.content) {
+      await pool.query(
+        `INSERT INTO wiki_updates (wiki_page_id, update_type, previous_content, new_content, change_summary)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [
+          wikiPageId,
+          'manual_edit',
+          currentPage.content,
+          data.content,
+          'Manual edit by user'
+        ]
+      );
+    }
+
+    res.json({ ok: true, page: rows[0] });
+  } catch (error) {
+    console.error("Update wiki page error:", error);
+    res.status(500).json({ error: "Failed to update wiki page" });
+  }
+});
+
+app.delete("/wiki/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const wikiPageId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: wikiRows } = await pool.query(
+      `SELECT w.id, b.user_id
+       FROM wiki_pages w
+       JOIN books b ON w.book_id = b.id
+       WHERE w.id = $1`,
+      [wikiPageId]
+    );
+
+    if (!wikiRows.length) {
+      return res.status(404).json({ error: "Wiki page not found" });
+    }
+
+    if (wikiRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to delete this wiki page" });
+    }
+
+    await pool.query('DELETE FROM wiki_pages WHERE id = $1', [wikiPageId]);
+
+    res.json({ ok: true });
+  } catch (error) {
+    console.error("Delete wiki page error:", error);
+    res.status(500).json({ error: "Failed to delete wiki page" });
+  }
+});
+
+app.get("/wiki/:id/history", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const wikiPageId = req.params.id;
+
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book
+    const { rows: wikiRows } = await pool.query(
+      `SELECT w.id, b.user_id
+       FROM wiki_pages w
+       JOIN books b ON w.book_id = b.id
+       WHERE w.id = $1`,
+      [wikiPageId]
     );
 
-    if (!reviewRows.length) {
-      return res.status(404).json({ error: "Review not found" });
+    if (!wikiRows.length) {
+      return res.status(404).json({ error: "Wiki page not found" });
     }
 
-    if (reviewRows[0].user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to delete this review" });
+    if (wikiRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this wiki page" });
     }
 
-    await pool.query('DELETE FROM chapter_reviews WHERE id = $1', [reviewId]);
+    // Get update history
+    const { rows } = await pool.query(
+      `SELECT wu.*, c.title as chapter_title
+       FROM wiki_updates wu
+       LEFT JOIN chapters c ON wu.chapter_id = c.id
+       WHERE wu.wiki_page_id = $1
+       ORDER BY wu.created_at DESC`,
+      [wikiPageId]
+    );
 
-    res.json({ ok: true });
+    res.json(rows);
   } catch (error) {
-    console.error("Delete review error:", error);
-    res.status(500).json({ error: "Failed to delete review" });
+    console.error("Get wiki history error:", error);
+    res.status(500).json({ error: "Failed to get wiki history" });
   }
 });
 
-// Create a chapter-specific review with all prior summaries
-app.post("/reviews", authenticateJWT, async (req: AuthenticatedRequest, res, next) => {
+// ---- Wiki merges
+// Character pages that may describe the same character under different names
+app.get("/books/:id/wiki/duplicates", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    console.log("Review request body:", JSON.stringify(req.body, null, 2));
-    const { bookId, newChapterId, tone = "fanficnet", customProfileId } = ReviewReq.parse(req.body);
+    const bookId = req.params.id;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -892,124 +3553,95 @@ app.post("/reviews", authenticateJWT, async (req: AuthenticatedRequest, res, nex
       return res.status(403).json({ error: "You don't have permission to access this book" });
     }
 
-    const { rows: prior } = await pool.query(`
-      SELECT c.id, c.title, s.summary
-        FROM chapters c
-        JOIN chapter_summaries s ON s.chapter_id=c.id
-       WHERE c.book_id=$1 AND c.id <> $2
-       ORDER BY c.id`, [bookId, newChapterId]);
+    const { rows: pages } = await pool.query(
+      'SELECT id, page_name, page_type, aliases, summary FROM wiki_pages WHERE book_id = $1 ORDER BY id',
+      [bookId]
+    );
 
-    const { rows: targetRows } = await pool.query(`
-      SELECT c.id, c.title, c.text
-        FROM chapters c
-       WHERE c.id=$1 AND c.book_id=$2`, [newChapterId, bookId]);
-    if (!targetRows.length) return res.status(404).json({ error: "New chapter not found" });
-    const target = targetRows[0];
-
-    // Get AI profile - either custom profile or built-in tone
-    let aiProfile;
-    if (customProfileId) {
-      // Using custom profile
-      const { rows: customProfileRows } = await pool.query(
-        `SELECT id, name, description
-         FROM custom_reviewer_profiles
-         WHERE id = $1 AND user_id = $2`,
-        [customProfileId, dbUser.id]
-      );
-      if (!customProfileRows.length) {
-        return res.status(404).json({ error: "Custom reviewer profile not found" });
-      }
-      // Use the description as the system prompt for custom profiles
-      aiProfile = {
-        id: `custom-${customProfileRows[0].id}`,
-        system_prompt: `You are a beta reader with this personality and approach: ${customProfileRows[0].description}. Please review the following chapter providing feedback in this style.`
-      };
-    } else {
-      // Using built-in tone
-      const { rows: profileRows } = await pool.query(
-        `SELECT id, system_prompt
-         FROM ai_profiles
-         WHERE (user_id = $1 OR is_system = true) AND tone_key = $2
-         ORDER BY is_system ASC
-         LIMIT 1`,
-        [dbUser.id, tone]
-      );
+    res.json(findDuplicateCandidates(pages));
+  } catch (error) {
+    console.error("Get wiki duplicates error:", error);
+    res.status(500).json({ error: "Failed to get wiki duplicates" });
+  }
+});
 
-      if (!profileRows.length) {
-        return res.status(404).json({ error: `AI profile not found for tone: ${tone}` });
-      }
+app.post("/wiki/:id/merge", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    const wikiPageId = Number(req.params.id);
+    if (!Number.isInteger(wikiPageId) || wikiPageId <= 0) {
+      return res.status(400).json({ error: "Invalid wiki page id" });
+    }
+    const parsed = MergeWikiPages.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid wiki merge request", details: parsed.error.issues });
+    }
+    const { sourceId, ...options } = parsed.data;
 
-      aiProfile = profileRows[0];
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
     }
-    const priorSummariesText = prior.map(r => `# ${r.id}${r.title ? ` — ${r.title}`:""}\n${r.summary}`).join("\n\n");
 
-    const userPrompt = `PRIOR CHAPTER SUMMARIES:\n${priorSummariesText}\n\n` +
-      `NEW CHAPTER: ${target.id}${target.title ? ` — ${target.title}` : ""}\n${target.text}\n\n` +
-      "Write the review now.";
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
 
-    // Store the full prompt for transparency
-    const fullPrompt = `SYSTEM PROMPT:\n${aiProfile.system_prompt}\n\nUSER PROMPT:\n${userPrompt}`;
+    if (sourceId === wikiPageId) {
+      return res.status(400).json({ error: "Cannot merge a wiki page into itself" });
+    }
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: aiProfile.system_prompt },
-        { role: "user", content: userPrompt }
-      ],
-      temperature: 0.7
-    });
+    // Verify user owns the book and both pages belong to it
+    const { rows: wikiRows } = await pool.query(
+      `SELECT w.id, w.book_id, b.user_id
+       FROM wiki_pages w
+       JOIN books b ON w.book_id = b.id
+       WHERE w.id = ANY($1::int[])`,
+      [[wikiPageId, sourceId]]
+    );
+    const target = wikiRows.find((r: any) => r.id === wikiPageId);
+    const source = wikiRows.find((r: any) => r.id === sourceId);
 
-    const reviewText = response.choices[0]?.message?.content || "";
+    if (!target || !source) {
+      return res.status(404).json({ error: "Wiki page not found" });
+    }
 
-    // Save the review to the database
-    if (customProfileId) {
-      // Save custom profile review - first check if review exists
-      const { rows: existingReview } = await pool.query(
-        `SELECT id FROM chapter_reviews WHERE chapter_id = $1 AND custom_profile_id = $2`,
-        [newChapterId, customProfileId]
-      );
+    if (target.user_id !== dbUser.id || source.user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to modify this wiki page" });
+    }
 
-      if (existingReview.length > 0) {
-        // Update existing review
-        await pool.query(
-          `UPDATE chapter_reviews SET review_text = $1, prompt_used = $2, updated_at = now() WHERE id = $3`,
-          [reviewText, fullPrompt, existingReview[0].id]
-        );
-      } else {
-        // Insert new review
-        await pool.query(
-          `INSERT INTO chapter_reviews (chapter_id, custom_profile_id, review_text, prompt_used) VALUES ($1, $2, $3, $4)`,
-          [newChapterId, customProfileId, reviewText, fullPrompt]
-        );
-      }
-    } else {
-      // Save AI profile review - first check if review exists
-      const { rows: existingReview } = await pool.query(
-        `SELECT id FROM chapter_reviews WHERE chapter_id = $1 AND ai_profile_id = $2`,
-        [newChapterId, aiProfile.id]
-      );
+    if (target.book_id !== source.book_id) {
+      return res.status(400).json({ error: "Wiki pages belong to different books" });
+    }
 
-      if (existingReview.length > 0) {
-        // Update existing review
-        await pool.query(
-          `UPDATE chapter_reviews SET review_text = $1, prompt_used = $2, updated_at = now() WHERE id = $3`,
-          [reviewText, fullPrompt, existingReview[0].id]
-        );
-      } else {
-        // Insert new review
-        await pool.query(
-          `INSERT INTO chapter_reviews (chapter_id, ai_profile_id, review_text, prompt_used) VALUES ($1, $2, $3, $4)`,
-          [newChapterId, aiProfile.id, reviewText, fullPrompt]
-        );
-      }
+    const page = await mergeWikiPages(wikiPageId, sourceId, options);
+    if (!page) {
+      return res.status(404).json({ error: "Wiki page not found" });
     }
+    // Merging may have folded two characters' rows into one
+    await refreshCharacterRelationships(target.book_id);
 
-    res.json({ ok: true, review: reviewText });
-  } catch (e) { next(e); }
+    res.json({ ok: true, page });
+  } catch (error) {
+    console.error("Merge wiki pages error:", error);
+    res.status(500).json({ error: "Failed to merge wiki pages" });
+  }
 });
 
-app.get("/books/:id/chapters", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+// ---- Wiki proposals
+// AI changes to pages a person has written wait here for approval
+const WIKI_PROPOSAL_COLUMNS = `p.id, p.wiki_page_id, w.page_name, p.chapter_id, c.title as chapter_title,
+  p.proposed_content, p.proposed_summary, p.change_summary, p.contradiction_notes, p.status,
+  p.base_content IS DISTINCT FROM w.content as is_stale, p.decided_at, p.created_at`;
+
+app.get("/books/:id/wiki/proposals", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
+    const bookId = req.params.id;
+    const parsed = WikiProposalsQuery.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid wiki proposal filters", details: parsed.error.issues });
+    }
+    const { status = "pending" } = parsed.data;
+
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
     }
@@ -1022,7 +3654,7 @@ app.get("/books/:id/chapters", authenticateJWT, async (req: AuthenticatedRequest
     // Verify user owns the book
     const { rows: bookRows } = await pool.query(
       'SELECT user_id FROM books WHERE id = $1',
-      [req.params.id]
+      [bookId]
     );
 
     if (!bookRows.length) {
@@ -1033,29 +3665,32 @@ app.get("/books/:id/chapters", authenticateJWT, async (req: AuthenticatedRequest
       return res.status(403).json({ error: "You don't have permission to access this book" });
     }
 
-    const { rows } = await pool.query(`
-      SELECT c.id, c.title, c.word_count, c.part_id,
-             CASE WHEN s.chapter_id IS NULL THEN false ELSE true END AS has_summary,
-             s.summary,
-             p.name as part_name,
-             array_position(b.chapter_order, c.id) as position,
-             array_position(p.chapter_order, c.id) as position_in_part
-        FROM chapters c
-        LEFT JOIN chapter_summaries s ON s.chapter_id = c.id
-        LEFT JOIN book_parts p ON c.part_id = p.id
-        JOIN books b ON c.book_id = b.id
-       WHERE c.book_id=$1
-       ORDER BY array_position(b.chapter_order, c.id), c.id`, [req.params.id]);
+    const { rows } = await pool.query(
+      `SELECT ${WIKI_PROPOSAL_COLUMNS}
+       FROM wiki_proposals p
+       JOIN wiki_pages w ON p.wiki_page_id = w.id
+       LEFT JOIN chapters c ON p.chapter_id = c.id
+       WHERE w.book_id = $1 AND p.status = $2
+       ORDER BY p.created_at DESC, p.id DESC`,
+      [bookId, status]
+    );
 
     res.json(rows);
   } catch (error) {
-    console.error("Get chapters error:", error);
-    res.status(500).json({ error: "Failed to get chapters" });
+    console.error("Get wiki proposals error:", error);
+    res.status(500).json({ error: "Failed to get wiki proposals" });
   }
 });
 
-app.get("/chapters/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+app.get("/wiki/:id/proposals", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
+    const wikiPageId = req.params.id;
+    const parsed = WikiProposalsQuery.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid wiki proposal filters", details: parsed.error.issues });
+    }
+    const { status } = parsed.data;
+
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
     }
@@ -1065,38 +3700,57 @@ app.get("/chapters/:id", authenticateJWT, async (req: AuthenticatedRequest, res)
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    const { rows } = await pool.query(`
-      SELECT c.id, c.book_id, c.title, c.text, c.word_count, c.updated_at,
-             s.summary, s.pov, s.characters, s.beats, s.spoilers_ok, b.user_id
-        FROM chapters c
-        LEFT JOIN chapter_summaries s ON s.chapter_id=c.id
-        JOIN books b ON c.book_id = b.id
-       WHERE c.id=$1`, [req.params.id]);
+    // Verify user owns the book
+    const { rows: wikiRows } = await pool.query(
+      `SELECT w.id, b.user_id
+       FROM wiki_pages w
+       JOIN books b ON w.book_id = b.id
+       WHERE w.id = $1`,
+      [wikiPageId]
+    );
 
-    if (!rows.length) {
-      return res.status(404).json({ error: "Chapter not found" });
+    if (!wikiRows.length) {
+      return res.status(404).json({ error: "Wiki page not found" });
     }
 
-    const chapter = rows[0];
-
-    // Verify user owns the book
-    if (chapter.user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to access this chapter" });
+    if (wikiRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this wiki page" });
     }
 
-    // Remove user_id from response
-    const { user_id, ...responseData } = chapter;
-    res.json(responseData);
+    const { rows } = await pool.query(
+      `SELECT ${WIKI_PROPOSAL_COLUMNS}, p.base_content
+       FROM wiki_proposals p
+       JOIN wiki_pages w ON p.wiki_page_id = w.id
+       LEFT JOIN chapters c ON p.chapter_id = c.id
+       WHERE p.wiki_page_id = $1 AND ($2::text IS NULL OR p.status = $2)
+       ORDER BY p.created_at DESC, p.id DESC`,
+      [wikiPageId, status ?? null]
+    );
+
+    res.json(rows);
   } catch (error) {
-    console.error("Get chapter error:", error);
-    res.status(500).json({ error: "Failed to get chapter" });
+    console.error("Get wiki page proposals error:", error);
+    res.status(500).json({ error: "Failed to get wiki page proposals" });
   }
 });
 
-// ---- Character List routes
-app.get("/books/:id/characters", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+app.post("/wiki-proposals/:id/:decision", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const bookId = req.params.id;
+    const proposalId = Number(req.params.id);
+    if (!Number.isInteger(proposalId) || proposalId <= 0) {
+      return res.status(400).json({ error: "Invalid wiki proposal id" });
+    }
+    const { decision } = req.params;
+
+    if (decision !== "accept" && decision !== "reject") {
+      return res.status(404).json({ error: "Unknown action" });
+    }
+
+    const parsed = WikiProposalDecision.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid wiki proposal decision", details: parsed.error.issues });
+    }
+    const edits = parsed.data;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -1107,41 +3761,55 @@ app.get("/books/:id/characters", authenticateJWT, async (req: AuthenticatedReque
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Verify user owns the book
-    const { rows: bookRows } = await pool.query(
-      'SELECT user_id FROM books WHERE id = $1',
-      [bookId]
+    // Verify user owns the book this proposal's page belongs to
+    const { rows: proposalRows } = await pool.query(
+      `SELECT p.id, p.status, b.user_id
+       FROM wiki_proposals p
+       JOIN wiki_pages w ON p.wiki_page_id = w.id
+       JOIN books b ON w.book_id = b.id
+       WHERE p.id = $1`,
+      [proposalId]
     );
 
-    if (!bookRows.length) {
-      return res.status(404).json({ error: "Book not found" });
+    if (!proposalRows.length) {
+      return res.status(404).json({ error: "Wiki proposal not found" });
     }
 
-    if (bookRows[0].user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to access this book" });
+    if (proposalRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to modify this wiki proposal" });
     }
 
-    // Get all characters for this book
-    const { rows } = await pool.query(
-      `SELECT bc.*, wp.page_name as wiki_page_name
-       FROM book_characters bc
-       LEFT JOIN wiki_pages wp ON bc.wiki_page_id = wp.id
-       WHERE bc.book_id = $1
-       ORDER BY bc.mention_count DESC, bc.character_name`,
-      [bookId]
-    );
+    if (decision === "reject") {
+      if (!await rejectWikiProposal(proposalId)) {
+        return res.status(409).json({ error: `Wiki proposal is already ${proposalRows[0].status}` });
+      }
+      return res.json({ ok: true });
+    }
 
-    res.json(rows);
+    const result = await acceptWikiProposal(proposalId, edits);
+    if (result.outcome === "not_pending") {
+      return res.status(409).json({ error: `Wiki proposal is already ${result.status}` });
+    }
+    if (result.outcome === "stale") {
+      return res.status(409).json({ error: "The wiki page was edited after this proposal was made. Reject it, or accept with your own content." });
+    }
+
+    res.json({ ok: true, page: result.page });
   } catch (error) {
-    console.error("Get book characters error:", error);
-    res.status(500).json({ error: "Failed to get book characters" });
+    console.error("Decide wiki proposal error:", error);
+    res.status(500).json({ error: "Failed to update wiki proposal" });
   }
 });
 
-// ---- Wiki routes
-app.get("/books/:id/wiki", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+// ---- Background job routes
+app.post("/books/:id/jobs", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
     const bookId = req.params.id;
+    const parsed = CreateJob.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid job", details: parsed.error.issues });
+    }
+    const { type, chapterId, ...payload } = parsed.data;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -1152,41 +3820,36 @@ app.get("/books/:id/wiki", authenticateJWT, async (req: AuthenticatedRequest, re
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Verify user owns the book
-    const { rows: bookRows } = await pool.query(
-      'SELECT user_id FROM books WHERE id = $1',
-      [bookId]
+    // Verify user owns the book and the chapter belongs to it
+    const { rows: chapterRows } = await pool.query(
+      `SELECT c.id, b.user_id
+       FROM chapters c
+       JOIN books b ON c.book_id = b.id
+       WHERE c.id = $1 AND b.id = $2`,
+      [chapterId, bookId]
     );
 
-    if (!bookRows.length) {
-      return res.status(404).json({ error: "Book not found" });
+    if (!chapterRows.length) {
+      return res.status(404).json({ error: "Chapter not found" });
     }
 
-    if (bookRows[0].user_id !== dbUser.id) {
+    if (chapterRows[0].user_id !== dbUser.id) {
       return res.status(403).json({ error: "You don't have permission to access this book" });
     }
 
-    // Get all wiki pages for this book
-    const { rows } = await pool.query(
-      `SELECT id, page_name, page_type, summary, aliases, tags, is_major,
-              created_by_ai, created_at, updated_at,
-              LENGTH(content) as content_length
-       FROM wiki_pages
-       WHERE book_id = $1
-       ORDER BY is_major DESC, page_type, page_name`,
-      [bookId]
-    );
+    const job = await enqueueJob({ userId: dbUser.id, bookId, chapterId, type, payload });
 
-    res.json(rows);
+    res.status(202).json({ ok: true, job });
   } catch (error) {
-    console.error("Get wiki pages error:", error);
-    res.status(500).json({ error: "Failed to get wiki pages" });
+    console.error("Create job error:", error);
+    res.status(500).json({ error: "Failed to create job" });
   }
 });
 
-app.get("/wiki/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+// Queue summaries for every chapter without one, in reading order
+app.post("/books/:id/jobs/summarize-unsummarized", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const wikiPageId = req.params.id;
+    const bookId = req.params.id;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -1197,39 +3860,57 @@ app.get("/wiki/:id", authenticateJWT, async (req: AuthenticatedRequest, res) =>
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Get wiki page with book ownership verification
-    const { rows } = await pool.query(
-      `SELECT w.*, b.user_id
-       FROM wiki_pages w
-       JOIN books b ON w.book_id = b.id
-       WHERE w.id = $1`,
-      [wikiPageId]
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
     );
 
-    if (!rows.length) {
-      return res.status(404).json({ error: "Wiki page not found" });
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
     }
 
-    const wikiPage = rows[0];
-
-    // Verify user owns the book
-    if (wikiPage.user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to access this wiki page" });
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
     }
 
-    // Remove user_id from response
-    const { user_id, ...responseData } = wikiPage;
-    res.json(responseData);
+    const readingOrder = await getReadingOrder(bookId);
+
+    const jobs = await withTx(async (client) => {
+      // Skip chapters that are summarized or already have a summary job in flight
+      const { rows: pending } = await client.query(
+        `SELECT c.id
+         FROM chapters c
+         LEFT JOIN chapter_summaries s ON s.chapter_id = c.id
+         WHERE c.book_id = $1
+           AND s.chapter_id IS NULL
+           AND NOT EXISTS (
+             SELECT 1 FROM ai_jobs j
+             WHERE j.chapter_id = c.id AND j.job_type = 'summary'
+               AND j.status IN ('queued', 'running')
+           )
+         ORDER BY array_position($2::text[], c.id)`,
+        [bookId, readingOrder]
+      );
+
+      const queued = [];
+      for (const row of pending) {
+        queued.push(await enqueueJob({ userId: dbUser.id, bookId, chapterId: row.id, type: "summary" }, client));
+      }
+      return queued;
+    });
+
+    res.status(202).json({ ok: true, count: jobs.length, jobs });
   } catch (error) {
-    console.error("Get wiki page error:", error);
-    res.status(500).json({ error: "Failed to get wiki page" });
+    console.error("Queue summaries error:", error);
+    res.status(500).json({ error: "Failed to queue summaries" });
   }
 });
 
-app.post("/books/:id/wiki", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+// Queue regeneration of every summary and review whose chapter text has changed since it was generated
+app.post("/books/:id/regenerate-stale", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
     const bookId = req.params.id;
-    const data = CreateWikiPage.parse(req.body);
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -1250,38 +3931,72 @@ app.post("/books/:id/wiki", authenticateJWT, async (req: AuthenticatedRequest, r
       return res.status(404).json({ error: "Book not found" });
     }
 
-    if (bookRows[0].user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to access this book" });
-    }
-
-    // Create wiki page
-    const { rows } = await pool.query(
-      `INSERT INTO wiki_pages (book_id, page_name, page_type, content, summary, aliases, tags, is_major)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-       RETURNING *`,
-      [
-        bookId,
-        data.page_name,
-        data.page_type || 'character',
-        data.content || '',
-        data.summary || null,
-        JSON.stringify(data.aliases || []),
-        JSON.stringify(data.tags || []),
-        data.is_major || false
-      ]
-    );
-
-    res.json({ ok: true, page: rows[0] });
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
+    }
+
+    const readingOrder = await getReadingOrder(bookId);
+
+    const jobs = await withTx(async (client) => {
+      const { rows: staleSummaries } = await client.query(
+        `SELECT c.id
+         FROM chapters c
+         JOIN chapter_summaries s ON s.chapter_id = c.id
+         WHERE c.book_id = $1
+           AND s.content_hash IS DISTINCT FROM ${contentHashSql("c.text")}
+           AND NOT EXISTS (
+             SELECT 1 FROM ai_jobs j
+             WHERE j.chapter_id = c.id AND j.job_type = 'summary'
+               AND j.status IN ('queued', 'running')
+           )
+         ORDER BY array_position($2::text[], c.id)`,
+        [bookId, readingOrder]
+      );
+
+      const { rows: staleReviews } = await client.query(
+        `SELECT r.id, r.chapter_id, r.ai_profile_id
+         FROM ${LATEST_REVIEWS_SQL} r
+         JOIN chapters c ON r.chapter_id = c.id
+         WHERE c.book_id = $1
+           AND r.content_hash IS DISTINCT FROM ${contentHashSql("c.text")}
+           AND NOT EXISTS (
+             SELECT 1 FROM ai_jobs j
+             WHERE j.chapter_id = r.chapter_id AND j.job_type = 'review'
+               AND j.status IN ('queued', 'running')
+               AND (j.payload->>'aiProfileId')::int = r.ai_profile_id
+           )
+         ORDER BY array_position($2::text[], r.chapter_id), r.id`,
+        [bookId, readingOrder]
+      );
+
+      // Summaries are queued first so regenerated reviews see fresh prior summaries
+      const queued = [];
+      for (const row of staleSummaries) {
+        queued.push(await enqueueJob({ userId: dbUser.id, bookId, chapterId: row.id, type: "summary" }, client));
+      }
+      for (const row of staleReviews) {
+        queued.push(await enqueueJob({ userId: dbUser.id, bookId, chapterId: row.chapter_id, type: "review", payload: { aiProfileId: row.ai_profile_id } }, client));
+      }
+      return queued;
+    });
+
+    res.status(202).json({
+      ok: true,
+      summaries: jobs.filter(j => j.job_type === "summary").length,
+      reviews: jobs.filter(j => j.job_type === "review").length,
+      jobs
+    });
   } catch (error) {
-    console.error("Create wiki page error:", error);
-    res.status(500).json({ error: "Failed to create wiki page" });
+    console.error("Regenerate stale error:", error);
+    res.status(500).json({ error: "Failed to queue stale regeneration" });
   }
 });
 
-app.put("/wiki/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+app.get("/books/:id/jobs", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const wikiPageId = req.params.id;
-    const data = UpdateWikiPage.parse(req.body);
+    const bookId = req.params.id;
+    const status = req.query.status as string | undefined;
+    const type = req.query.type as string | undefined;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -1292,95 +4007,59 @@ app.put("/wiki/:id", authenticateJWT, async (req: AuthenticatedRequest, res) =>
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Verify user owns the book and get current content for audit log
-    const { rows: wikiRows } = await pool.query(
-      `SELECT w.*, b.user_id
-       FROM wiki_pages w
-       JOIN books b ON w.book_id = b.id
-       WHERE w.id = $1`,
-      [wikiPageId]
+    // Verify user owns the book
+    const { rows: bookRows } = await pool.query(
+      'SELECT user_id FROM books WHERE id = $1',
+      [bookId]
     );
 
-    if (!wikiRows.length) {
-      return res.status(404).json({ error: "Wiki page not found" });
+    if (!bookRows.length) {
+      return res.status(404).json({ error: "Book not found" });
     }
 
-    const currentPage = wikiRows[0];
-
-    if (currentPage.user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to edit this wiki page" });
+    if (bookRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this book" });
     }
 
-    // Build dynamic update query
-    const updates = [];
-    const values = [];
-    let paramIndex = 1;
-
-    if (data.page_name !== undefined) {
-      updates.push(`page_name = $${paramIndex++}`);
-      values.push(data.page_name);
-    }
-    if (data.page_type !== undefined) {
-      updates.push(`page_type = $${paramIndex++}`);
-      values.push(data.page_type);
-    }
-    if (data.content !== undefined) {
-      updates.push(`content = $${paramIndex++}`);
-      values.push(data.content);
-    }
-    if (data.summary !== undefined) {
-      updates.push(`summary = $${paramIndex++}`);
-      values.push(data.summary);
-    }
-    if (data.aliases !== undefined) {
-      updates.push(`aliases = $${paramIndex++}`);
-      values.push(JSON.stringify(data.aliases));
-    }
-    if (data.tags !== undefined) {
-      updates.push(`tags = $${paramIndex++}`);
-      values.push(JSON.stringify(data.tags));
-    }
-    if (data.is_major !== undefined) {
-      updates.push(`is_major = $${paramIndex++}`);
-      values.push(data.is_major);
+    if (type && !(JOB_TYPES as string[]).includes(type)) {
+      return res.status(400).json({ error: `Unknown job type: ${type}` });
     }
 
-    updates.push(`updated_at = now()`);
-    values.push(wikiPageId);
+    const { rows: jobs } = await pool.query(
+      `SELECT j.*, c.title as chapter_title
+       FROM ai_jobs j
+       LEFT JOIN chapters c ON j.chapter_id = c.id
+       WHERE j.book_id = $1
+         AND ($2::text IS NULL OR j.status = $2)
+         AND ($3::text IS NULL OR j.job_type = $3)
+       ORDER BY j.created_at DESC, j.id DESC
+       LIMIT 200`,
+      [bookId, status ?? null, type ?? null]
+    );
 
-    const { rows } = await pool.query(
-      `UPDATE wiki_pages SET ${updates.join(', ')}
-       WHERE id = $${paramIndex}
-       RETURNING *`,
-      values
+    // Overall progress across the book's jobs
+    const { rows: countRows } = await pool.query(
+      `SELECT status, COUNT(*)::int as count
+       FROM ai_jobs
+       WHERE book_id = $1 AND ($2::text IS NULL OR job_type = $2)
+       GROUP BY status`,
+      [bookId, type ?? null]
     );
 
-    // Log the update in wiki_updates table
-    if (data.content !== undefined && data.content !== currentPage.content) {
-      await pool.query(
-        `INSERT INTO wiki_updates (wiki_page_id, update_type, previous_content, new_content, change_summary)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [
-          wikiPageId,
-          'manual_edit',
-          currentPage.content,
-          data.content,
-          'Manual edit by user'
-        ]
-      );
+    const counts: Record<string, number> = { queued: 0, running: 0, succeeded: 0, failed: 0 };
+    for (const row of countRows) {
+      counts[row.status] = row.count;
     }
 
-    res.json({ ok: true, page: rows[0] });
+    res.json({ jobs, counts });
   } catch (error) {
-    console.error("Update wiki page error:", error);
-    res.status(500).json({ error: "Failed to update wiki page" });
+    console.error("Get book jobs error:", error);
+    res.status(500).json({ error: "Failed to get jobs" });
   }
 });
 
-app.delete("/wiki/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+app.get("/jobs/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const wikiPageId = req.params.id;
-
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
     }
@@ -1390,35 +4069,36 @@ app.delete("/wiki/:id", authenticateJWT, async (req: AuthenticatedRequest, res)
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Verify user owns the book
-    const { rows: wikiRows } = await pool.query(
-      `SELECT w.id, b.user_id
-       FROM wiki_pages w
-       JOIN books b ON w.book_id = b.id
-       WHERE w.id = $1`,
-      [wikiPageId]
+    const { rows } = await pool.query(
+      'SELECT * FROM ai_jobs WHERE id = $1',
+      [req.params.id]
     );
 
-    if (!wikiRows.length) {
-      return res.status(404).json({ error: "Wiki page not found" });
+    if (!rows.length) {
+      return res.status(404).json({ error: "Job not found" });
     }
 
-    if (wikiRows[0].user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to delete this wiki page" });
+    if (rows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to access this job" });
     }
 
-    await pool.query('DELETE FROM wiki_pages WHERE id = $1', [wikiPageId]);
-
-    res.json({ ok: true });
+    res.json(rows[0]);
   } catch (error) {
-    console.error("Delete wiki page error:", error);
-    res.status(500).json({ error: "Failed to delete wiki page" });
+    console.error("Get job error:", error);
+    res.status(500).json({ error: "Failed to get job" });
   }
 });
 
-app.get("/wiki/:id/history", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+// ---- Usage routes
+// AI usage for the signed-in user: totals, daily and per-book breakdowns for a
+// date range (default: this month), plus this month's quota
+app.get("/usage", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
-    const wikiPageId = req.params.id;
+    const parsed = UsageQuery.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid usage range", details: parsed.error.issues });
+    }
+    const { from, to } = parsed.data;
 
     if (!req.user) {
       return res.status(401).json({ error: "User not authenticated" });
@@ -1429,43 +4109,74 @@ app.get("/wiki/:id/history", authenticateJWT, async (req: AuthenticatedRequest,
       return res.status(404).json({ error: "User profile not found" });
     }
 
-    // Verify user owns the book
-    const { rows: wikiRows } = await pool.query(
-      `SELECT w.id, b.user_id
-       FROM wiki_pages w
-       JOIN books b ON w.book_id = b.id
-       WHERE w.id = $1`,
-      [wikiPageId]
+    // $2/$3 bound the range; `to` is inclusive of the whole day
+    const range = `a.user_id = $1
+      AND a.created_at >= COALESCE($2::date::timestamptz, date_trunc('month', now(), 'UTC'))
+      AND ($3::date IS NULL OR a.created_at < $3::date + 1)`;
+    const params = [dbUser.id, from ?? null, to ?? null];
+    const totals = `COUNT(*)::int as calls,
+      COALESCE(SUM(a.prompt_tokens), 0)::int as prompt_tokens,
+      COALESCE(SUM(a.completion_tokens), 0)::int as completion_tokens,
+      COALESCE(SUM(a.cost_usd), 0)::float as cost_usd`;
+
+    const { rows: totalRows } = await pool.query(
+      `SELECT ${totals} FROM ai_usage a WHERE ${range}`,
+      params
     );
 
-    if (!wikiRows.length) {
-      return res.status(404).json({ error: "Wiki page not found" });
-    }
+    const { rows: daily } = await pool.query(
+      `SELECT to_char(a.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') as date, ${totals}
+       FROM ai_usage a
+       WHERE ${range}
+       GROUP BY 1
+       ORDER BY 1`,
+      params
+    );
 
-    if (wikiRows[0].user_id !== dbUser.id) {
-      return res.status(403).json({ error: "You don't have permission to access this wiki page" });
-    }
+    // Usage of deleted books stays, with a null book_id
+    const { rows: byBook } = await pool.query(
+      `SELECT a.book_id, b.title, ${totals}
+       FROM ai_usage a
+       LEFT JOIN books b ON a.book_id = b.id
+       WHERE ${range}
+       GROUP BY a.book_id, b.title
+       ORDER BY cost_usd DESC, prompt_tokens DESC`,
+      params
+    );
 
-    // Get update history
-    const { rows } = await pool.query(
-      `SELECT wu.*, c.title as chapter_title
-       FROM wiki_updates wu
-       LEFT JOIN chapters c ON wu.chapter_id = c.id
-       WHERE wu.wiki_page_id = $1
-       ORDER BY wu.created_at DESC`,
-      [wikiPageId]
+    const { rows: byTask } = await pool.query(
+      `SELECT a.task, a.provider, a.model, ${totals}
+       FROM ai_usage a
+       WHERE ${range}
+       GROUP BY a.task, a.provider, a.model
+       ORDER BY a.task, cost_usd DESC`,
+      params
     );
 
-    res.json(rows);
+    res.json({
+      from: from ?? null,
+      to: to ?? null,
+      totals: totalRows[0],
+      daily,
+      byBook,
+      byTask,
+      quota: await getMonthlyUsage(dbUser.id)
+    });
   } catch (error) {
-    console.error("Get wiki history error:", error);
-    res.status(500).json({ error: "Failed to get wiki history" });
+    console.error("Get usage error:", error);
+    res.status(500).json({ error: "Failed to get usage" });
   }
 });
 
 // basic error handler
 app.use((err:any, _req:any, res:any, _next:any) => {
   console.error(err);
+  if (err instanceof GenerationError) {
+    return res.status(err.status).json({ error: err.message });
+  }
+  if (err instanceof QuotaExceededError) {
+    return res.status(429).json({ error: err.message, usage: err.details });
+  }
   res.status(500).json({ error: "Internal error", detail: String(err?.message || err) });
 });
 
@@ -1496,7 +4207,14 @@ app.get("/books/:bookId/parts", authenticateJWT, async (req: AuthenticatedReques
     }
 
     const { rows } = await pool.query(
-      'SELECT id, name, created_at FROM book_parts WHERE book_id = $1 ORDER BY created_at',
+      `SELECT p.id, p.name, p.created_at,
+              ps.summary, ps.characters, ps.open_threads, ps.chapter_ids as summary_chapter_ids,
+              ps.created_at as summarized_at,
+              CASE WHEN ps.part_id IS NULL THEN false ELSE ${partSummaryIsStaleSql("p", "ps")} END as summary_is_stale
+       FROM book_parts p
+       LEFT JOIN part_summaries ps ON ps.part_id = p.id
+       WHERE p.book_id = $1
+       ORDER BY p.created_at`,
       [req.params.bookId]
     );
 
@@ -1546,6 +4264,51 @@ app.post("/books/:bookId/parts", authenticateJWT, async (req: AuthenticatedReque
   }
 });
 
+// Generate (or regenerate) a part's summary from its chapters' summaries
+app.post("/books/:bookId/parts/:partId/summary", authenticateJWT, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const dbUser = await getUserFromAuth0Sub(req.user.sub);
+    if (!dbUser) {
+      return res.status(404).json({ error: "User profile not found" });
+    }
+
+    // Verify user owns the book and the part belongs to it
+    const { rows: partRows } = await pool.query(
+      `SELECT p.id, b.user_id
+       FROM book_parts p
+       JOIN books b ON p.book_id = b.id
+       WHERE p.id = $1 AND b.id = $2`,
+      [req.params.partId, req.params.bookId]
+    );
+
+    if (!partRows.length) {
+      return res.status(404).json({ error: "Part not found" });
+    }
+
+    if (partRows[0].user_id !== dbUser.id) {
+      return res.status(403).json({ error: "You don't have permission to modify this book" });
+    }
+
+    const { partSummary, missingSummaryIds } = await summarizePart(partRows[0].id);
+
+    res.json({ ok: true, partSummary, missingSummaryIds });
+  } catch (error) {
+    // Part routes are registered after the error handler, so map these here
+    if (error instanceof GenerationError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof QuotaExceededError) {
+      return res.status(429).json({ error: error.message, usage: error.details });
+    }
+    console.error("Summarize part error:", error);
+    res.status(500).json({ error: "Failed to summarize part" });
+  }
+});
+
 app.put("/books/:bookId/parts/:partId", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
     const { name } = req.body;
@@ -1823,141 +4586,6 @@ app.put("/books/:bookId/chapters/reorder", authenticateJWT, async (req: Authenti
   }
 });
 
-// ---- Custom Reviewer Profiles Routes ----
-
-// GET /custom-reviewer-profiles - Get user's custom reviewer profiles
-app.get("/custom-reviewer-profiles", authenticateJWT, async (req: AuthenticatedRequest, res) => {
-  try {
-    const user = await getUserFromAuth0Sub(req.user!.sub);
-    if (!user) {
-      return res.status(404).json({ error: "User not found" });
-    }
-
-    const result = await pool.query(
-      `SELECT id, name, description, created_at, updated_at
-       FROM custom_reviewer_profiles
-       WHERE user_id = $1
-       ORDER BY created_at DESC`,
-      [user.id]
-    );
-
-    res.json(result.rows);
-  } catch (error) {
-    console.error("Get custom reviewer profiles error:", error);
-    res.status(500).json({ error: "Failed to get custom reviewer profiles" });
-  }
-});
-
-// POST /custom-reviewer-profiles - Create a new custom reviewer profile
-app.post("/custom-reviewer-profiles", authenticateJWT, async (req: AuthenticatedRequest, res) => {
-  try {
-    const body = CreateCustomReviewerProfile.parse(req.body);
-    const user = await getUserFromAuth0Sub(req.user!.sub);
-    if (!user) {
-      return res.status(404).json({ error: "User not found" });
-    }
-
-    const result = await pool.query(
-      `INSERT INTO custom_reviewer_profiles (user_id, name, description)
-       VALUES ($1, $2, $3)
-       RETURNING id, name, description, created_at, updated_at`,
-      [user.id, body.name, body.description]
-    );
-
-    res.status(201).json(result.rows[0]);
-  } catch (error) {
-    console.error("Create custom reviewer profile error:", error);
-    if (error instanceof Error && error.message.includes('duplicate key')) {
-      res.status(409).json({ error: "A profile with this name already exists" });
-    } else {
-      res.status(500).json({ error: "Failed to create custom reviewer profile" });
-    }
-  }
-});
-
-// PUT /custom-reviewer-profiles/:id - Update a custom reviewer profile
-app.put("/custom-reviewer-profiles/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
-  try {
-    const body = UpdateCustomReviewerProfile.parse(req.body);
-    const user = await getUserFromAuth0Sub(req.user!.sub);
-    if (!user) {
-      return res.status(404).json({ error: "User not found" });
-    }
-
-    // Verify ownership
-    const ownershipCheck = await pool.query(
-      `SELECT id FROM custom_reviewer_profiles WHERE id = $1 AND user_id = $2`,
-      [req.params.id, user.id]
-    );
-
-    if (ownershipCheck.rows.length === 0) {
-      return res.status(404).json({ error: "Custom reviewer profile not found" });
-    }
-
-    // Build update query dynamically
-    const updates = [];
-    const values = [];
-    let paramCount = 1;
-
-    if (body.name !== undefined) {
-      updates.push(`name = $${paramCount++}`);
-      values.push(body.name);
-    }
-    if (body.description !== undefined) {
-      updates.push(`description = $${paramCount++}`);
-      values.push(body.description);
-    }
-
-    if (updates.length === 0) {
-      return res.status(400).json({ error: "No fields to update" });
-    }
-
-    values.push(req.params.id);
-    const result = await pool.query(
-      `UPDATE custom_reviewer_profiles
-       SET ${updates.join(', ')}
-       WHERE id = $${paramCount}
-       RETURNING id, name, description, created_at, updated_at`,
-      values
-    );
-
-    res.json(result.rows[0]);
-  } catch (error) {
-    console.error("Update custom reviewer profile error:", error);
-    if (error instanceof Error && error.message.includes('duplicate key')) {
-      res.status(409).json({ error: "A profile with this name already exists" });
-    } else {
-      res.status(500).json({ error: "Failed to update custom reviewer profile" });
-    }
-  }
-});
-
-// DELETE /custom-reviewer-profiles/:id - Delete a custom reviewer profile
-app.delete("/custom-reviewer-profiles/:id", authenticateJWT, async (req: AuthenticatedRequest, res) => {
-  try {
-    const user = await getUserFromAuth0Sub(req.user!.sub);
-    if (!user) {
-      return res.status(404).json({ error: "User not found" });
-    }
-
-    const result = await pool.query(
-      `DELETE FROM custom_reviewer_profiles
-       WHERE id = $1 AND user_id = $2
-       RETURNING id`,
-      [req.params.id, user.id]
-    );
-
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: "Custom reviewer profile not found" });
-    }
-
-    res.json({ success: true });
-  } catch (error) {
-    console.error("Delete custom reviewer profile error:", error);
-    res.status(500).json({ error: "Failed to delete custom reviewer profile" });
-  }
-});
-
 // ---- Search endpoints
 app.get("/books/:bookId/search", authenticateJWT, async (req: AuthenticatedRequest, res) => {
   try {
@@ -2039,15 +4667,19 @@ app.post("/chapters/:chapterId/replace", authenticateJWT, async (req: Authentica
 
     // Perform replacement
     const updatedText = chapter.rows[0].text.replace(new RegExp(escapeRegExp(searchTerm), 'gi'), replaceTerm);
-    const wordCount = updatedText.split(/\s+/).filter(word => word.length > 0).length;
+    const wordCount = updatedText.split(/\s+/).filter((word: string) => word.length > 0).length;
 
-    await pool.query(`
-      UPDATE chapters
-      SET text = $1, word_count = $2, updated_at = NOW()
-      WHERE id = $3
-    `, [updatedText, wordCount, chapterId]);
+    const revisionId = await withTx(async (client) => {
+      await client.query(`
+        UPDATE chapters
+        SET text = $1, word_count = $2, updated_at = NOW()
+        WHERE id = $3
+      `, [updatedText, wordCount, chapterId]);
 
-    res.json({ success: true, updatedText, wordCount });
+      return recordRevision(chapterId, "replace", null, client);
+    });
+
+    res.json({ success: true, updatedText, wordCount, revisionId });
   } catch (error) {
     console.error("Replace in chapter error:", error);
     res.status(500).json({ error: "Failed to replace text in chapter" });
@@ -2089,7 +4721,7 @@ app.post("/wiki/:wikiPageId/replace", authenticateJWT, async (req: Authenticated
 
     await pool.query(`
       UPDATE wiki_pages
-      SET content = $1, summary = $2, page_name = $3, updated_at = NOW()
+      SET content = $1, summary = $2, page_name = $3, human_edited_at = NOW(), updated_at = NOW()
       WHERE id = $4
     `, [updatedContent, updatedSummary, updatedPageName, wikiPageId]);
 
@@ -2112,4 +4744,9 @@ function escapeRegExp(string: string): string {
 
 app.listen(process.env.PORT || 3001, () => {
   console.log(`AI Beta Reader API listening on http://localhost:${process.env.PORT || 3001}`);
+
+  // Run the AI job worker in-process unless it is deployed separately (npm run worker)
+  if (process.env.JOB_WORKER !== "off") {
+    startJobWorker();
+  }
 });
\ No newline at end of file
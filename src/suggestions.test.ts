@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { StoredSuggestion, spliceSuggestions } from "./suggestions.js";
+
+const text = "The rain fell. The wind howled. The night was long.";
+
+const suggestion = (id: number, original: string, replacement: string, source = text): StoredSuggestion => {
+  const start = source.indexOf(original);
+  return {
+    id,
+    original_text: original,
+    replacement,
+    start_offset: start,
+    end_offset: start + original.length,
+    prefix_context: source.slice(Math.max(0, start - 10), start),
+    suffix_context: source.slice(start + original.length, start + original.length + 10)
+  };
+};
+
+test("spliceSuggestions applies non-overlapping suggestions together", () => {
+  const result = spliceSuggestions(text, [
+    suggestion(1, "The rain fell.", "Rain poured."),
+    suggestion(2, "The night was long.", "Night dragged on.")
+  ]);
+  assert.deepEqual(result, {
+    text: "Rain poured. The wind howled. Night dragged on.",
+    applied: [1, 2],
+    conflicts: []
+  });
+});
+
+test("spliceSuggestions marks a suggestion overlapping an earlier one as a conflict", () => {
+  const result = spliceSuggestions(text, [
+    suggestion(1, "The wind howled.", "Wind screamed."),
+    suggestion(2, "wind howled. The night", "gale blew. The dark")
+  ]);
+  assert.equal(result.text, "The rain fell. Wind screamed. The night was long.");
+  assert.deepEqual(result.applied, [1]);
+  assert.deepEqual(result.conflicts, [2]);
+});
+
+test("spliceSuggestions re-locates suggestions after the text moved", () => {
+  const stale = suggestion(1, "The wind howled.", "Wind screamed.");
+  const edited = "Thunder. " + text;
+  assert.deepEqual(spliceSuggestions(edited, [stale]), {
+    text: "Thunder. The rain fell. Wind screamed. The night was long.",
+    applied: [1],
+    conflicts: []
+  });
+});
+
+test("spliceSuggestions marks suggestions whose text is gone as conflicts", () => {
+  const gone = suggestion(1, "The wind howled.", "Wind screamed.");
+  const edited = text.replace("The wind howled.", "All was still.");
+  assert.deepEqual(spliceSuggestions(edited, [gone]), { text: edited, applied: [], conflicts: [1] });
+});
@@ -0,0 +1,213 @@
+import { pool, withTx } from "./db.js";
+import { generate } from "./llm.js";
+import { ReviewOptions, buildReviewPrompt, saveReview } from "./generation.js";
+import { anchorColumns, locateQuote } from "./inlineComments.js";
+import { recordRevision } from "./revisions.js";
+
+// AI rewrite suggestions: concrete replacements for spans of chapters.text that
+// the author can accept (applied to the chapter as a new revision) or reject.
+// A rewrite run is saved as a review version, and its suggestions can be
+// accepted or rejected together through that review.
+
+export const SUGGESTION_STATUSES = ["pending", "accepted", "rejected", "conflict"] as const;
+export type SuggestionStatus = typeof SUGGESTION_STATUSES[number];
+
+export const REWRITE_GOALS: Record<string, string> = {
+  tighten: "Tighten the prose: cut filler, redundancy and weak modifiers without changing meaning or voice.",
+  dialogue_tags: "Fix dialogue tags and beats: prefer \"said\", cut adverbs on tags, use action beats where they help.",
+  clarity: "Clarify confusing sentences: ambiguous pronouns, tangled syntax, unclear blocking.",
+  grammar: "Fix grammar, spelling and punctuation only."
+};
+
+export interface RewriteOptions extends ReviewOptions {
+  goal?: string;
+  instruction?: string;
+  maxSuggestions?: number;
+}
+
+interface DraftSuggestion extends Omit<ReturnType<typeof anchorColumns>, "quote"> {
+  original_text: string;
+  replacement: string;
+  reason: string | null;
+}
+
+// Same as POST /chapters
+const countWords = (text: string) => text.trim().split(/\s+/).length;
+
+const renderSuggestionsAsReview = (suggestions: DraftSuggestion[]) =>
+  suggestions.length
+    ? suggestions.map(s => `- "${s.original_text}" → "${s.replacement}"${s.reason ? ` (${s.reason})` : ""}`).join("\n")
+    : "No rewrites suggested.";
+
+// Ask the model for replacements and store them as pending suggestions.
+// Suggestions whose original text cannot be found in the chapter are dropped.
+export async function generateRewriteSuggestions(options: RewriteOptions) {
+  const { goal = "tighten", instruction, maxSuggestions = 10 } = options;
+  const direction = [REWRITE_GOALS[goal], instruction].filter(Boolean).join(" ");
+
+  const prompt = await buildReviewPrompt(
+    { ...options, tone: options.tone ?? "line-notes" },
+    `Return JSON only for this schema: {suggestions[{original, replacement, reason}]}, with at most ${maxSuggestions} suggestions ` +
+    `rewriting passages of the NEW CHAPTER. ${direction} ` +
+    "`original` must be copied exactly from the new chapter text (a sentence or a few, never a whole scene); " +
+    "`replacement` is the full rewritten text for that span."
+  );
+
+  const response = await generate({
+    task: "rewrite",
+    settings: prompt.settings,
+    model: prompt.model,
+    meter: prompt.meter,
+    messages: [
+      { role: "system", content: prompt.systemPrompt },
+      { role: "user", content: prompt.userPrompt }
+    ],
+    json: true,
+    temperature: 0.4
+  });
+
+  if (!response.content) {
+    throw new Error(`No content received from ${response.provider}`);
+  }
+  const out = JSON.parse(response.content);
+
+  const { rows: chapterRows } = await pool.query('SELECT text FROM chapters WHERE id = $1', [options.chapterId]);
+  const text: string = chapterRows[0].text;
+
+  const suggestions: DraftSuggestion[] = [];
+  let dropped = 0;
+  for (const raw of (Array.isArray(out.suggestions) ? out.suggestions : []).slice(0, maxSuggestions)) {
+    const anchor = typeof raw?.original === "string" ? locateQuote(text, raw.original) : null;
+    if (!anchor || typeof raw.replacement !== "string" || raw.replacement === text.slice(anchor.start, anchor.end)) {
+      dropped++;
+      continue;
+    }
+    const { quote, ...columns } = anchorColumns(text, anchor);
+    suggestions.push({
+      ...columns,
+      original_text: quote,
+      replacement: raw.replacement,
+      reason: typeof raw.reason === "string" ? raw.reason : null
+    });
+  }
+  suggestions.sort((a, b) => a.start_offset - b.start_offset);
+
+  const reviewId = await saveReview(options.chapterId, prompt, renderSuggestionsAsReview(suggestions), "rewrite");
+
+  const saved = await withTx(async (client) => {
+    const rows = [];
+    for (const s of suggestions) {
+      const { rows: inserted } = await client.query(
+        `INSERT INTO chapter_suggestions
+           (chapter_id, review_id, goal, original_text, replacement, reason,
+            start_offset, end_offset, prefix_context, suffix_context)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING *`,
+        [options.chapterId, reviewId, goal, s.original_text, s.replacement, s.reason,
+         s.start_offset, s.end_offset, s.prefix_context, s.suffix_context]
+      );
+      rows.push(inserted[0]);
+    }
+    return rows;
+  });
+
+  return { reviewId, suggestions: saved, dropped };
+}
+
+// The columns of a chapter_suggestions row needed to apply it
+export interface StoredSuggestion {
+  id: number;
+  original_text: string;
+  replacement: string;
+  start_offset: number;
+  end_offset: number;
+  prefix_context: string | null;
+  suffix_context: string | null;
+}
+
+// Splice suggestions into the text, in the order given. Each is located again
+// (the text may have changed since it was proposed); ones that can no longer be
+// found, or that overlap one placed before them, are returned as conflicts.
+export function spliceSuggestions(text: string, suggestions: StoredSuggestion[]) {
+  const located: { id: number; start: number; end: number; replacement: string }[] = [];
+  const conflicts: number[] = [];
+  for (const suggestion of suggestions) {
+    const anchor = text.slice(suggestion.start_offset, suggestion.end_offset) === suggestion.original_text
+      ? { start: suggestion.start_offset, end: suggestion.end_offset }
+      : locateQuote(text, suggestion.original_text, {
+          prefix: suggestion.prefix_context,
+          suffix: suggestion.suffix_context,
+          near: suggestion.start_offset
+        });
+    const overlaps = anchor && located.some(l => anchor.start < l.end && l.start < anchor.end);
+    if (!anchor || overlaps) {
+      conflicts.push(suggestion.id);
+    } else {
+      located.push({ id: suggestion.id, ...anchor, replacement: suggestion.replacement });
+    }
+  }
+
+  // Splice from the end so earlier offsets stay valid
+  for (const edit of [...located].sort((a, b) => b.start - a.start)) {
+    text = text.slice(0, edit.start) + edit.replacement + text.slice(edit.end);
+  }
+  return { text, applied: located.map(l => l.id), conflicts };
+}
+
+// Apply pending suggestions to the chapter in one edit, marking the ones
+// spliceSuggestions can't place as "conflict". Returns the ids applied and in
+// conflict plus the new revision.
+export async function applySuggestions(chapterId: string, suggestionIds: number[]) {
+  return withTx(async (client) => {
+    const { rows: chapterRows } = await client.query(
+      'SELECT text FROM chapters WHERE id = $1 FOR UPDATE',
+      [chapterId]
+    );
+
+    const { rows: pending } = await client.query(
+      `SELECT * FROM chapter_suggestions
+       WHERE chapter_id = $1 AND id = ANY($2::int[]) AND status = 'pending'
+       ORDER BY start_offset, id`,
+      [chapterId, suggestionIds]
+    );
+
+    const { text, applied, conflicts } = spliceSuggestions(chapterRows[0].text, pending);
+
+    let revisionId: number | null = null;
+    const wordCount = countWords(text);
+    if (applied.length) {
+      await client.query(
+        'UPDATE chapters SET text = $1, word_count = $2, updated_at = now() WHERE id = $3',
+        [text, wordCount, chapterId]
+      );
+      revisionId = await recordRevision(chapterId, "suggestion", null, client);
+
+      await client.query(
+        `UPDATE chapter_suggestions
+         SET status = 'accepted', applied_revision_id = $1, decided_at = now(), updated_at = now()
+         WHERE id = ANY($2::int[])`,
+        [revisionId, applied]
+      );
+    }
+
+    if (conflicts.length) {
+      await client.query(
+        `UPDATE chapter_suggestions SET status = 'conflict', decided_at = now(), updated_at = now()
+         WHERE id = ANY($1::int[])`,
+        [conflicts]
+      );
+    }
+
+    return { applied, conflicts, revisionId, wordCount };
+  });
+}
+
+export async function rejectSuggestions(suggestionIds: number[]) {
+  const { rows } = await pool.query(
+    `UPDATE chapter_suggestions SET status = 'rejected', decided_at = now(), updated_at = now()
+     WHERE id = ANY($1::int[]) AND status = 'pending'
+     RETURNING id`,
+    [suggestionIds]
+  );
+  return rows.map((r: any) => r.id as number);
+}
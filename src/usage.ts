@@ -0,0 +1,133 @@
+import { pool } from "./db.js";
+
+// AI usage metering. Every metered model call is recorded in ai_usage with its
+// tokens and estimated cost, attributed to the book's owner. Monthly quotas
+// (tokens and/or USD) are checked before each call.
+
+// Who a model call is billed to
+export interface UsageMeter {
+  bookId: string;
+  chapterId?: string | null;
+}
+
+export interface UsageRecord {
+  task: string;
+  provider: string;
+  model: string;
+  usage: { promptTokens: number; completionTokens: number } | null;
+}
+
+// USD per million tokens [prompt, completion]. LLM_PRICING (JSON of the same
+// shape) adds or overrides entries. Local and fake models are free; other
+// unknown models are recorded without a cost.
+const DEFAULT_PRICING: Record<string, [number, number]> = {
+  "gpt-4o-mini": [0.15, 0.6],
+  "gpt-4o": [2.5, 10],
+  "gpt-4.1": [2, 8],
+  "gpt-4.1-mini": [0.4, 1.6],
+  "gpt-4.1-nano": [0.1, 0.4],
+  "claude-3-5-haiku-latest": [0.8, 4],
+  "claude-3-5-sonnet-latest": [3, 15],
+  "claude-3-7-sonnet-latest": [3, 15],
+  "claude-sonnet-4-0": [3, 15],
+  "claude-opus-4-0": [15, 75]
+};
+
+const pricing = (): Record<string, [number, number]> => {
+  try {
+    return { ...DEFAULT_PRICING, ...JSON.parse(process.env.LLM_PRICING || "{}") };
+  } catch {
+    console.error("Ignoring LLM_PRICING: not valid JSON");
+    return DEFAULT_PRICING;
+  }
+};
+
+export function estimateCost(provider: string, model: string, promptTokens: number, completionTokens: number) {
+  if (provider === "local" || provider === "fake") return 0;
+  const price = pricing()[model];
+  if (!price) return null;
+  return (promptTokens * price[0] + completionTokens * price[1]) / 1_000_000;
+}
+
+// Raised before a model call once the user's monthly quota is used up
+export class QuotaExceededError extends Error {
+  status = 429;
+
+  constructor(message: string, public details: Awaited<ReturnType<typeof getMonthlyUsage>>) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+const envLimit = (name: string) => (process.env[name] ? Number(process.env[name]) : null);
+
+// This calendar month's (UTC) usage against the user's quota. A user's own
+// quota columns override USAGE_MONTHLY_TOKEN_QUOTA / USAGE_MONTHLY_COST_QUOTA_USD;
+// null means unlimited.
+export async function getMonthlyUsage(userId: number) {
+  const { rows } = await pool.query(
+    `SELECT u.monthly_token_quota, u.monthly_cost_quota_usd,
+            COALESCE(SUM(a.prompt_tokens + a.completion_tokens), 0)::bigint as tokens,
+            COALESCE(SUM(a.cost_usd), 0)::float as cost_usd,
+            date_trunc('month', now(), 'UTC') + interval '1 month' as resets_at
+     FROM users u
+     LEFT JOIN ai_usage a ON a.user_id = u.id AND a.created_at >= date_trunc('month', now(), 'UTC')
+     WHERE u.id = $1
+     GROUP BY u.id`,
+    [userId]
+  );
+  const row = rows[0] || {};
+  const tokenLimit = row.monthly_token_quota != null ? Number(row.monthly_token_quota) : envLimit("USAGE_MONTHLY_TOKEN_QUOTA");
+  const costLimit = row.monthly_cost_quota_usd != null ? Number(row.monthly_cost_quota_usd) : envLimit("USAGE_MONTHLY_COST_QUOTA_USD");
+
+  return {
+    tokens: Number(row.tokens || 0),
+    costUsd: Number(row.cost_usd || 0),
+    tokenLimit,
+    costLimitUsd: costLimit,
+    resetsAt: row.resets_at ? new Date(row.resets_at).toISOString() : null
+  };
+}
+
+const bookOwner = async (bookId: string): Promise<number | null> => {
+  const { rows } = await pool.query('SELECT user_id FROM books WHERE id = $1', [bookId]);
+  return rows[0]?.user_id ?? null;
+};
+
+export async function assertWithinQuota(meter: UsageMeter) {
+  const userId = await bookOwner(meter.bookId);
+  if (userId === null) return;
+
+  const usage = await getMonthlyUsage(userId);
+  if (usage.tokenLimit !== null && usage.tokens >= usage.tokenLimit) {
+    throw new QuotaExceededError(
+      `Monthly AI token quota reached (${usage.tokens} of ${usage.tokenLimit} tokens). It resets at ${usage.resetsAt}.`,
+      usage
+    );
+  }
+  if (usage.costLimitUsd !== null && usage.costUsd >= usage.costLimitUsd) {
+    throw new QuotaExceededError(
+      `Monthly AI spending quota reached ($${usage.costUsd.toFixed(2)} of $${usage.costLimitUsd.toFixed(2)}). It resets at ${usage.resetsAt}.`,
+      usage
+    );
+  }
+}
+
+// Metering must never fail the call it describes
+export async function recordUsage(meter: UsageMeter, record: UsageRecord) {
+  try {
+    const userId = await bookOwner(meter.bookId);
+    if (userId === null) return;
+
+    const promptTokens = record.usage?.promptTokens ?? 0;
+    const completionTokens = record.usage?.completionTokens ?? 0;
+    await pool.query(
+      `INSERT INTO ai_usage (user_id, book_id, chapter_id, task, provider, model, prompt_tokens, completion_tokens, cost_usd)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [userId, meter.bookId, meter.chapterId ?? null, record.task, record.provider, record.model,
+       promptTokens, completionTokens, estimateCost(record.provider, record.model, promptTokens, completionTokens)]
+    );
+  } catch (error) {
+    console.error("Record usage error:", error);
+  }
+}
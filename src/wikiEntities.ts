@@ -0,0 +1,86 @@
+// Entities a chapter summary lists for the wiki. Characters are stored in
+// chapter_summaries.characters as before; places, organizations, items and
+// world-building concepts go to chapter_summaries.entities, one list per type.
+// Each type gets wiki pages of its own page_type, written with its own sections.
+
+export const WIKI_PAGE_TYPES = ["character", "location", "organization", "item", "concept", "other"] as const;
+export type WikiPageType = typeof WIKI_PAGE_TYPES[number];
+export type EntityType = Exclude<WikiPageType, "other">;
+
+export interface EntityTypeInfo {
+  // Key of the list in the summary JSON
+  summaryField: string;
+  // What the summary prompt asks for under that key
+  description: string;
+  // Sections of a new page
+  sections: string[];
+}
+
+export const ENTITY_TYPES: Record<EntityType, EntityTypeInfo> = {
+  character: {
+    summaryField: "characters",
+    description: "main characters",
+    sections: ["Basic Information", "Appearance", "Personality", "Background", "Relationships", "Chapter Appearances"]
+  },
+  location: {
+    summaryField: "locations",
+    description: "named places that matter in the chapter (cities, buildings, regions, ships)",
+    sections: ["Overview", "Geography and Layout", "History", "Inhabitants and Notable Figures", "Events Here", "Chapter Appearances"]
+  },
+  organization: {
+    summaryField: "organizations",
+    description: "named groups (houses, guilds, orders, companies, governments)",
+    sections: ["Overview", "Purpose and Beliefs", "Structure and Leadership", "Known Members", "History", "Chapter Appearances"]
+  },
+  item: {
+    summaryField: "items",
+    description: "named or plot-significant objects (artifacts, weapons, letters, heirlooms)",
+    sections: ["Description", "Origin", "Powers or Significance", "Owners and Whereabouts", "Chapter Appearances"]
+  },
+  concept: {
+    summaryField: "concepts",
+    description: "magic systems, technologies, customs and other rules of the world",
+    sections: ["Overview", "How It Works", "Rules and Limits", "Who Uses It", "Chapter Appearances"]
+  }
+};
+
+// Types stored in chapter_summaries.entities rather than in their own column
+const EXTRA_TYPES = (Object.keys(ENTITY_TYPES) as EntityType[]).filter(type => type !== "character");
+
+export interface EntityMention {
+  name: string;
+  pageType: EntityType;
+}
+
+// The entity lists in the chapter summary's JSON schema, as given to the model
+export const ENTITY_SCHEMA_FIELDS =
+  (Object.keys(ENTITY_TYPES) as EntityType[]).map(type => `${ENTITY_TYPES[type].summaryField}[]`).join(", ");
+
+// Instruction listing what goes in each entity list
+export const summaryEntityInstruction = () =>
+  (Object.keys(ENTITY_TYPES) as EntityType[])
+    .map(type => `${ENTITY_TYPES[type].summaryField}: ${ENTITY_TYPES[type].description}`)
+    .join("; ");
+
+const cleanNames = (value: unknown) =>
+  [...new Set((Array.isArray(value) ? value : [])
+    .filter((name): name is string => typeof name === "string")
+    .map(name => name.trim())
+    .filter(Boolean))];
+
+// The non-character lists of a model's summary, for chapter_summaries.entities
+export function summaryEntities(out: Record<string, unknown>) {
+  return Object.fromEntries(EXTRA_TYPES.map(type => [ENTITY_TYPES[type].summaryField, cleanNames(out[ENTITY_TYPES[type].summaryField])]));
+}
+
+// Everything a stored summary mentions, characters first
+export function entityMentions(characters: unknown, entities: Record<string, unknown> | null): EntityMention[] {
+  return [
+    ...cleanNames(characters).map(name => ({ name, pageType: "character" as const })),
+    ...EXTRA_TYPES.flatMap(type => cleanNames(entities?.[ENTITY_TYPES[type].summaryField]).map(name => ({ name, pageType: type })))
+  ];
+}
+
+// Whether a model's summary lists anything for the wiki
+export const mentionsWikiEntities = (out: Record<string, unknown>) =>
+  entityMentions(out.characters, summaryEntities(out)).length > 0;
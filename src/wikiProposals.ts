@@ -0,0 +1,131 @@
+import { pool, withTx } from "./db.js";
+
+// Wiki pages a person has written or edited are never rewritten by the model
+// directly. AI updates to them are queued as proposals that the author accepts
+// (optionally after editing them) or rejects; both outcomes are logged in
+// wiki_updates. Pages only the model has written are still updated in place.
+
+export const WIKI_PROPOSAL_STATUSES = ["pending", "accepted", "rejected", "superseded"] as const;
+export type WikiProposalStatus = typeof WIKI_PROPOSAL_STATUSES[number];
+
+export interface WikiUpdateContent {
+  content: string;
+  summary?: string | null;
+  changeSummary?: string | null;
+  contradictions?: string | null;
+}
+
+// Whether AI updates to a page need the author's approval
+export const needsApproval = (page: { created_by_ai: boolean | null; human_edited_at: Date | null }) =>
+  !page.created_by_ai || page.human_edited_at !== null;
+
+// The page's pending proposal, if it was written against the current content.
+// New chapters build on it so one proposal collects every unreviewed change.
+export async function currentProposal(wikiPageId: number) {
+  const { rows } = await pool.query(
+    `SELECT p.*
+     FROM wiki_proposals p
+     JOIN wiki_pages w ON p.wiki_page_id = w.id
+     WHERE p.wiki_page_id = $1 AND p.status = 'pending'
+       AND p.base_content IS NOT DISTINCT FROM w.content
+     ORDER BY p.id DESC
+     LIMIT 1`,
+    [wikiPageId]
+  );
+  return rows[0] ?? null;
+}
+
+// Queue an AI update for approval; it replaces the page's earlier pending proposals
+export async function proposeWikiUpdate(
+  page: { id: number; content: string | null },
+  chapterId: string | null,
+  update: WikiUpdateContent
+) {
+  return withTx(async (client) => {
+    await client.query(
+      `UPDATE wiki_proposals SET status = 'superseded', decided_at = now()
+       WHERE wiki_page_id = $1 AND status = 'pending'`,
+      [page.id]
+    );
+    const { rows } = await client.query(
+      `INSERT INTO wiki_proposals (wiki_page_id, chapter_id, base_content, proposed_content, proposed_summary,
+                                   change_summary, contradiction_notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [page.id, chapterId, page.content, update.content, update.summary ?? null,
+       update.changeSummary ?? null, update.contradictions ?? null]
+    );
+    return rows[0].id as number;
+  });
+}
+
+// Apply a pending proposal. A proposal written against content that has since
+// changed is only applied with explicit replacement content from the author.
+export async function acceptWikiProposal(proposalId: number, edits: { content?: string; summary?: string } = {}) {
+  return withTx(async (client) => {
+    const { rows } = await client.query(
+      `SELECT p.*, w.content as current_content
+       FROM wiki_proposals p
+       JOIN wiki_pages w ON p.wiki_page_id = w.id
+       WHERE p.id = $1
+       FOR UPDATE OF p, w`,
+      [proposalId]
+    );
+    const proposal = rows[0];
+    if (proposal.status !== "pending") {
+      return { outcome: "not_pending" as const, status: proposal.status as WikiProposalStatus };
+    }
+    if (edits.content === undefined && proposal.base_content !== proposal.current_content) {
+      return { outcome: "stale" as const };
+    }
+
+    const content = edits.content ?? proposal.proposed_content;
+    const { rows: pageRows } = await client.query(
+      `UPDATE wiki_pages SET content = $1, summary = COALESCE($2, summary), updated_at = now()
+       WHERE id = $3
+       RETURNING *`,
+      [content, edits.summary ?? proposal.proposed_summary, proposal.wiki_page_id]
+    );
+    await client.query(
+      `INSERT INTO wiki_updates (wiki_page_id, chapter_id, update_type, previous_content, new_content, change_summary, contradiction_notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        proposal.wiki_page_id,
+        proposal.chapter_id,
+        edits.content === undefined ? "proposal_accepted" : "proposal_accepted_with_edits",
+        proposal.current_content,
+        content,
+        proposal.change_summary,
+        proposal.contradiction_notes
+      ]
+    );
+    await client.query(
+      `UPDATE wiki_proposals SET status = 'accepted', decided_at = now() WHERE id = $1`,
+      [proposalId]
+    );
+    return { outcome: "accepted" as const, page: pageRows[0] };
+  });
+}
+
+export async function rejectWikiProposal(proposalId: number) {
+  return withTx(async (client) => {
+    const { rows } = await client.query(
+      `UPDATE wiki_proposals p SET status = 'rejected', decided_at = now()
+       FROM wiki_pages w
+       WHERE p.id = $1 AND p.status = 'pending' AND w.id = p.wiki_page_id
+       RETURNING p.*, w.content as current_content`,
+      [proposalId]
+    );
+    if (!rows.length) {
+      return false;
+    }
+    const proposal = rows[0];
+    await client.query(
+      `INSERT INTO wiki_updates (wiki_page_id, chapter_id, update_type, previous_content, new_content, change_summary, contradiction_notes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [proposal.wiki_page_id, proposal.chapter_id, "proposal_rejected", proposal.current_content,
+       proposal.proposed_content, proposal.change_summary, proposal.contradiction_notes]
+    );
+    return true;
+  });
+}
@@ -0,0 +1,16 @@
+import "dotenv/config";
+import { pool } from "./db.js";
+import { startJobWorker } from "./jobs.js";
+
+// Standalone AI job worker, for running generation outside the API process.
+// Start the API with JOB_WORKER=off when using this.
+const stop = startJobWorker();
+
+const shutdown = async () => {
+  stop();
+  await pool.end();
+  process.exit(0);
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);